@@ -13,37 +13,50 @@ import Safety from "@/pages/safety";
 import Analytics from "@/pages/analytics";
 import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth-page";
 import Sidebar from "@/components/sidebar";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+import { useLiveEvents } from "@/lib/live-events";
 
 function Router() {
+  useLiveEvents();
+
   return (
-    <div className="min-h-screen bg-gray-50">
-      <Sidebar />
-      <div className="lg:pl-64">
-        <Switch>
-          <Route path="/" component={Dashboard} />
-          <Route path="/persona" component={Persona} />
-          <Route path="/conversations" component={Conversations} />
-          <Route path="/content" component={Content} />
-          <Route path="/fans" component={Fans} />
-          <Route path="/payments" component={Payments} />
-          <Route path="/safety" component={Safety} />
-          <Route path="/analytics" component={Analytics} />
-          <Route path="/settings" component={Settings} />
-          <Route component={NotFound} />
-        </Switch>
-      </div>
-    </div>
+    <Switch>
+      <Route path="/auth" component={AuthPage} />
+      <Route>
+        <div className="min-h-screen bg-gray-50">
+          <Sidebar />
+          <div className="lg:pl-64">
+            <Switch>
+              <ProtectedRoute path="/" component={Dashboard} />
+              <ProtectedRoute path="/persona" component={Persona} />
+              <ProtectedRoute path="/conversations" component={Conversations} />
+              <ProtectedRoute path="/content" component={Content} />
+              <ProtectedRoute path="/fans" component={Fans} />
+              <ProtectedRoute path="/payments" component={Payments} />
+              <ProtectedRoute path="/safety" component={Safety} />
+              <ProtectedRoute path="/analytics" component={Analytics} />
+              <ProtectedRoute path="/settings" component={Settings} />
+              <Route component={NotFound} />
+            </Switch>
+          </div>
+        </div>
+      </Route>
+    </Switch>
   );
 }
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck } from "lucide-react";
+
+// The consent prompt and statements fans affirm; saving asks fans who affirmed the old wording again
+export function ConsentWording({ creatorId }: { creatorId: string }) {
+  const { toast } = useToast();
+  const [wording, setWording] = useState({ prompt: "", ageStatement: "", romanticStatement: "" });
+
+  const queryKey = ["/api/consent/text", creatorId];
+  const { data: text } = useQuery({
+    queryKey,
+    queryFn: () => api.getConsentText(creatorId),
+  });
+
+  useEffect(() => {
+    if (text) {
+      setWording({ prompt: text.prompt, ageStatement: text.ageStatement, romanticStatement: text.romanticStatement });
+    }
+  }, [text?.version]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.updateConsentText(creatorId, wording),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Success",
+        description: `Saved as version ${saved.version}. ${saved.reaffirmationsQueued} fan(s) will be asked to affirm again.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save consent wording",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unchanged = !!text && wording.prompt === text.prompt
+    && wording.ageStatement === text.ageStatement
+    && wording.romanticStatement === text.romanticStatement;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2" />
+          Consent Wording
+          {text && (
+            <Badge variant="outline" className="ml-2">{text.version === 0 ? "Default" : `v${text.version}`}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Sent after the persona disclosure before any romantic conversation. Changing it asks fans who already affirmed to affirm again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="consent-prompt">Prompt</Label>
+          <Textarea
+            id="consent-prompt"
+            rows={3}
+            value={wording.prompt}
+            onChange={(e) => setWording({ ...wording, prompt: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="consent-age">Age statement</Label>
+            <Input
+              id="consent-age"
+              value={wording.ageStatement}
+              onChange={(e) => setWording({ ...wording, ageStatement: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="consent-romantic">Romantic content statement</Label>
+            <Input
+              id="consent-romantic"
+              value={wording.romanticStatement}
+              onChange={(e) => setWording({ ...wording, romanticStatement: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            disabled={unchanged || !wording.prompt.trim() || !wording.ageStatement.trim() || !wording.romanticStatement.trim() || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Wording"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
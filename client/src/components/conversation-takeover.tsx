@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, type ConversationMode } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Bot, Send, UserRound } from "lucide-react";
+
+export const MODE_LABELS: Record<ConversationMode, { label: string; className: string }> = {
+  ai: { label: "AI", className: "bg-blue-100 text-blue-700" },
+  human: { label: "Operator", className: "bg-purple-100 text-purple-700" },
+  paused: { label: "Paused", className: "bg-yellow-100 text-yellow-800" },
+};
+
+// Lets an operator take a conversation over from the AI, answer queued fan messages and hand it back
+export function ConversationTakeover({ conversationId }: { conversationId: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+
+  const queryKey = ["/api/conversations", conversationId, "takeover"];
+  const { data: takeover, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => api.getTakeover(conversationId),
+    // Fan messages keep arriving while the operator is answering
+    refetchInterval: 15000,
+  });
+
+  const onDone = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations/active/creator"] });
+    toast({ title: "Success", description });
+  };
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const takeOverMutation = useMutation({
+    mutationFn: (force: boolean) => api.takeOverConversation(conversationId, force),
+    onSuccess: onDone("You are now handling this conversation"),
+    onError: onError("Failed to take over conversation"),
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: () => api.releaseConversation(conversationId),
+    onSuccess: onDone("Conversation handed back to the AI"),
+    onError: onError("Failed to release conversation"),
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: () => api.resumeConversation(conversationId),
+    onSuccess: onDone("AI replies resumed"),
+    onError: onError("Failed to resume conversation"),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: () => api.sendOperatorMessage(conversationId, draft),
+    onSuccess: (result) => {
+      setDraft("");
+      onDone(result.delivered ? "Message sent" : `Message held for review: ${result.moderation?.reason}`)();
+    },
+    onError: onError("Failed to send message"),
+  });
+
+  if (isLoading || !takeover) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  const mode = MODE_LABELS[takeover.mode];
+  const heldByMe = takeover.mode === "human" && takeover.heldBy === user?.id;
+  const heldByOther = takeover.mode === "human" && !heldByMe;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Badge className={mode.className}>{mode.label}</Badge>
+        <span className="text-xs text-gray-500">
+          {heldByMe && takeover.releaseAt && `Returns to the AI at ${new Date(takeover.releaseAt).toLocaleTimeString()} if you stay idle`}
+          {heldByOther && "Another operator is handling this conversation"}
+        </span>
+        <div className="ml-auto flex gap-2">
+          {takeover.mode === "paused" && (
+            <Button variant="outline" size="sm" disabled={resumeMutation.isPending} onClick={() => resumeMutation.mutate()}>
+              <Bot className="w-4 h-4 mr-1" />
+              Resume AI
+            </Button>
+          )}
+          {heldByMe ? (
+            <Button variant="outline" size="sm" disabled={releaseMutation.isPending} onClick={() => releaseMutation.mutate()}>
+              <Bot className="w-4 h-4 mr-1" />
+              Hand Back to AI
+            </Button>
+          ) : (
+            <Button size="sm" disabled={takeOverMutation.isPending} onClick={() => takeOverMutation.mutate(heldByOther)}>
+              <UserRound className="w-4 h-4 mr-1" />
+              {heldByOther ? "Take Over Anyway" : "Take Over"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {takeover.mode === "human" && (
+        takeover.queuedMessages.length > 0 ? (
+          <ul className="space-y-1 text-sm">
+            {takeover.queuedMessages.map((message) => (
+              <li key={message.id} className="flex items-center gap-2">
+                <span className="text-gray-700">{message.content}</span>
+                <span className="text-xs text-gray-500 ml-auto">{new Date(message.createdAt).toLocaleTimeString()}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No fan messages waiting.</p>
+        )
+      )}
+
+      {heldByMe && (
+        <div className="flex gap-2">
+          <Textarea
+            rows={2}
+            placeholder="Reply as the persona..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <Button disabled={!draft.trim() || sendMutation.isPending} onClick={() => sendMutation.mutate()}>
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, type PendingReplyDraft } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Check, PenLine, X } from "lucide-react";
+
+const queryKey = ["/api/drafts"];
+
+function DraftCandidate({ draft }: { draft: PendingReplyDraft }) {
+  const { toast } = useToast();
+  const [text, setText] = useState(draft.content);
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: () => api.approveDraft(draft.id, text === draft.content ? undefined : text),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/active/creator"] });
+      toast({
+        title: "Success",
+        description: result.deliveryStatus === "sent" ? "Reply sent" : "Reply held for moderation review",
+      });
+    },
+    onError: onError("Failed to approve draft"),
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: () => api.rejectDraft(draft.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Success", description: "Draft rejected" });
+    },
+    onError: onError("Failed to reject draft"),
+  });
+
+  const flagged = draft.moderation && draft.moderation.action !== "allow";
+  const busy = approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">Candidate {draft.candidateIndex + 1}</Badge>
+        {flagged && (
+          <Badge className="bg-yellow-100 text-yellow-800">{draft.moderation?.reason || "Flagged"}</Badge>
+        )}
+        {text !== draft.content && (
+          <span className="flex items-center text-xs text-gray-500">
+            <PenLine className="w-3 h-3 mr-1" />
+            Edited
+          </span>
+        )}
+        {(draft.toolCalls?.length ?? 0) > 0 && (
+          <span className="text-xs text-gray-500">
+            Runs on send: {draft.toolCalls!.map((call) => call.name).join(", ")}
+          </span>
+        )}
+      </div>
+      <Textarea rows={3} value={text} onChange={(e) => setText(e.target.value)} />
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" disabled={busy} onClick={() => rejectMutation.mutate()}>
+          <X className="w-4 h-4 mr-1" />
+          Reject
+        </Button>
+        <Button size="sm" disabled={busy || !text.trim()} onClick={() => approveMutation.mutate()}>
+          <Check className="w-4 h-4 mr-1" />
+          {text !== draft.content ? "Send Edited" : "Approve"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Co-pilot review pane: AI reply candidates waiting for approval, grouped by the fan message they answer
+export function DraftReview() {
+  const { data: drafts } = useQuery({
+    queryKey,
+    queryFn: () => api.getPendingDrafts(),
+    refetchInterval: 15000,
+  });
+
+  if (!drafts || drafts.length === 0) return null;
+
+  const groups = new Map<string, PendingReplyDraft[]>();
+  for (const draft of drafts) {
+    groups.set(draft.inboundMessageId, [...(groups.get(draft.inboundMessageId) || []), draft]);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Drafts Awaiting Approval ({groups.size})</CardTitle>
+        <CardDescription>
+          Co-pilot replies are only sent once approved. Edits are recorded to help tune the persona.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {Array.from(groups.entries()).map(([inboundMessageId, candidates]) => {
+          const first = candidates[0];
+          return (
+            <div key={inboundMessageId} className="border rounded-lg p-4 space-y-4">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="font-medium text-gray-900">{first.fanHandle || "@unknown"}</p>
+                  {first.fanSpendTier && <Badge variant="secondary">{first.fanSpendTier}</Badge>}
+                  {first.personaName && <Badge variant="outline">{first.personaName}</Badge>}
+                  <span className="text-xs text-gray-500 ml-auto">{new Date(first.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-sm text-gray-700">{first.fanMessage}</p>
+              </div>
+              {candidates.map((draft) => (
+                <DraftCandidate key={draft.id} draft={draft} />
+              ))}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
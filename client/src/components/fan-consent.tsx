@@ -0,0 +1,93 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, type ConsentState } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ShieldOff } from "lucide-react";
+
+const STATE_LABELS: Record<ConsentState, { label: string; className: string }> = {
+  valid: { label: "Consent valid", className: "bg-green-100 text-green-700" },
+  missing: { label: "No consent", className: "bg-red-100 text-red-700" },
+  incomplete: { label: "Partial consent", className: "bg-yellow-100 text-yellow-800" },
+  revoked: { label: "Revoked", className: "bg-red-100 text-red-700" },
+  wording_changed: { label: "Awaiting re-affirmation (wording)", className: "bg-yellow-100 text-yellow-800" },
+  disclosure_changed: { label: "Awaiting re-affirmation (disclosure)", className: "bg-yellow-100 text-yellow-800" },
+};
+
+// The fan's consent ledger with this creator; revoking stops romantic messages at once
+export function FanConsent({ fanId }: { fanId: string }) {
+  const { toast } = useToast();
+
+  const queryKey = ["/api/fans", fanId, "consent"];
+  const { data: consent, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => api.getFanConsent(fanId),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => api.revokeConsent(fanId, "Revoked by team"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/active/creator"] });
+      toast({ title: "Success", description: "Consent revoked" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke consent",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !consent) {
+    return <p className="text-sm text-gray-500">Loading consent...</p>;
+  }
+
+  const state = consent.state && STATE_LABELS[consent.state];
+  const latest = consent.records[0];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {state && <Badge className={state.className}>{state.label}</Badge>}
+        <span className="text-xs text-gray-500">
+          Current wording: {consent.consentText.version === 0 ? "default" : `v${consent.consentText.version}`}
+        </span>
+        {latest?.action === "affirm" && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            disabled={revokeMutation.isPending}
+            onClick={() => revokeMutation.mutate()}
+          >
+            <ShieldOff className="w-4 h-4 mr-1" />
+            Revoke
+          </Button>
+        )}
+      </div>
+
+      {consent.records.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {consent.records.map((record) => (
+            <li key={record.id} className="flex items-center gap-2">
+              <Badge variant="outline" className="capitalize">{record.action}</Badge>
+              <span className="text-gray-700">
+                {record.action === "affirm"
+                  ? [record.ageAffirmed && "18+", record.romanticContent && "romantic content"].filter(Boolean).join(", ") || "nothing affirmed"
+                  : record.reason || "romantic content withdrawn"}
+              </span>
+              <span className="text-xs text-gray-500 ml-auto">
+                {record.consentTextVersion === 0 ? "default" : `v${record.consentTextVersion}`} · {record.channel} · {new Date(record.createdAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No consent recorded with this creator yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api, type FanMemory, type FanMemoryCategory } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react";
+
+const CATEGORIES: FanMemoryCategory[] = ["name", "interest", "purchase", "boundary", "other"];
+
+const SOURCE_LABELS: Record<FanMemory["source"], string> = {
+  conversation: "From chat",
+  purchase: "From purchase",
+  operator: "Added by team",
+};
+
+// What the AI remembers about a fan; operators can correct, add or remove facts
+export function FanMemories({ fanId }: { fanId: string }) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editFact, setEditFact] = useState("");
+  const [newFact, setNewFact] = useState("");
+  const [newCategory, setNewCategory] = useState<FanMemoryCategory>("interest");
+
+  const queryKey = ["/api/fans", fanId, "memories"];
+  const { data: memories, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => api.getFanMemories(fanId),
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update memories",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createFanMemory(fanId, { category: newCategory, fact: newFact }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setNewFact("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, fact }: { id: string; fact: string }) => api.updateFanMemory(fanId, id, { fact }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteFanMemory(fanId, id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading memories...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {memories && memories.length > 0 ? (
+        <ul className="space-y-2">
+          {memories.map((memory) => (
+            <li key={memory.id} className="flex items-center gap-2 text-sm">
+              <Badge variant="outline" className="capitalize">{memory.category}</Badge>
+              {editingId === memory.id ? (
+                <>
+                  <Input
+                    value={editFact}
+                    onChange={(e) => setEditFact(e.target.value)}
+                    className="h-8 flex-1"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!editFact.trim() || updateMutation.isPending}
+                    onClick={() => updateMutation.mutate({ id: memory.id, fact: editFact })}
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 text-gray-900">{memory.fact}</span>
+                  <span className="text-xs text-gray-500">{SOURCE_LABELS[memory.source]}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditingId(memory.id);
+                      setEditFact(memory.fact);
+                    }}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(memory.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">Nothing remembered about this fan yet.</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Select value={newCategory} onValueChange={(value) => setNewCategory(value as FanMemoryCategory)}>
+          <SelectTrigger className="w-32 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CATEGORIES.map((category) => (
+              <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Add a fact..."
+          value={newFact}
+          onChange={(e) => setNewFact(e.target.value)}
+          className="h-8 flex-1"
+        />
+        <Button
+          size="sm"
+          disabled={!newFact.trim() || createMutation.isPending}
+          onClick={() => createMutation.mutate()}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
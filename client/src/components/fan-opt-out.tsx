@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, type OptOutEvent } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { BellOff } from "lucide-react";
+
+const describe = (event: OptOutEvent) =>
+  event.keyword ? `Sent "${event.keyword}"` : event.reason || (event.action === "opt_out" ? "Opted out" : "Opted in");
+
+// Opt-out history across all creators; the team can record an opt-out, only the fan can send START
+export function FanOptOut({ fanId }: { fanId: string }) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const queryKey = ["/api/fans", fanId, "opt-out"];
+  const { data: status, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => api.getFanOptOut(fanId),
+  });
+
+  const optOutMutation = useMutation({
+    mutationFn: () => api.recordOptOut(fanId, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/active/creator"] });
+      setReason("");
+      toast({ title: "Success", description: "Opt-out recorded. No further messages will be sent." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record opt-out",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !status) {
+    return <p className="text-sm text-gray-500">Loading opt-out status...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {status.optedOut ? (
+          <Badge className="bg-red-100 text-red-700">
+            Opted out{status.optedOutAt && ` since ${new Date(status.optedOutAt).toLocaleDateString()}`}
+          </Badge>
+        ) : (
+          <Badge className="bg-green-100 text-green-700">Subscribed</Badge>
+        )}
+        {!status.optedOut && (
+          <div className="flex items-center gap-2 ml-auto">
+            <Input
+              className="h-8 w-64"
+              placeholder="Where the request came from..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!reason.trim() || optOutMutation.isPending}
+              onClick={() => optOutMutation.mutate()}
+            >
+              <BellOff className="w-4 h-4 mr-1" />
+              Record opt-out
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {status.events.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {status.events.map((event) => (
+            <li key={event.id} className="flex items-center gap-2">
+              <Badge variant="outline">{event.action === "opt_out" ? "Opt-out" : "Opt-in"}</Badge>
+              <span className="text-gray-700">{describe(event)}</span>
+              <span className="text-xs text-gray-500 ml-auto">
+                {event.channel} · {new Date(event.createdAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
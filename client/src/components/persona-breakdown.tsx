@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { api, type Persona } from "@/lib/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Users } from "lucide-react";
+
+function PersonaRow({ persona }: { persona: Persona }) {
+  const { data: metrics } = useQuery({
+    queryKey: ["/api/personas", persona.id, "analytics"],
+    queryFn: () => api.getPersonaAnalytics(persona.id),
+  });
+
+  return (
+    <tr className="border-t">
+      <td className="py-2">
+        <span className="font-medium text-gray-900">{persona.name}</span>
+        {persona.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+        {!persona.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+      </td>
+      <td className="py-2 text-right">{metrics?.activeConversations ?? "—"}</td>
+      <td className="py-2 text-right">{metrics?.messagesSentToday ?? "—"}</td>
+      <td className="py-2 text-right">{metrics ? `$${metrics.totalRevenue.toFixed(2)}` : "—"}</td>
+    </tr>
+  );
+}
+
+// Side-by-side numbers for each of the creator's personas
+export function PersonaBreakdown({ creatorId }: { creatorId: string }) {
+  const { data: personas } = useQuery({
+    queryKey: ["/api/personas/creator", creatorId, "all"],
+    queryFn: () => api.getPersonas(creatorId),
+  });
+
+  if (!personas || personas.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="w-5 h-5 mr-2" />
+          Personas
+        </CardTitle>
+        <CardDescription>Conversations, messages and revenue per persona</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium pb-2">Persona</th>
+              <th className="text-right font-medium pb-2">Active chats</th>
+              <th className="text-right font-medium pb-2">Messages today</th>
+              <th className="text-right font-medium pb-2">Revenue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {personas.map((persona) => (
+              <PersonaRow key={persona.id} persona={persona} />
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { api, type CopilotConfig, type Persona } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PenLine } from "lucide-react";
+
+const SPEND_TIERS = ["free", "regular", "premium", "vip"];
+
+const withDefaults = (config?: CopilotConfig | null): CopilotConfig => ({
+  enabled: config?.enabled ?? false,
+  spendTiers: config?.spendTiers ?? [],
+  candidates: config?.candidates ?? 1,
+});
+
+// Whether this persona's replies are drafted for approval instead of sent, and for which fans
+export function PersonaCopilot({ persona }: { persona: Persona }) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState(withDefaults(persona.copilotConfig));
+
+  useEffect(() => {
+    setConfig(withDefaults(persona.copilotConfig));
+  }, [persona.id, JSON.stringify(persona.copilotConfig)]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.updatePersona(persona.id, { copilotConfig: config }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/creator"] });
+      toast({ title: "Success", description: "Co-pilot settings saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save co-pilot settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleTier = (tier: string) => {
+    const tiers = config.spendTiers || [];
+    setConfig({ ...config, spendTiers: tiers.includes(tier) ? tiers.filter(t => t !== tier) : [...tiers, tier] });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <PenLine className="w-5 h-5 mr-2" />
+          Co-pilot Drafts
+        </CardTitle>
+        <CardDescription>
+          Replies are drafted for your team to approve, edit or reject instead of being sent straight away.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="copilot-enabled"
+            checked={config.enabled}
+            onCheckedChange={(enabled) => setConfig({ ...config, enabled })}
+          />
+          <Label htmlFor="copilot-enabled">Draft replies for approval</Label>
+        </div>
+
+        {config.enabled && (
+          <>
+            <div className="space-y-2">
+              <Label>Only for these spend tiers (none selected means every fan)</Label>
+              <div className="flex flex-wrap gap-2">
+                {SPEND_TIERS.map((tier) => (
+                  <Button
+                    key={tier}
+                    type="button"
+                    size="sm"
+                    variant={config.spendTiers?.includes(tier) ? "default" : "outline"}
+                    className="capitalize"
+                    onClick={() => toggleTier(tier)}
+                  >
+                    {tier}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Candidates per message</Label>
+              <Select
+                value={String(config.candidates)}
+                onValueChange={(value) => setConfig({ ...config, candidates: parseInt(value, 10) })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3].map((count) => (
+                    <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending ? "Saving..." : "Save Co-pilot Settings"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api, type Persona, type PersonaFieldDiff } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, RotateCcw } from "lucide-react";
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  bio: "Bio",
+  voiceKeywords: "Voice keywords",
+  doSay: "Do say",
+  dontSay: "Don't say",
+  offerMenu: "Offer menu",
+  disclosure: "Disclosure",
+  llmConfig: "Model settings",
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "—" : typeof value === "string" ? value : JSON.stringify(value);
+
+function FieldChange({ change }: { change: PersonaFieldDiff }) {
+  const describe = (item: unknown) =>
+    typeof item === "object" && item && "label" in item ? (item as { label: string }).label : formatValue(item);
+
+  return (
+    <div className="text-sm">
+      <p className="font-medium text-gray-900">{FIELD_LABELS[change.field] || change.field}</p>
+      {change.added || change.removed ? (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {change.added?.map((item, i) => (
+            <Badge key={`a${i}`} className="bg-green-100 text-green-700">+ {describe(item)}</Badge>
+          ))}
+          {change.removed?.map((item, i) => (
+            <Badge key={`r${i}`} className="bg-red-100 text-red-700">− {describe(item)}</Badge>
+          ))}
+          {change.changed?.map((item) => (
+            <Badge key={item.sku} variant="outline">~ {describe(item.after)}</Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-600">
+          <span className="line-through text-red-600">{formatValue(change.before)}</span>
+          {" → "}
+          <span className="text-green-700">{formatValue(change.after)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Saved versions of a persona, with a diff against the current one and rollback
+export function PersonaHistory({ persona }: { persona: Persona }) {
+  const { toast } = useToast();
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const { data: versions } = useQuery({
+    queryKey: ["/api/personas", persona.id, "versions", persona.version],
+    queryFn: () => api.getPersonaVersions(persona.id),
+  });
+
+  const { data: diff } = useQuery({
+    queryKey: ["/api/personas", persona.id, "diff", compareVersion, persona.version],
+    queryFn: () => api.diffPersonaVersions(persona.id, compareVersion!),
+    enabled: compareVersion !== null,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: number) => api.rollbackPersona(persona.id, version),
+    onSuccess: (updated) => {
+      toast({ title: "Success", description: `Restored as version ${updated.version}` });
+      setCompareVersion(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/creator", persona.creatorId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll back persona",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          Every save is kept. Compare an earlier version with the current one or restore it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {versions?.map((version) => (
+            <li key={version.id} className="flex items-center gap-3 p-3 border rounded-lg text-sm">
+              <Badge variant={version.version === persona.version ? "default" : "outline"}>v{version.version}</Badge>
+              <div className="flex-1">
+                <p className="text-gray-900">
+                  {new Date(version.createdAt).toLocaleString()}
+                  {version.createdByUsername && <span className="text-gray-500"> by {version.createdByUsername}</span>}
+                </p>
+                {version.rolledBackFrom && (
+                  <p className="text-xs text-gray-500">Restored from v{version.rolledBackFrom}</p>
+                )}
+              </div>
+              {version.version !== persona.version && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCompareVersion(compareVersion === version.version ? null : version.version)}
+                  >
+                    {compareVersion === version.version ? "Hide changes" : "Compare"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={rollbackMutation.isPending}
+                    onClick={() => rollbackMutation.mutate(version.version)}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {compareVersion !== null && diff && (
+          <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+            <p className="text-sm text-gray-600">Changes from v{diff.from} to v{diff.to} (current)</p>
+            {diff.changes.length > 0 ? (
+              diff.changes.map((change) => <FieldChange key={change.field} change={change} />)
+            ) : (
+              <p className="text-sm text-gray-500">No differences.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
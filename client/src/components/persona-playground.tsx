@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { api, type Persona, type PersonaPreviewResult, type PersonaSnapshot } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FlaskConical, RotateCcw, Send } from "lucide-react";
+
+type Turn =
+  | { sender: "fan"; content: string }
+  | { sender: "ai"; content: string | null; result: PersonaPreviewResult };
+
+const OUTCOME_LABELS: Record<PersonaPreviewResult["outcome"], string> = {
+  blocked: "Fan message blocked",
+  escalated: "Fan message escalated",
+  stop_processed: "Treated as opt-out",
+  consent_required: "Consent prompt sent",
+  reply: "Replied",
+};
+
+function Verdicts({ result }: { result: PersonaPreviewResult }) {
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      <Badge variant="outline">{OUTCOME_LABELS[result.outcome]}</Badge>
+      <Badge variant="outline">Inbound: {result.inboundModeration.action}</Badge>
+      {result.outboundModeration && (
+        <Badge variant="outline" title={result.outboundModeration.violations.map(v => v.detail).join("\n")}>
+          Outbound: {result.outboundModeration.action}
+        </Badge>
+      )}
+      {result.deliveryStatus && result.deliveryStatus !== "sent" && (
+        <Badge className="bg-yellow-100 text-yellow-800">Would be {result.deliveryStatus}</Badge>
+      )}
+      {result.regenerations > 0 && <Badge variant="outline">Regenerated {result.regenerations}×</Badge>}
+      {result.toolExecutions.map((execution) => (
+        <Badge
+          key={execution.id}
+          variant="secondary"
+          title={execution.error || JSON.stringify(execution.result)}
+        >
+          {execution.name}: {execution.status}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+// Chat against the unsaved form values; nothing reaches real fans, the database or Stripe
+export function PersonaPlayground({ persona, draft }: { persona: Persona; draft: Partial<PersonaSnapshot> }) {
+  const { toast } = useToast();
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [message, setMessage] = useState("");
+  const [spendTier, setSpendTier] = useState("free");
+  const [consented, setConsented] = useState(true);
+
+  const previewMutation = useMutation({
+    mutationFn: (content: string) => api.previewPersona(persona.id, {
+      draft,
+      fan: { spendTier, consented },
+      // Only what the fan actually saw goes into the scripted history
+      history: turns.flatMap((turn) => turn.content ? [{ sender: turn.sender, content: turn.content }] : []),
+      message: content,
+    }),
+    onSuccess: (result, content) => {
+      setTurns((current) => [
+        ...current,
+        { sender: "fan", content },
+        { sender: "ai", content: result.deliveryStatus === "sent" || result.outcome !== "reply" ? result.reply : null, result },
+      ]);
+      setMessage("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Preview failed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FlaskConical className="w-5 h-5 mr-2" />
+          Playground
+        </CardTitle>
+        <CardDescription>
+          Try unsaved changes against a test fan. Moderation, consent and tools run as they would live, without sending anything.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4 text-sm">
+          <Select value={spendTier} onValueChange={setSpendTier}>
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {["free", "regular", "premium", "vip"].map((tier) => (
+                <SelectItem key={tier} value={tier} className="capitalize">{tier}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-gray-600">
+            <Switch checked={consented} onCheckedChange={setConsented} />
+            Fan has consented
+          </label>
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setTurns([])} disabled={turns.length === 0}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="border rounded-lg p-3 space-y-3 max-h-96 overflow-y-auto bg-gray-50">
+          {turns.length === 0 && <p className="text-sm text-gray-500">Send a message as the fan to see how the persona replies.</p>}
+          {turns.map((turn, index) => (
+            <div key={index} className={turn.sender === "fan" ? "text-right" : ""}>
+              {turn.sender === "fan" ? (
+                <p className="inline-block bg-primary text-primary-foreground rounded-lg px-3 py-2 text-sm">{turn.content}</p>
+              ) : (
+                <div>
+                  {turn.result.reply && (
+                    <p className={`inline-block rounded-lg px-3 py-2 text-sm bg-white border ${turn.content ? "" : "opacity-60 line-through"}`}>
+                      {turn.result.reply}
+                    </p>
+                  )}
+                  <Verdicts result={turn.result} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Message as the fan..."
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && message.trim() && !previewMutation.isPending) {
+                e.preventDefault();
+                previewMutation.mutate(message.trim());
+              }
+            }}
+          />
+          <Button
+            type="button"
+            disabled={!message.trim() || previewMutation.isPending}
+            onClick={() => previewMutation.mutate(message.trim())}
+          >
+            <Send className="w-4 h-4 mr-1" />
+            {previewMutation.isPending ? "Thinking..." : "Send"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { api, type Persona, type PersonaRoutingConditions, type PersonaRoutingRule } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitBranch, Plus, Trash2 } from "lucide-react";
+
+const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+
+function describeConditions(conditions: PersonaRoutingConditions): string[] {
+  const parts: string[] = [];
+  if (conditions.channels?.length) parts.push(`Channel: ${conditions.channels.join(", ")}`);
+  if (conditions.languages?.length) parts.push(`Language: ${conditions.languages.join(", ")}`);
+  if (conditions.spendTiers?.length) parts.push(`Tier: ${conditions.spendTiers.join(", ")}`);
+  if (conditions.hours) {
+    const zone = conditions.hours.timezone || "fan's timezone";
+    parts.push(`${conditions.hours.start}–${conditions.hours.end} (${zone})`);
+  }
+  return parts.length > 0 ? parts : ["Always"];
+}
+
+const emptyDraft = {
+  name: "",
+  personaId: "",
+  priority: "100",
+  channels: "",
+  languages: "",
+  spendTiers: "",
+  start: "",
+  end: "",
+  timezone: "",
+};
+
+// Rules deciding which persona picks up a new fan conversation
+export function PersonaRoutingRules({ creatorId, personas }: { creatorId: string; personas: Persona[] }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const queryKey = ["/api/personas/creator", creatorId, "routing-rules"];
+  const { data: rules } = useQuery({
+    queryKey,
+    queryFn: () => api.getPersonaRoutingRules(creatorId),
+  });
+  const personaNames = new Map(personas.map(p => [p.id, p.name]));
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update routing rules",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const conditions: PersonaRoutingConditions = {};
+      if (draft.channels) conditions.channels = splitList(draft.channels);
+      if (draft.languages) conditions.languages = splitList(draft.languages);
+      if (draft.spendTiers) conditions.spendTiers = splitList(draft.spendTiers);
+      if (draft.start && draft.end) {
+        conditions.hours = { start: draft.start, end: draft.end, ...(draft.timezone ? { timezone: draft.timezone } : {}) };
+      }
+      return api.createPersonaRoutingRule({
+        creatorId,
+        personaId: draft.personaId,
+        name: draft.name,
+        priority: parseInt(draft.priority, 10) || 0,
+        conditions,
+        isActive: true,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setDraft(emptyDraft);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: PersonaRoutingRule) => api.updatePersonaRoutingRule(rule.id, { isActive: !rule.isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deletePersonaRoutingRule(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <GitBranch className="w-5 h-5 mr-2" />
+          Routing Rules
+        </CardTitle>
+        <CardDescription>
+          New conversations go to the first matching rule by priority, otherwise to the default persona.
+          Fans keep the persona they are already talking to.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules && rules.length > 0 ? (
+          <ul className="space-y-2">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-center gap-3 p-3 border rounded-lg text-sm">
+                <Badge variant="outline">{rule.priority}</Badge>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">
+                    {rule.name} → {personaNames.get(rule.personaId) || "Unknown persona"}
+                  </p>
+                  <p className="text-gray-500">{describeConditions(rule.conditions).join(" · ")}</p>
+                </div>
+                <Switch
+                  checked={rule.isActive}
+                  disabled={toggleMutation.isPending}
+                  onCheckedChange={() => toggleMutation.mutate(rule)}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(rule.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No routing rules; every new conversation goes to the default persona.</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input
+            placeholder="Rule name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <Select value={draft.personaId} onValueChange={(personaId) => setDraft({ ...draft, personaId })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Persona" />
+            </SelectTrigger>
+            <SelectContent>
+              {personas.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="Priority"
+            value={draft.priority}
+            onChange={(e) => setDraft({ ...draft, priority: e.target.value })}
+          />
+          <Input
+            placeholder="Channels (comma separated)"
+            value={draft.channels}
+            onChange={(e) => setDraft({ ...draft, channels: e.target.value })}
+          />
+          <Input
+            placeholder="Languages, e.g. en, es"
+            value={draft.languages}
+            onChange={(e) => setDraft({ ...draft, languages: e.target.value })}
+          />
+          <Input
+            placeholder="Spend tiers, e.g. vip"
+            value={draft.spendTiers}
+            onChange={(e) => setDraft({ ...draft, spendTiers: e.target.value })}
+          />
+          <Input
+            type="time"
+            value={draft.start}
+            onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+          />
+          <Input
+            type="time"
+            value={draft.end}
+            onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+          />
+          <Input
+            placeholder="Timezone, e.g. Europe/London"
+            value={draft.timezone}
+            onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            size="sm"
+            disabled={!draft.name.trim() || !draft.personaId || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@ import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { useAuth } from "@/hooks/use-auth";
 import {
   LayoutDashboard,
   User,
@@ -14,7 +15,8 @@ import {
   BarChart3,
   Settings,
   Menu,
-  X
+  X,
+  LogOut
 } from "lucide-react";
 
 const navigation = [
@@ -31,6 +33,7 @@ const navigation = [
 
 function SidebarContent({ onClose }: { onClose?: () => void }) {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <div className="flex h-full flex-col bg-white border-r border-gray-200">
@@ -74,12 +77,24 @@ function SidebarContent({ onClose }: { onClose?: () => void }) {
       <div className="border-t border-gray-200 p-4">
         <div className="flex items-center space-x-3">
           <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center">
-            <span className="text-gray-600 text-sm font-medium">U</span>
+            <span className="text-gray-600 text-sm font-medium">
+              {user?.username.charAt(0).toUpperCase() || "U"}
+            </span>
           </div>
           <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium text-gray-900 truncate">Creator</p>
-            <p className="text-xs text-gray-500 truncate">@creator_123</p>
+            <p className="text-sm font-medium text-gray-900 truncate capitalize">{user?.role || "Creator"}</p>
+            <p className="text-xs text-gray-500 truncate">@{user?.username}</p>
           </div>
+          {user && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
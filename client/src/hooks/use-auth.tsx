@@ -0,0 +1,90 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { api, User } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type Credentials = { username: string; password: string };
+
+type AuthContextType = {
+  user: User | null;
+  isLoading: boolean;
+  // Creator whose data the signed-in user works on (operators act for their creator)
+  creatorId: string | null;
+  loginMutation: UseMutationResult<User, Error, Credentials>;
+  registerMutation: UseMutationResult<User, Error, Credentials & { email?: string }>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery({
+    queryKey: ["/api/user"],
+    queryFn: () => api.getCurrentUser(),
+  });
+
+  const onAuthError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) => api.login(credentials),
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: onAuthError("Login failed"),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (data: Credentials & { email?: string }) => api.register(data),
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: onAuthError("Registration failed"),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => api.logout(),
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: onAuthError("Logout failed"),
+  });
+
+  const creatorId = user
+    ? user.role === "creator" ? user.id : user.creatorId ?? null
+    : null;
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        creatorId,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
+
+// Pages render behind ProtectedRoute, so a signed-in user is always present there
+export function useCreatorId(): string {
+  const { user, creatorId } = useAuth();
+  return creatorId ?? user!.id;
+}
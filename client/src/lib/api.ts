@@ -10,6 +10,15 @@ export interface DashboardMetrics {
   blockedToday: number;
 }
 
+export interface User {
+  id: string;
+  username: string;
+  email?: string;
+  role: 'creator' | 'operator' | 'admin';
+  creatorId?: string;
+  createdAt: string;
+}
+
 export interface Persona {
   id: string;
   creatorId: string;
@@ -20,6 +29,101 @@ export interface Persona {
   dontSay?: string[];
   offerMenu?: Array<{sku: string, label: string, priceCents: number}>;
   disclosure?: string;
+  copilotConfig?: CopilotConfig | null;
+  isActive: boolean;
+  isDefault: boolean;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// With no spendTiers, every fan of the persona gets drafted replies
+export interface CopilotConfig {
+  enabled: boolean;
+  spendTiers?: string[];
+  candidates?: number;
+}
+
+export type PersonaSnapshot = Pick<Persona, 'name' | 'bio' | 'voiceKeywords' | 'doSay' | 'dontSay' | 'offerMenu' | 'disclosure'>;
+
+export interface PersonaVersion {
+  id: string;
+  personaId: string;
+  version: number;
+  snapshot: PersonaSnapshot;
+  createdBy?: string;
+  createdByUsername?: string | null;
+  rolledBackFrom?: number | null;
+  createdAt: string;
+}
+
+export interface PersonaFieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+  added?: unknown[];
+  removed?: unknown[];
+  changed?: Array<{ sku: string; before: unknown; after: unknown }>;
+}
+
+export interface PersonaPreviewRequest {
+  draft?: Partial<PersonaSnapshot>;
+  fan?: {
+    handle?: string;
+    displayName?: string | null;
+    spendTier?: string;
+    boundaries?: string[];
+    consented?: boolean;
+  };
+  history?: Array<{ sender: 'fan' | 'ai'; content: string }>;
+  threadSummary?: string;
+  message: string;
+}
+
+export interface PersonaPreviewResult {
+  outcome: 'blocked' | 'escalated' | 'stop_processed' | 'consent_required' | 'reply';
+  reply: string | null;
+  deliveryStatus?: 'sent' | 'held' | 'blocked';
+  inboundModeration: ModerationResult;
+  outboundModeration?: {
+    action: string;
+    reason?: string;
+    severity: string;
+    violations: Array<{ type: string; detail: string }>;
+  };
+  regenerations: number;
+  toolCalls: Array<{ id: string; name: string; arguments: string }>;
+  toolExecutions: Array<{ id: string; name: string; status: 'executed' | 'rejected' | 'failed'; result?: Record<string, any> | null; error?: string }>;
+}
+
+export interface PersonaVersionDiff {
+  from: number;
+  to: number;
+  changes: PersonaFieldDiff[];
+}
+
+export interface PersonaMetrics {
+  conversations: number;
+  activeConversations: number;
+  messagesSentToday: number;
+  totalRevenue: number;
+  paymentCount: number;
+}
+
+export interface PersonaRoutingConditions {
+  channels?: string[];
+  languages?: string[];
+  spendTiers?: string[];
+  hours?: { start: string; end: string; timezone?: string };
+}
+
+export interface PersonaRoutingRule {
+  id: string;
+  creatorId: string;
+  personaId: string;
+  name: string;
+  priority: number;
+  conditions: PersonaRoutingConditions;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -38,10 +142,82 @@ export interface Fan {
     romanticContent: boolean;
     timestamp: string;
   };
+  // Set while the fan is opted out of all messages
+  optedOutAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface OptOutEvent {
+  id: string;
+  fanId: string;
+  action: 'opt_out' | 'opt_in';
+  channel: string;
+  keyword?: string;
+  creatorId?: string;
+  sourceMessageId?: string;
+  reason?: string;
+  recordedBy?: string;
+  createdAt: string;
+}
+
+export interface FanOptOutStatus {
+  optedOut: boolean;
+  optedOutAt?: string;
+  events: OptOutEvent[];
+}
+
+export type FanMemoryCategory = 'name' | 'interest' | 'purchase' | 'boundary' | 'other';
+
+export interface FanMemory {
+  id: string;
+  fanId: string;
+  creatorId: string;
+  category: FanMemoryCategory;
+  fact: string;
+  source: 'conversation' | 'purchase' | 'operator';
+  conversationId?: string;
+  messageId?: string;
+  paymentId?: string;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConsentText {
+  // 0 is the built-in default wording
+  version: number;
+  prompt: string;
+  ageStatement: string;
+  romanticStatement: string;
+}
+
+export type ConsentState = 'valid' | 'missing' | 'incomplete' | 'revoked' | 'wording_changed' | 'disclosure_changed';
+
+export interface ConsentRecord {
+  id: string;
+  fanId: string;
+  creatorId: string;
+  personaId?: string;
+  action: 'affirm' | 'revoke';
+  ageAffirmed: boolean;
+  romanticContent: boolean;
+  consentTextVersion: number;
+  disclosure?: string;
+  channel: string;
+  sourceMessageId?: string;
+  reason?: string;
+  recordedBy?: string;
+  createdAt: string;
+}
+
+export interface FanConsent {
+  records: ConsentRecord[];
+  // Against the creator's default persona; null when the creator has none
+  state: ConsentState | null;
+  consentText: ConsentText;
+}
+
 export interface Conversation {
   id: string;
   fanId: string;
@@ -49,12 +225,92 @@ export interface Conversation {
   threadSummary?: string;
   sentiment?: string;
   lastMessageAt?: string;
+  summaryUpdatedAt?: string;
   isActive: boolean;
+  // 'human' while an operator has taken over; 'paused' until an operator resumes AI replies
+  mode: ConversationMode;
+  pausedAt?: string;
+  pausedReason?: string;
+  heldBy?: string;
+  heldAt?: string;
+  humanActivityAt?: string;
+  // External channel the fan writes in on, e.g. 'x_dm'; replies are sent there too
+  channel?: string;
   fan?: Fan;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ConversationMode = 'ai' | 'human' | 'paused';
+
+export interface ConversationMessage {
+  id: string;
+  conversationId: string;
+  type: string;
+  content: string;
+  sender: 'ai' | 'fan' | 'operator';
+  moderationStatus: 'approved' | 'pending' | 'blocked';
+  sentAt?: string;
+  deliveredAt?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface TakeoverState {
+  mode: ConversationMode;
+  heldBy?: string;
+  heldAt?: string;
+  humanActivityAt?: string;
+  // When the conversation goes back to the AI if the operator stays idle
+  releaseAt?: string;
+  queuedMessages: ConversationMessage[];
+}
+
+export interface ReplyDraft {
+  id: string;
+  conversationId: string;
+  fanId: string;
+  personaId: string;
+  personaVersion: number;
+  inboundMessageId: string;
+  candidateIndex: number;
+  content: string;
+  toolCalls?: Array<{ id: string; name: string; arguments: string }>;
+  moderation?: { action: string; reason?: string; violations: string[] };
+  status: 'pending' | 'approved' | 'rejected' | 'superseded';
+  sentText?: string;
+  editDistance?: number;
+  messageId?: string;
+  createdAt: string;
+}
+
+export interface PendingReplyDraft extends ReplyDraft {
+  fanHandle: string | null;
+  fanSpendTier: string | null;
+  personaName: string | null;
+  fanMessage: string | null;
+}
+
+export interface OperatorMessageResult {
+  message: ConversationMessage;
+  delivered: boolean;
+  moderation?: { reason?: string };
+}
+
+export interface ScheduledMessage {
+  id: string;
+  conversationId: string;
+  content: string;
+  moderationStatus: 'approved' | 'pending' | 'blocked';
+  scheduledAt: string;
+  dispatchStatus: 'scheduled' | 'sent' | 'failed' | 'cancelled' | 'skipped';
+  dispatchAttempts: number;
+  dispatchError?: string;
+  nextAttemptAt?: string;
+  sentAt?: string;
+  createdAt: string;
+}
+
 export interface ContentItem {
   id: string;
   creatorId: string;
@@ -62,6 +318,11 @@ export interface ContentItem {
   title: string;
   url: string;
   thumbnailUrl?: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  sizeBytes?: number;
   priceCents: number;
   purchaseCount: number;
   revenue: string;
@@ -70,19 +331,94 @@ export interface ContentItem {
   updatedAt: string;
 }
 
+export interface LeakTrace {
+  code: string;
+  delivery: {
+    id: string;
+    contentId: string;
+    fanId: string;
+    paymentId?: string;
+    expiresAt: string;
+    revokedAt?: string;
+    accessCount: number;
+    createdAt: string;
+  };
+  content: { id: string; title: string; type: string };
+  fan: { id: string; handle: string; displayName?: string } | null;
+}
+
+export type ModerationDecision = 'approve' | 'block' | 'escalate';
+
 export interface ModerationQueueItem {
   id: string;
+  messageId?: string;
+  fanId?: string;
+  conversationId?: string;
+  creatorId?: string;
   content: string;
   flagReason: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'pending' | 'approved' | 'blocked';
+  status: 'pending' | 'approved' | 'blocked' | 'escalated';
+  decision?: ModerationDecision;
+  decisionReason?: string;
   reviewedBy?: string;
   reviewedAt?: string;
   createdAt: string;
 }
 
+export interface ModerationRule {
+  id: string;
+  creatorId?: string | null;
+  name: string;
+  ruleType: 'banned' | 'suspicious' | 'escalation';
+  matchType: 'keywords' | 'regex';
+  pattern?: string | null;
+  keywords?: string[] | null;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  action: 'block' | 'escalate' | 'review';
+  version: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ModerationResult {
+  action: 'allow' | 'block' | 'escalate' | 'review';
+  reason?: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  confidence: number;
+  matchedRules: Array<{ id: string; version: number; name: string; ruleType: string; action: string }>;
+}
+
 // API Functions
 export const api = {
+  // Auth
+  async getCurrentUser(): Promise<User | null> {
+    try {
+      const res = await apiRequest("GET", "/api/user");
+      return res.json();
+    } catch (error: any) {
+      if (error.message.includes('401')) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async login(credentials: { username: string; password: string }): Promise<User> {
+    const res = await apiRequest("POST", "/api/login", credentials);
+    return res.json();
+  },
+
+  async register(data: { username: string; password: string; email?: string }): Promise<User> {
+    const res = await apiRequest("POST", "/api/register", data);
+    return res.json();
+  },
+
+  async logout(): Promise<void> {
+    await apiRequest("POST", "/api/logout");
+  },
+
   // Dashboard
   async getDashboardMetrics(creatorId: string): Promise<DashboardMetrics> {
     const res = await apiRequest("GET", `/api/dashboard/metrics/${creatorId}`);
@@ -102,7 +438,17 @@ export const api = {
     }
   },
 
-  async createPersona(persona: Omit<Persona, 'id' | 'createdAt' | 'updatedAt'>): Promise<Persona> {
+  async getPersonas(creatorId: string): Promise<Persona[]> {
+    const res = await apiRequest("GET", `/api/personas/creator/${creatorId}/all`);
+    return res.json();
+  },
+
+  async getPersonaAnalytics(id: string): Promise<PersonaMetrics> {
+    const res = await apiRequest("GET", `/api/personas/${id}/analytics`);
+    return res.json();
+  },
+
+  async createPersona(persona: Omit<Persona, 'id' | 'createdAt' | 'updatedAt' | 'isDefault' | 'version'> & { isDefault?: boolean }): Promise<Persona> {
     const res = await apiRequest("POST", "/api/personas", persona);
     return res.json();
   },
@@ -112,18 +458,214 @@ export const api = {
     return res.json();
   },
 
+  async getPersonaVersions(id: string): Promise<PersonaVersion[]> {
+    const res = await apiRequest("GET", `/api/personas/${id}/versions`);
+    return res.json();
+  },
+
+  async diffPersonaVersions(id: string, from: number, to?: number): Promise<PersonaVersionDiff> {
+    const params = new URLSearchParams({ from: String(from) });
+    if (to) params.set("to", String(to));
+    const res = await apiRequest("GET", `/api/personas/${id}/versions/diff?${params}`);
+    return res.json();
+  },
+
+  async previewPersona(id: string, request: PersonaPreviewRequest): Promise<PersonaPreviewResult> {
+    const res = await apiRequest("POST", `/api/personas/${id}/preview`, request);
+    return res.json();
+  },
+
+  async rollbackPersona(id: string, version: number): Promise<Persona> {
+    const res = await apiRequest("POST", `/api/personas/${id}/rollback`, { version });
+    return res.json();
+  },
+
+  // Persona routing
+  async getPersonaRoutingRules(creatorId: string): Promise<PersonaRoutingRule[]> {
+    const res = await apiRequest("GET", `/api/personas/creator/${creatorId}/routing-rules`);
+    return res.json();
+  },
+
+  async createPersonaRoutingRule(rule: Omit<PersonaRoutingRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<PersonaRoutingRule> {
+    const res = await apiRequest("POST", "/api/personas/routing-rules", rule);
+    return res.json();
+  },
+
+  async updatePersonaRoutingRule(id: string, updates: Partial<PersonaRoutingRule>): Promise<PersonaRoutingRule> {
+    const res = await apiRequest("PUT", `/api/personas/routing-rules/${id}`, updates);
+    return res.json();
+  },
+
+  async deletePersonaRoutingRule(id: string): Promise<void> {
+    await apiRequest("DELETE", `/api/personas/routing-rules/${id}`);
+  },
+
+  // Fan memories
+  async getFanMemories(fanId: string): Promise<FanMemory[]> {
+    const res = await apiRequest("GET", `/api/fans/${fanId}/memories`);
+    return res.json();
+  },
+
+  async createFanMemory(fanId: string, memory: { category: FanMemoryCategory; fact: string }): Promise<FanMemory> {
+    const res = await apiRequest("POST", `/api/fans/${fanId}/memories`, memory);
+    return res.json();
+  },
+
+  async updateFanMemory(fanId: string, memoryId: string, updates: { category?: FanMemoryCategory; fact?: string }): Promise<FanMemory> {
+    const res = await apiRequest("PATCH", `/api/fans/${fanId}/memories/${memoryId}`, updates);
+    return res.json();
+  },
+
+  async deleteFanMemory(fanId: string, memoryId: string): Promise<void> {
+    await apiRequest("DELETE", `/api/fans/${fanId}/memories/${memoryId}`);
+  },
+
+  // Opt-out
+  async getFanOptOut(fanId: string): Promise<FanOptOutStatus> {
+    const res = await apiRequest("GET", `/api/fans/${fanId}/opt-out`);
+    return res.json();
+  },
+
+  async recordOptOut(fanId: string, reason: string): Promise<Fan> {
+    const res = await apiRequest("POST", `/api/fans/${fanId}/opt-out`, { reason });
+    return res.json();
+  },
+
+  // Consent
+  async getConsentText(creatorId: string): Promise<ConsentText> {
+    const res = await apiRequest("GET", `/api/consent/text/${creatorId}`);
+    return res.json();
+  },
+
+  async updateConsentText(creatorId: string, wording: Omit<ConsentText, 'version'>): Promise<ConsentText & { reaffirmationsQueued: number }> {
+    const res = await apiRequest("PUT", `/api/consent/text/${creatorId}`, wording);
+    return res.json();
+  },
+
+  async getFanConsent(fanId: string): Promise<FanConsent> {
+    const res = await apiRequest("GET", `/api/fans/${fanId}/consent`);
+    return res.json();
+  },
+
+  async revokeConsent(fanId: string, reason?: string): Promise<{ success: boolean; record: ConsentRecord }> {
+    const res = await apiRequest("POST", "/api/consent/revoke", { fanId, channel: 'operator', reason });
+    return res.json();
+  },
+
   // Conversations
   async getActiveConversations(personaId: string): Promise<Conversation[]> {
     const res = await apiRequest("GET", `/api/conversations/active/${personaId}`);
     return res.json();
   },
 
+  async getCreatorConversations(creatorId: string): Promise<Conversation[]> {
+    const res = await apiRequest("GET", `/api/conversations/active/creator/${creatorId}`);
+    return res.json();
+  },
+
+  async getTakeover(conversationId: string): Promise<TakeoverState> {
+    const res = await apiRequest("GET", `/api/conversations/${conversationId}/takeover`);
+    return res.json();
+  },
+
+  async takeOverConversation(conversationId: string, force = false): Promise<TakeoverState> {
+    const res = await apiRequest("POST", `/api/conversations/${conversationId}/takeover`, { force });
+    return res.json();
+  },
+
+  async releaseConversation(conversationId: string): Promise<TakeoverState> {
+    const res = await apiRequest("POST", `/api/conversations/${conversationId}/release`);
+    return res.json();
+  },
+
+  async pauseConversation(conversationId: string, reason: string): Promise<Conversation> {
+    const res = await apiRequest("POST", `/api/conversations/${conversationId}/pause`, { reason });
+    return res.json();
+  },
+
+  async resumeConversation(conversationId: string): Promise<Conversation> {
+    const res = await apiRequest("POST", `/api/conversations/${conversationId}/resume`);
+    return res.json();
+  },
+
+  async sendOperatorMessage(conversationId: string, content: string): Promise<OperatorMessageResult> {
+    const res = await apiRequest("POST", `/api/conversations/${conversationId}/operator-messages`, { content });
+    return res.json();
+  },
+
+  // Co-pilot drafts
+  async getPendingDrafts(): Promise<PendingReplyDraft[]> {
+    const res = await apiRequest("GET", "/api/drafts");
+    return res.json();
+  },
+
+  async approveDraft(draftId: string, content?: string): Promise<{ draft: ReplyDraft; deliveryStatus: 'sent' | 'held' }> {
+    const res = await apiRequest("POST", `/api/drafts/${draftId}/approve`, { content });
+    return res.json();
+  },
+
+  async rejectDraft(draftId: string, reason?: string): Promise<ReplyDraft> {
+    const res = await apiRequest("POST", `/api/drafts/${draftId}/reject`, { reason });
+    return res.json();
+  },
+
+  async getScheduledMessages(conversationId: string): Promise<ScheduledMessage[]> {
+    const res = await apiRequest("GET", `/api/conversations/${conversationId}/scheduled`);
+    return res.json();
+  },
+
+  async scheduleMessage(conversationId: string, message: { content: string; scheduledAt: string }): Promise<ScheduledMessage> {
+    const res = await apiRequest("POST", `/api/conversations/${conversationId}/scheduled`, message);
+    return res.json();
+  },
+
+  async rescheduleMessage(conversationId: string, messageId: string, updates: { content?: string; scheduledAt?: string }): Promise<ScheduledMessage> {
+    const res = await apiRequest("PATCH", `/api/conversations/${conversationId}/scheduled/${messageId}`, updates);
+    return res.json();
+  },
+
+  async cancelScheduledMessage(conversationId: string, messageId: string): Promise<ScheduledMessage> {
+    const res = await apiRequest("DELETE", `/api/conversations/${conversationId}/scheduled/${messageId}`);
+    return res.json();
+  },
+
   // Content
   async getContentItems(creatorId: string): Promise<ContentItem[]> {
     const res = await apiRequest("GET", `/api/content/creator/${creatorId}`);
     return res.json();
   },
 
+  // Multipart, so it bypasses apiRequest; fields go before the file as the server expects
+  async uploadContent(file: File, fields: { title: string; priceCents: number }): Promise<ContentItem> {
+    const body = new FormData();
+    body.append("title", fields.title);
+    body.append("priceCents", String(fields.priceCents));
+    body.append("file", file);
+
+    const res = await fetch("/api/content/upload", { method: "POST", body, credentials: "include" });
+    if (!res.ok) {
+      throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+    }
+    return res.json();
+  },
+
+  // Traces a leaked image (or a code read off a leaked video) to the fan delivery it came from
+  async traceLeak(source: { file?: File; code?: string }): Promise<LeakTrace> {
+    if (!source.file) {
+      const res = await apiRequest("POST", "/api/media/leak-lookup", { code: source.code });
+      return res.json();
+    }
+
+    const body = new FormData();
+    body.append("file", source.file);
+
+    const res = await fetch("/api/media/leak-lookup", { method: "POST", body, credentials: "include" });
+    if (!res.ok) {
+      throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+    }
+    return res.json();
+  },
+
   async getTopPerformingContent(creatorId: string, limit = 10): Promise<ContentItem[]> {
     const res = await apiRequest("GET", `/api/content/top/${creatorId}?limit=${limit}`);
     return res.json();
@@ -141,8 +683,34 @@ export const api = {
     return res.json();
   },
 
-  async updateModerationItem(id: string, updates: { status: string; reviewedBy?: string }): Promise<ModerationQueueItem> {
-    const res = await apiRequest("PUT", `/api/moderation/queue/${id}`, updates);
+  async reviewModerationItem(id: string, review: { decision: ModerationDecision; reason: string; pauseConversation?: boolean }): Promise<ModerationQueueItem> {
+    const res = await apiRequest("POST", `/api/moderation/queue/${id}/review`, review);
+    return res.json();
+  },
+
+  async getModerationRules(creatorId?: string): Promise<ModerationRule[]> {
+    const url = creatorId ? `/api/moderation/rules?creatorId=${creatorId}` : "/api/moderation/rules";
+    const res = await apiRequest("GET", url);
+    return res.json();
+  },
+
+  async createModerationRule(rule: Partial<ModerationRule>): Promise<ModerationRule> {
+    const res = await apiRequest("POST", "/api/moderation/rules", rule);
+    return res.json();
+  },
+
+  async updateModerationRule(id: string, updates: Partial<ModerationRule>): Promise<ModerationRule> {
+    const res = await apiRequest("PUT", `/api/moderation/rules/${id}`, updates);
+    return res.json();
+  },
+
+  async deleteModerationRule(id: string): Promise<ModerationRule> {
+    const res = await apiRequest("DELETE", `/api/moderation/rules/${id}`);
+    return res.json();
+  },
+
+  async dryRunModeration(content: string, creatorId?: string): Promise<ModerationResult> {
+    const res = await apiRequest("POST", "/api/moderation/rules/dry-run", { content, creatorId });
     return res.json();
   },
 
@@ -166,11 +734,12 @@ export const api = {
 
   // Payment
   async createPaymentIntent(data: {
-    amountCents: number;
     fanId: string;
     creatorId: string;
+    contentId?: string;
+    amountCents?: number;
     productType: string;
-    metadata?: Record<string, any>;
+    description?: string;
   }): Promise<{ clientSecret: string }> {
     const res = await apiRequest("POST", "/api/create-payment-intent", data);
     return res.json();
@@ -0,0 +1,106 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import type { DashboardMetrics } from "@/lib/api";
+
+export type MetricKey = "totalRevenue" | "messagesSentToday" | "moderatedToday" | "blockedToday";
+
+export type LiveEvent =
+  | {
+    type: "message.created";
+    conversationId: string;
+    messageId: string;
+    sender: string;
+    messageType: string;
+    preview: string;
+    moderationStatus: string | null;
+  }
+  | { type: "moderation.queued"; itemId: string; conversationId: string | null; severity: string; flagReason: string }
+  | { type: "moderation.escalated"; itemId: string | null; conversationId: string | null; reason: string; paused: boolean }
+  | { type: "payment.updated"; paymentId: string; fanId: string; status: string; amountCents: number }
+  | { type: "metrics.delta"; delta: Partial<Record<MetricKey, number>> };
+
+export interface LiveEnvelope {
+  creatorId: string | null;
+  event: LiveEvent;
+  at: string;
+}
+
+const EVENT_TYPES: LiveEvent["type"][] = [
+  "message.created",
+  "moderation.queued",
+  "moderation.escalated",
+  "payment.updated",
+  "metrics.delta",
+];
+
+function invalidateModeration() {
+  queryClient.invalidateQueries({ queryKey: ["/api/moderation/queue"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/analytics/safety"] });
+}
+
+function applyEvent({ creatorId, event }: LiveEnvelope) {
+  switch (event.type) {
+    case "message.created":
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/active/creator"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", event.conversationId] });
+      if (event.sender === "fan") {
+        queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
+      }
+      break;
+    case "moderation.queued":
+      invalidateModeration();
+      break;
+    case "moderation.escalated":
+      invalidateModeration();
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/active/creator"] });
+      toast({
+        title: "Conversation escalated",
+        description: event.paused ? `${event.reason} AI replies are paused.` : event.reason,
+        variant: "destructive",
+      });
+      break;
+    case "payment.updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/revenue"] });
+      break;
+    case "metrics.delta":
+      // Patch the cached totals in place; the next refetch corrects any drift
+      queryClient.setQueryData<DashboardMetrics>(["/api/dashboard/metrics", creatorId], (old) => {
+        if (!old) return old;
+        const next = { ...old };
+        for (const [key, amount] of Object.entries(event.delta) as [MetricKey, number][]) {
+          next[key] += amount;
+        }
+        return next;
+      });
+      break;
+  }
+}
+
+/**
+ * Keeps the signed-in user's query caches current from the server's event
+ * stream, so new messages, queue items and escalations show up without
+ * waiting for a refetch. EventSource reconnects on its own after a drop.
+ */
+export function useLiveEvents() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const source = new EventSource("/api/events");
+    const onEvent = (e: MessageEvent) => {
+      try {
+        applyEvent(JSON.parse(e.data));
+      } catch (error) {
+        console.error("Ignoring malformed live event:", error);
+      }
+    };
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, onEvent);
+    }
+
+    return () => source.close();
+  }, [user?.id]);
+}
@@ -1,6 +1,8 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { useCreatorId } from "@/hooks/use-auth";
+import { PersonaBreakdown } from "@/components/persona-breakdown";
 import {
   Card,
   CardContent,
@@ -31,31 +33,24 @@ import {
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-const CREATOR_ID = "creator_123";
-
 export default function Analytics() {
+  const creatorId = useCreatorId();
   const [timeRange, setTimeRange] = useState("30d");
   const [metricType, setMetricType] = useState("all");
 
   const { data: metrics, isLoading: metricsLoading } = useQuery({
-    queryKey: ["/api/dashboard/metrics", CREATOR_ID],
-    queryFn: () => api.getDashboardMetrics(CREATOR_ID),
+    queryKey: ["/api/dashboard/metrics", creatorId],
+    queryFn: () => api.getDashboardMetrics(creatorId),
   });
 
   const { data: revenue } = useQuery({
-    queryKey: ["/api/analytics/revenue", CREATOR_ID],
-    queryFn: () => api.getRevenue(CREATOR_ID),
-  });
-
-  const { data: persona } = useQuery({
-    queryKey: ["/api/personas/creator", CREATOR_ID],
-    queryFn: () => api.getPersona(CREATOR_ID),
+    queryKey: ["/api/analytics/revenue", creatorId],
+    queryFn: () => api.getRevenue(creatorId),
   });
 
   const { data: conversations } = useQuery({
-    queryKey: ["/api/conversations/active", persona?.id],
-    queryFn: () => persona ? api.getActiveConversations(persona.id) : Promise.resolve([]),
-    enabled: !!persona?.id,
+    queryKey: ["/api/conversations/active/creator", creatorId],
+    queryFn: () => api.getCreatorConversations(creatorId),
   });
 
   const { data: safetyData } = useQuery({
@@ -450,6 +445,8 @@ export default function Analytics() {
           </Card>
         </div>
 
+        <PersonaBreakdown creatorId={creatorId} />
+
         {/* Performance Summary */}
         <Card>
           <CardHeader>
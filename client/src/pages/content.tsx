@@ -3,7 +3,8 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { api } from "@/lib/api";
+import { api, type ContentItem } from "@/lib/api";
+import { useCreatorId } from "@/hooks/use-auth";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -51,55 +52,45 @@ import {
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-const CREATOR_ID = "creator_123";
-
 const contentSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  type: z.enum(["image", "video", "audio"]),
-  url: z.string().url("Valid URL is required"),
-  thumbnailUrl: z.string().url().optional().or(z.literal("")),
+  file: z.instanceof(File, { message: "Choose a file to upload" }),
   priceCents: z.number().min(0, "Price must be positive"),
 });
 
 type ContentFormData = z.infer<typeof contentSchema>;
 
 export default function Content() {
+  const creatorId = useCreatorId();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState("all");
 
   const { data: contentItems, isLoading } = useQuery({
-    queryKey: ["/api/content/creator", CREATOR_ID],
-    queryFn: () => api.getContentItems(CREATOR_ID),
+    queryKey: ["/api/content/creator", creatorId],
+    queryFn: () => api.getContentItems(creatorId),
   });
 
   const { data: topContent } = useQuery({
-    queryKey: ["/api/content/top", CREATOR_ID],
-    queryFn: () => api.getTopPerformingContent(CREATOR_ID, 5),
+    queryKey: ["/api/content/top", creatorId],
+    queryFn: () => api.getTopPerformingContent(creatorId, 5),
   });
 
   const form = useForm<ContentFormData>({
     resolver: zodResolver(contentSchema),
     defaultValues: {
       title: "",
-      type: "image",
-      url: "",
-      thumbnailUrl: "",
       priceCents: 0,
     },
   });
 
   const createMutation = useMutation({
-    mutationFn: (data: ContentFormData) => api.createContent({
-      ...data,
-      creatorId: CREATOR_ID,
-      isActive: true,
-    }),
+    mutationFn: ({ file, ...fields }: ContentFormData) => api.uploadContent(file, fields),
     onSuccess: () => {
-      toast({ title: "Success", description: "Content item created successfully" });
-      queryClient.invalidateQueries({ queryKey: ["/api/content/creator", CREATOR_ID] });
-      queryClient.invalidateQueries({ queryKey: ["/api/content/top", CREATOR_ID] });
+      toast({ title: "Success", description: "Content uploaded successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/content/creator", creatorId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/content/top", creatorId] });
       setIsDialogOpen(false);
       form.reset();
     },
@@ -144,6 +135,18 @@ export default function Content() {
     return priceCents === 0 ? "Free" : `$${(priceCents / 100).toFixed(2)}`;
   };
 
+  // e.g. "1920×1080 · 0:42 · 12.3 MB"; empty until the item has been processed
+  const formatMediaDetails = (item: ContentItem) => {
+    const details: string[] = [];
+    if (item.width && item.height) details.push(`${item.width}×${item.height}`);
+    if (item.durationSeconds) {
+      const seconds = Math.round(item.durationSeconds);
+      details.push(`${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`);
+    }
+    if (item.sizeBytes) details.push(`${(item.sizeBytes / (1024 * 1024)).toFixed(1)} MB`);
+    return details.join(" · ");
+  };
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -203,58 +206,25 @@ export default function Content() {
 
                   <FormField
                     control={form.control}
-                    name="type"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Content Type</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select content type" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="image">Image</SelectItem>
-                            <SelectItem value="video">Video</SelectItem>
-                            <SelectItem value="audio">Audio</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="url"
+                    name="file"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Content URL</FormLabel>
+                        <FormLabel>File</FormLabel>
                         <FormControl>
-                          <Input placeholder="https://cdn.example.com/content.jpg" {...field} />
+                          <Input
+                            type="file"
+                            accept="image/*,video/*,audio/*"
+                            onChange={(e) => field.onChange(e.target.files?.[0])}
+                          />
                         </FormControl>
                         <FormDescription>
-                          Direct URL to your hosted content
+                          Images up to 10MB, audio up to 25MB, video up to 200MB
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
 
-                  <FormField
-                    control={form.control}
-                    name="thumbnailUrl"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Thumbnail URL (Optional)</FormLabel>
-                        <FormControl>
-                          <Input placeholder="https://cdn.example.com/thumbnail.jpg" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
                   <FormField
                     control={form.control}
                     name="priceCents"
@@ -284,7 +254,7 @@ export default function Content() {
                       Cancel
                     </Button>
                     <Button type="submit" disabled={createMutation.isPending}>
-                      {createMutation.isPending ? "Creating..." : "Create Content"}
+                      {createMutation.isPending ? "Uploading..." : "Upload Content"}
                     </Button>
                   </div>
                 </form>
@@ -412,6 +382,10 @@ export default function Content() {
                         ${parseFloat(item.revenue).toFixed(2)}
                       </span>
                     </div>
+
+                    {formatMediaDetails(item) && (
+                      <p className="text-xs text-gray-500">{formatMediaDetails(item)}</p>
+                    )}
                   </div>
                   
                   <Separator className="my-3" />
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { useAuth, useCreatorId } from "@/hooks/use-auth";
 import {
   Card,
   CardContent,
@@ -23,25 +24,38 @@ import {
   AlertTriangle 
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConversationTakeover, MODE_LABELS } from "@/components/conversation-takeover";
+import { DraftReview } from "@/components/draft-review";
 
-const CREATOR_ID = "creator_123";
+const CHANNEL_LABELS: Record<string, string> = {
+  x_dm: "X DM",
+  mock: "Mock channel",
+};
 
 export default function Conversations() {
+  const creatorId = useCreatorId();
+  const { user } = useAuth();
+  // Taking over a conversation is an operator action
+  const canTakeOver = user?.role === "operator" || user?.role === "admin";
+  const [expandedConversationId, setExpandedConversationId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterBy, setFilterBy] = useState("all");
+  const [personaFilter, setPersonaFilter] = useState("all");
 
-  const { data: persona } = useQuery({
-    queryKey: ["/api/personas/creator", CREATOR_ID],
-    queryFn: () => api.getPersona(CREATOR_ID),
+  const { data: personas } = useQuery({
+    queryKey: ["/api/personas/creator", creatorId, "all"],
+    queryFn: () => api.getPersonas(creatorId),
   });
+  const personaNames = new Map(personas?.map(p => [p.id, p.name]));
 
   const { data: conversations, isLoading } = useQuery({
-    queryKey: ["/api/conversations/active", persona?.id],
-    queryFn: () => persona ? api.getActiveConversations(persona.id) : Promise.resolve([]),
-    enabled: !!persona?.id,
+    queryKey: ["/api/conversations/active/creator", creatorId],
+    queryFn: () => api.getCreatorConversations(creatorId),
   });
 
   const filteredConversations = conversations?.filter(conv => {
+    if (personaFilter !== "all" && conv.personaId !== personaFilter) return false;
+
     const matchesSearch = conv.fan?.handle?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          conv.fan?.displayName?.toLowerCase().includes(searchTerm.toLowerCase());
     
@@ -53,6 +67,7 @@ export default function Conversations() {
       return matchesSearch && lastMessage > dayAgo;
     }
     if (filterBy === "positive") return matchesSearch && conv.sentiment === "positive";
+    if (filterBy === "human") return matchesSearch && conv.mode !== "ai";
     
     return matchesSearch;
   }) || [];
@@ -102,7 +117,7 @@ export default function Conversations() {
     );
   }
 
-  if (!persona) {
+  if (personas && personas.length === 0) {
     return (
       <div className="p-6">
         <div className="max-w-6xl mx-auto">
@@ -194,6 +209,8 @@ export default function Conversations() {
           </Card>
         </div>
 
+        <DraftReview />
+
         {/* Filters and Search */}
         <Card>
           <CardContent className="p-4">
@@ -211,6 +228,19 @@ export default function Conversations() {
               </div>
               
               <div className="flex gap-2">
+                {personas && personas.length > 1 && (
+                  <Select value={personaFilter} onValueChange={setPersonaFilter}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Personas</SelectItem>
+                      {personas.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Select value={filterBy} onValueChange={setFilterBy}>
                   <SelectTrigger className="w-40">
                     <Filter className="w-4 h-4 mr-2" />
@@ -221,6 +251,7 @@ export default function Conversations() {
                     <SelectItem value="high-value">High Value Fans</SelectItem>
                     <SelectItem value="recent">Recent Activity</SelectItem>
                     <SelectItem value="positive">Positive Sentiment</SelectItem>
+                    <SelectItem value="human">Operator or Paused</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -240,58 +271,79 @@ export default function Conversations() {
             {filteredConversations.length > 0 ? (
               <div className="space-y-4">
                 {filteredConversations.map((conversation) => (
-                  <div
-                    key={conversation.id}
-                    className="flex items-center space-x-4 p-4 border rounded-lg hover:bg-gray-50 cursor-pointer transition-colors"
-                  >
-                    {/* Avatar */}
-                    <img
-                      src={`https://images.unsplash.com/photo-${Math.floor(Math.random() * 1000000000000)}?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100`}
-                      alt="Fan avatar"
-                      className="w-12 h-12 rounded-full object-cover"
-                      onError={(e) => {
-                        (e.target as HTMLImageElement).src = "https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=100&h=100";
-                      }}
-                    />
+                  <div key={conversation.id} className="border rounded-lg">
+                    <div
+                      className="flex items-center space-x-4 p-4 hover:bg-gray-50 cursor-pointer transition-colors"
+                      onClick={() => canTakeOver && setExpandedConversationId(expandedConversationId === conversation.id ? null : conversation.id)}
+                    >
+                      {/* Avatar */}
+                      <img
+                        src={`https://images.unsplash.com/photo-${Math.floor(Math.random() * 1000000000000)}?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100`}
+                        alt="Fan avatar"
+                        className="w-12 h-12 rounded-full object-cover"
+                        onError={(e) => {
+                          (e.target as HTMLImageElement).src = "https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=100&h=100";
+                        }}
+                      />
                     
-                    {/* Fan Info */}
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center space-x-2 mb-1">
-                        <p className="font-medium text-gray-900 truncate">
-                          {conversation.fan?.handle || '@unknown'}
-                        </p>
-                        {conversation.fan?.displayName && (
-                          <p className="text-sm text-gray-500 truncate">
-                            ({conversation.fan.displayName})
+                      {/* Fan Info */}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <p className="font-medium text-gray-900 truncate">
+                            {conversation.fan?.handle || '@unknown'}
                           </p>
-                        )}
-                        <Badge 
-                          variant="secondary" 
-                          className={getSpendTierColor(conversation.fan?.spendTier || 'free')}
-                        >
-                          {conversation.fan?.spendTier || 'free'}
-                        </Badge>
+                          {conversation.fan?.displayName && (
+                            <p className="text-sm text-gray-500 truncate">
+                              ({conversation.fan.displayName})
+                            </p>
+                          )}
+                          <Badge 
+                            variant="secondary" 
+                            className={getSpendTierColor(conversation.fan?.spendTier || 'free')}
+                          >
+                            {conversation.fan?.spendTier || 'free'}
+                          </Badge>
+                          {personas && personas.length > 1 && (
+                            <Badge variant="outline">{personaNames.get(conversation.personaId)}</Badge>
+                          )}
+                          {conversation.mode !== "ai" && (
+                            <Badge className={MODE_LABELS[conversation.mode].className}>
+                              {MODE_LABELS[conversation.mode].label}
+                            </Badge>
+                          )}
+                          {conversation.channel && (
+                            <Badge variant="outline">
+                              {CHANNEL_LABELS[conversation.channel] || conversation.channel}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 truncate">
+                          {conversation.threadSummary || 'No summary available'}
+                        </p>
                       </div>
-                      <p className="text-sm text-gray-600 truncate">
-                        {conversation.threadSummary || 'No summary available'}
-                      </p>
-                    </div>
                     
-                    {/* Conversation Stats */}
-                    <div className="flex items-center space-x-4 text-sm text-gray-500">
-                      <div className="flex items-center space-x-1">
-                        {getSentimentIcon(conversation.sentiment)}
-                        <span className="capitalize">{conversation.sentiment || 'neutral'}</span>
-                      </div>
+                      {/* Conversation Stats */}
+                      <div className="flex items-center space-x-4 text-sm text-gray-500">
+                        <div className="flex items-center space-x-1">
+                          {getSentimentIcon(conversation.sentiment)}
+                          <span className="capitalize">{conversation.sentiment || 'neutral'}</span>
+                        </div>
                       
-                      <div className="flex items-center space-x-1">
-                        <Clock className="w-4 h-4" />
-                        <span>{formatLastMessage(conversation.lastMessageAt)}</span>
+                        <div className="flex items-center space-x-1">
+                          <Clock className="w-4 h-4" />
+                          <span>{formatLastMessage(conversation.lastMessageAt)}</span>
+                        </div>
                       </div>
-                    </div>
                     
-                    {/* Action Indicator */}
-                    <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                      {/* Action Indicator */}
+                      <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                    </div>
+
+                    {expandedConversationId === conversation.id && (
+                      <div className="border-t p-4">
+                        <ConversationTakeover conversationId={conversation.id} />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -299,10 +351,10 @@ export default function Conversations() {
               <div className="text-center py-12">
                 <MessageCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  {searchTerm || filterBy !== "all" ? "No conversations found" : "No active conversations"}
+                  {searchTerm || filterBy !== "all" || personaFilter !== "all" ? "No conversations found" : "No active conversations"}
                 </h3>
                 <p className="text-gray-600">
-                  {searchTerm || filterBy !== "all" 
+                  {searchTerm || filterBy !== "all" || personaFilter !== "all"
                     ? "Try adjusting your search or filters" 
                     : "Conversations will appear here once fans start chatting with your AI"}
                 </p>
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { useCreatorId } from "@/hooks/use-auth";
 import MetricCard from "@/components/metric-card";
 import { 
   DollarSign, 
@@ -22,30 +23,29 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLocation } from "wouter";
 
-const CREATOR_ID = "creator_123"; // In a real app, this would come from auth context
-
 export default function Dashboard() {
+  const creatorId = useCreatorId();
   const [, navigate] = useLocation();
 
   const { data: metrics, isLoading: metricsLoading } = useQuery({
-    queryKey: ["/api/dashboard/metrics", CREATOR_ID],
-    queryFn: () => api.getDashboardMetrics(CREATOR_ID),
+    queryKey: ["/api/dashboard/metrics", creatorId],
+    queryFn: () => api.getDashboardMetrics(creatorId),
   });
 
-  const { data: persona } = useQuery({
-    queryKey: ["/api/personas/creator", CREATOR_ID],
-    queryFn: () => api.getPersona(CREATOR_ID),
+  const { data: personas } = useQuery({
+    queryKey: ["/api/personas/creator", creatorId, "all"],
+    queryFn: () => api.getPersonas(creatorId),
   });
+  const persona = personas?.find(p => p.isDefault) || personas?.[0];
 
   const { data: conversations } = useQuery({
-    queryKey: ["/api/conversations/active", persona?.id],
-    queryFn: () => persona ? api.getActiveConversations(persona.id) : Promise.resolve([]),
-    enabled: !!persona?.id,
+    queryKey: ["/api/conversations/active/creator", creatorId],
+    queryFn: () => api.getCreatorConversations(creatorId),
   });
 
   const { data: topContent } = useQuery({
-    queryKey: ["/api/content/top", CREATOR_ID],
-    queryFn: () => api.getTopPerformingContent(CREATOR_ID, 3),
+    queryKey: ["/api/content/top", creatorId],
+    queryFn: () => api.getTopPerformingContent(creatorId, 3),
   });
 
   const { data: safetyData } = useQuery({
@@ -159,6 +159,9 @@ export default function Dashboard() {
                   <div>
                     <p className="font-medium text-gray-900">{persona.name}</p>
                     <p className="text-sm text-gray-600">{persona.voiceKeywords?.join(', ') || 'Playful, Warm, Attentive'}</p>
+                    {personas && personas.length > 1 && (
+                      <p className="text-xs text-gray-500">Default persona · {personas.length - 1} more</p>
+                    )}
                   </div>
                 </div>
                 
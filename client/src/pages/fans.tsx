@@ -1,6 +1,10 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { useCreatorId } from "@/hooks/use-auth";
+import { FanMemories } from "@/components/fan-memories";
+import { FanConsent } from "@/components/fan-consent";
+import { FanOptOut } from "@/components/fan-opt-out";
 import {
   Card,
   CardContent,
@@ -26,25 +30,21 @@ import {
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-const CREATOR_ID = "creator_123";
-
 export default function Fans() {
+  const creatorId = useCreatorId();
   const [searchTerm, setSearchTerm] = useState("");
   const [filterBy, setFilterBy] = useState("all");
-
-  const { data: persona } = useQuery({
-    queryKey: ["/api/personas/creator", CREATOR_ID],
-    queryFn: () => api.getPersona(CREATOR_ID),
-  });
+  const [expandedFanId, setExpandedFanId] = useState<string | null>(null);
 
   const { data: conversations, isLoading } = useQuery({
-    queryKey: ["/api/conversations/active", persona?.id],
-    queryFn: () => persona ? api.getActiveConversations(persona.id) : Promise.resolve([]),
-    enabled: !!persona?.id,
+    queryKey: ["/api/conversations/active/creator", creatorId],
+    queryFn: () => api.getCreatorConversations(creatorId),
   });
 
-  // Extract unique fans from conversations
-  const fans = conversations?.map(conv => conv.fan).filter(Boolean) || [];
+  // Extract unique fans from conversations; a fan may talk to several personas
+  const fans = Array.from(
+    new Map((conversations || []).filter(conv => conv.fan).map(conv => [conv.fanId, conv.fan])).values()
+  );
   
   const filteredFans = fans.filter(fan => {
     if (!fan) return false;
@@ -55,6 +55,7 @@ export default function Fans() {
     if (filterBy === "all") return matchesSearch;
     if (filterBy === "high-value") return matchesSearch && fan.spendTier !== "free";
     if (filterBy === "verified") return matchesSearch && fan.consentStatus?.ageAffirmed;
+    if (filterBy === "opted-out") return matchesSearch && !!fan.optedOutAt;
     if (filterBy === "recent") {
       const lastPurchase = fan.lastPurchaseAt ? new Date(fan.lastPurchaseAt) : null;
       const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
@@ -224,6 +225,7 @@ export default function Fans() {
                   <SelectItem value="high-value">High Value</SelectItem>
                   <SelectItem value="verified">Verified</SelectItem>
                   <SelectItem value="recent">Recent Activity</SelectItem>
+                  <SelectItem value="opted-out">Opted Out</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -250,67 +252,82 @@ export default function Fans() {
                   const ConsentIcon = consentInfo.icon;
                   
                   return (
-                    <div
-                      key={fan.id}
-                      className="flex items-center space-x-4 p-4 border rounded-lg hover:bg-gray-50 transition-colors"
-                    >
-                      {/* Avatar */}
-                      <img
-                        src={`https://images.unsplash.com/photo-${Math.floor(Math.random() * 1000000000000)}?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100`}
-                        alt="Fan avatar"
-                        className="w-12 h-12 rounded-full object-cover"
-                        onError={(e) => {
-                          (e.target as HTMLImageElement).src = "https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=100&h=100";
-                        }}
-                      />
+                    <div key={fan.id} className="border rounded-lg">
+                      <div className="flex items-center space-x-4 p-4 hover:bg-gray-50 transition-colors">
+                        {/* Avatar */}
+                        <img
+                          src={`https://images.unsplash.com/photo-${Math.floor(Math.random() * 1000000000000)}?ixlib=rb-4.0.3&auto=format&fit=crop&w=100&h=100`}
+                          alt="Fan avatar"
+                          className="w-12 h-12 rounded-full object-cover"
+                          onError={(e) => {
+                            (e.target as HTMLImageElement).src = "https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=100&h=100";
+                          }}
+                        />
                       
-                      {/* Fan Info */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center space-x-2 mb-1">
-                          <p className="font-medium text-gray-900">{fan.handle}</p>
-                          {fan.displayName && (
-                            <p className="text-sm text-gray-500">({fan.displayName})</p>
-                          )}
-                        </div>
+                        {/* Fan Info */}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center space-x-2 mb-1">
+                            <p className="font-medium text-gray-900">{fan.handle}</p>
+                            {fan.displayName && (
+                              <p className="text-sm text-gray-500">({fan.displayName})</p>
+                            )}
+                          </div>
                         
-                        <div className="flex items-center space-x-4 text-sm text-gray-600">
-                          <span>Joined {formatJoinDate(fan.createdAt)}</span>
-                          {fan.timezone && <span>• {fan.timezone}</span>}
+                          <div className="flex items-center space-x-4 text-sm text-gray-600">
+                            <span>Joined {formatJoinDate(fan.createdAt)}</span>
+                            {fan.timezone && <span>• {fan.timezone}</span>}
+                          </div>
                         </div>
-                      </div>
                       
-                      {/* Badges and Status */}
-                      <div className="flex items-center space-x-3">
-                        {/* Spend Tier */}
-                        <Badge variant="outline" className={tierInfo.color}>
-                          <TierIcon className="w-3 h-3 mr-1" />
-                          {tierInfo.label}
-                        </Badge>
-                        
-                        {/* Consent Status */}
-                        <div className={`flex items-center space-x-1 ${consentInfo.color}`}>
-                          <ConsentIcon className="w-4 h-4" />
-                          <span className="text-xs font-medium">{consentInfo.label}</span>
-                        </div>
+                        {/* Badges and Status */}
+                        <div className="flex items-center space-x-3">
+                          {/* Spend Tier */}
+                          <Badge variant="outline" className={tierInfo.color}>
+                            <TierIcon className="w-3 h-3 mr-1" />
+                            {tierInfo.label}
+                          </Badge>
                         
-                        {/* Last Purchase */}
-                        {fan.lastPurchaseAt && (
-                          <div className="flex items-center space-x-1 text-xs text-gray-500">
-                            <Clock className="w-3 h-3" />
-                            <span>Recent purchase</span>
+                          {fan.optedOutAt && (
+                            <Badge className="bg-red-100 text-red-700">Opted out</Badge>
+                          )}
+
+                          {/* Consent Status */}
+                          <div className={`flex items-center space-x-1 ${consentInfo.color}`}>
+                            <ConsentIcon className="w-4 h-4" />
+                            <span className="text-xs font-medium">{consentInfo.label}</span>
                           </div>
-                        )}
-                      </div>
+                        
+                          {/* Last Purchase */}
+                          {fan.lastPurchaseAt && (
+                            <div className="flex items-center space-x-1 text-xs text-gray-500">
+                              <Clock className="w-3 h-3" />
+                              <span>Recent purchase</span>
+                            </div>
+                          )}
+                        </div>
                       
-                      {/* Actions */}
-                      <div className="flex items-center space-x-2">
-                        <Button variant="outline" size="sm">
-                          View Profile
-                        </Button>
-                        <Button variant="ghost" size="sm">
-                          Message
-                        </Button>
+                        {/* Actions */}
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setExpandedFanId(expandedFanId === fan.id ? null : fan.id)}
+                          >
+                            {expandedFanId === fan.id ? "Hide Details" : "Details"}
+                          </Button>
+                          <Button variant="ghost" size="sm">
+                            Message
+                          </Button>
+                        </div>
                       </div>
+
+                      {expandedFanId === fan.id && (
+                        <div className="border-t p-4 space-y-4">
+                          <FanOptOut fanId={fan.id} />
+                          <FanConsent fanId={fan.id} />
+                          <FanMemories fanId={fan.id} />
+                        </div>
+                      )}
                     </div>
                   );
                 })}
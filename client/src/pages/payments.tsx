@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
+import { useCreatorId } from "@/hooks/use-auth";
 import {
   Card,
   CardContent,
@@ -27,20 +28,19 @@ import {
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-const CREATOR_ID = "creator_123";
-
 export default function Payments() {
+  const creatorId = useCreatorId();
   const [searchTerm, setSearchTerm] = useState("");
   const [timeFilter, setTimeFilter] = useState("all");
 
   const { data: revenue } = useQuery({
-    queryKey: ["/api/analytics/revenue", CREATOR_ID],
-    queryFn: () => api.getRevenue(CREATOR_ID),
+    queryKey: ["/api/analytics/revenue", creatorId],
+    queryFn: () => api.getRevenue(creatorId),
   });
 
   const { data: metrics } = useQuery({
-    queryKey: ["/api/dashboard/metrics", CREATOR_ID],
-    queryFn: () => api.getDashboardMetrics(CREATOR_ID),
+    queryKey: ["/api/dashboard/metrics", creatorId],
+    queryFn: () => api.getDashboardMetrics(creatorId),
   });
 
   // Mock payment data - in a real app, this would come from the API
@@ -1,11 +1,17 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { api } from "@/lib/api";
+import { useCreatorId } from "@/hooks/use-auth";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { PersonaRoutingRules } from "@/components/persona-routing-rules";
+import { PersonaHistory } from "@/components/persona-history";
+import { PersonaPlayground } from "@/components/persona-playground";
+import { ConsentWording } from "@/components/consent-wording";
+import { PersonaCopilot } from "@/components/persona-copilot";
 import {
   Card,
   CardContent,
@@ -27,9 +33,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Plus, X, Save, User, MessageCircle, DollarSign } from "lucide-react";
-
-const CREATOR_ID = "creator_123";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X, Save, User, MessageCircle, DollarSign, Star } from "lucide-react";
 
 const personaSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -43,16 +48,22 @@ const personaSchema = z.object({
 type PersonaFormData = z.infer<typeof personaSchema>;
 
 export default function Persona() {
+  const creatorId = useCreatorId();
   const { toast } = useToast();
   const [newKeyword, setNewKeyword] = useState("");
   const [newDoSay, setNewDoSay] = useState("");
   const [newDontSay, setNewDontSay] = useState("");
   const [newOffer, setNewOffer] = useState({ sku: "", label: "", priceCents: 0 });
+  // null shows the default persona; "new" shows an empty form for creating one
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
-  const { data: persona, isLoading } = useQuery({
-    queryKey: ["/api/personas/creator", CREATOR_ID],
-    queryFn: () => api.getPersona(CREATOR_ID),
+  const { data: personas, isLoading } = useQuery({
+    queryKey: ["/api/personas/creator", creatorId, "all"],
+    queryFn: () => api.getPersonas(creatorId),
   });
+  const persona = selectedId === "new"
+    ? undefined
+    : personas?.find(p => p.id === selectedId) || personas?.find(p => p.isDefault) || personas?.[0];
 
   const form = useForm<PersonaFormData>({
     resolver: zodResolver(personaSchema),
@@ -66,25 +77,24 @@ export default function Persona() {
     },
   });
 
-  // Update form when persona data loads
-  useState(() => {
-    if (persona) {
-      form.reset({
-        name: persona.name,
-        bio: persona.bio || "",
-        voiceKeywords: persona.voiceKeywords || [],
-        doSay: persona.doSay || [],
-        dontSay: persona.dontSay || [],
-        disclosure: persona.disclosure || "",
-      });
-    }
-  });
+  // Load the selected persona into the form, or clear it for a new one
+  useEffect(() => {
+    form.reset({
+      name: persona?.name || "",
+      bio: persona?.bio || "",
+      voiceKeywords: persona?.voiceKeywords || [],
+      doSay: persona?.doSay || [],
+      dontSay: persona?.dontSay || [],
+      disclosure: persona?.disclosure || "",
+    });
+  }, [persona?.id, persona?.version]);
 
   const createMutation = useMutation({
-    mutationFn: (data: any) => api.createPersona({ ...data, creatorId: CREATOR_ID }),
-    onSuccess: () => {
+    mutationFn: (data: any) => api.createPersona({ ...data, creatorId: creatorId }),
+    onSuccess: (created) => {
       toast({ title: "Success", description: "AI persona created successfully" });
-      queryClient.invalidateQueries({ queryKey: ["/api/personas/creator", CREATOR_ID] });
+      setSelectedId(created.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/creator", creatorId] });
     },
     onError: (error: any) => {
       toast({
@@ -99,7 +109,7 @@ export default function Persona() {
     mutationFn: (data: any) => api.updatePersona(persona!.id, data),
     onSuccess: () => {
       toast({ title: "Success", description: "AI persona updated successfully" });
-      queryClient.invalidateQueries({ queryKey: ["/api/personas/creator", CREATOR_ID] });
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/creator", creatorId] });
     },
     onError: (error: any) => {
       toast({
@@ -110,6 +120,21 @@ export default function Persona() {
     },
   });
 
+  const defaultMutation = useMutation({
+    mutationFn: () => api.updatePersona(persona!.id, { isDefault: true }),
+    onSuccess: () => {
+      toast({ title: "Success", description: `${persona!.name} now answers conversations no rule matches` });
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/creator", creatorId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to set default persona",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: PersonaFormData) => {
     const submitData = {
       ...data,
@@ -185,11 +210,45 @@ export default function Persona() {
           </div>
           {persona && (
             <Badge variant="secondary" className="bg-green-100 text-green-700">
-              Active
+              {persona.isDefault ? "Default" : "Active"}
             </Badge>
           )}
         </div>
 
+        {/* Persona selector */}
+        {personas && personas.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={persona?.id || "new"} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {personas.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}{p.isDefault ? " (default)" : ""}
+                  </SelectItem>
+                ))}
+                <SelectItem value="new">New persona…</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setSelectedId("new")}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Persona
+            </Button>
+            {persona && !persona.isDefault && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={defaultMutation.isPending}
+                onClick={() => defaultMutation.mutate()}
+              >
+                <Star className="w-4 h-4 mr-1" />
+                Make Default
+              </Button>
+            )}
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             
@@ -468,6 +527,20 @@ export default function Persona() {
             </div>
           </form>
         </Form>
+
+        {persona && (
+          <PersonaPlayground persona={persona} draft={{ ...form.watch(), offerMenu: persona.offerMenu }} />
+        )}
+
+        {persona && <PersonaHistory persona={persona} />}
+
+        {persona && <PersonaCopilot persona={persona} />}
+
+        {personas && personas.length > 0 && (
+          <PersonaRoutingRules creatorId={creatorId} personas={personas} />
+        )}
+
+        <ConsentWording creatorId={creatorId} />
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { api } from "@/lib/api";
+import { api, type ModerationDecision } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -54,8 +54,8 @@ export default function Safety() {
   });
 
   const updateModerationMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: string }) => 
-      api.updateModerationItem(id, { status, reviewedBy: "admin_user" }),
+    mutationFn: ({ id, decision, reason }: { id: string; decision: ModerationDecision; reason: string }) =>
+      api.reviewModerationItem(id, { decision, reason }),
     onSuccess: () => {
       toast({ title: "Success", description: "Moderation item updated successfully" });
       queryClient.invalidateQueries({ queryKey: ["/api/moderation/queue"] });
@@ -71,8 +71,9 @@ export default function Safety() {
     },
   });
 
-  const handleReview = (id: string, status: "approved" | "blocked") => {
-    updateModerationMutation.mutate({ id, status });
+  const handleReview = (id: string, decision: ModerationDecision) => {
+    const reason = selectedItem === id && reviewNote.trim() ? reviewNote.trim() : `Marked ${decision} from the safety dashboard`;
+    updateModerationMutation.mutate({ id, decision, reason });
   };
 
   const getSeverityColor = (severity: string) => {
@@ -89,6 +90,7 @@ export default function Safety() {
     switch (status) {
       case "approved": return <CheckCircle className="w-4 h-4 text-green-600" />;
       case "blocked": return <XCircle className="w-4 h-4 text-red-600" />;
+      case "escalated": return <AlertTriangle className="w-4 h-4 text-red-600" />;
       case "pending": return <Clock className="w-4 h-4 text-yellow-600" />;
       default: return <AlertTriangle className="w-4 h-4 text-gray-600" />;
     }
@@ -353,7 +355,7 @@ export default function Safety() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => handleReview(item.id, "approved")}
+                          onClick={() => handleReview(item.id, "approve")}
                           disabled={updateModerationMutation.isPending}
                           className="text-green-600 border-green-300 hover:bg-green-50"
                         >
@@ -363,13 +365,23 @@ export default function Safety() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => handleReview(item.id, "blocked")}
+                          onClick={() => handleReview(item.id, "block")}
                           disabled={updateModerationMutation.isPending}
                           className="text-red-600 border-red-300 hover:bg-red-50"
                         >
                           <XCircle className="w-4 h-4 mr-1" />
                           Block
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReview(item.id, "escalate")}
+                          disabled={updateModerationMutation.isPending}
+                          className="text-orange-600 border-orange-300 hover:bg-orange-50"
+                        >
+                          <AlertTriangle className="w-4 h-4 mr-1" />
+                          Escalate
+                        </Button>
                         <Button
                           size="sm"
                           variant="ghost"
@@ -381,9 +393,24 @@ export default function Safety() {
                       </div>
                     )}
                     
+                    {item.status === "pending" && selectedItem === item.id && (
+                      <div className="mt-3 space-y-2">
+                        <p className="text-xs text-gray-500">
+                          {item.messageId ? "Linked message" : "No linked message"}
+                          {item.conversationId && " · escalating pauses this conversation"}
+                        </p>
+                        <Textarea
+                          placeholder="Reason for your decision"
+                          value={reviewNote}
+                          onChange={(e) => setReviewNote(e.target.value)}
+                        />
+                      </div>
+                    )}
+
                     {item.reviewedBy && (
                       <div className="mt-3 pt-3 border-t text-xs text-gray-500">
                         Reviewed by {item.reviewedBy} on {item.reviewedAt ? formatDate(item.reviewedAt) : 'Unknown'}
+                        {item.decisionReason && <p className="mt-1">Reason: {item.decisionReason}</p>}
                       </div>
                     )}
                   </div>
@@ -22,8 +22,6 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
-const CREATOR_ID = "creator_123"; // In a real app, this would come from auth context
-
 export default function Settings() {
   const { toast } = useToast();
   const [stripeConnected, setStripeConnected] = useState(false);
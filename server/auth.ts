@@ -0,0 +1,249 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { auditService } from "./services/audit";
+import { insertUserSchema, loginSchema, userRoles, type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Strip the password hash before a user leaves the server
+export function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * The creator whose data a user may act on: creators own their own data,
+ * operators work for the creator they are assigned to, admins are unscoped.
+ */
+export function getScopedCreatorId(user: SelectUser): string | null {
+  if (user.role === 'admin') return null;
+  if (user.role === 'creator') return user.id;
+  return user.creatorId ?? null;
+}
+
+export function canAccessCreator(user: SelectUser, creatorId: string): boolean {
+  if (user.role === 'admin') return true;
+  return getScopedCreatorId(user) === creatorId;
+}
+
+// Fans are shared across creators, so a creator's team only sees fans who have
+// talked to one of its personas
+export async function canAccessFan(user: SelectUser, fanId: string): Promise<boolean> {
+  if (user.role === 'admin') return true;
+  const creatorId = getScopedCreatorId(user);
+  return !!creatorId && await storage.hasConversationWithCreator(fanId, creatorId);
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (req.user.role !== 'admin' && !roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ message: "Insufficient role" });
+    }
+    next();
+  };
+}
+
+// Guards routes of the form /.../:creatorId so they only serve the caller's own creator
+export function requireCreatorAccess(param = "creatorId") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!canAccessCreator(req.user, req.params[param])) {
+      return res.status(403).json({ message: "Access denied for this creator" });
+    }
+    next();
+  };
+}
+
+// For routes scoped with getScopedCreatorId, where null means every creator:
+// only admins may get that, so other users must belong to a creator
+export function requireCreatorScope(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (req.user.role !== 'admin' && !getScopedCreatorId(req.user)) {
+    return res.status(403).json({ message: "No creator is assigned to this account" });
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to enable sessions");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 1000 * 60 * 60 * 24 * 7, // 1 week
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // =============
+  // AUTH
+  // =============
+
+  // Self-service registration always creates a creator account
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password, email } = insertUserSchema.pick({
+        username: true,
+        password: true,
+        email: true,
+      }).parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        email,
+        password: await hashPassword(password),
+        role: 'creator',
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.message });
+    }
+
+    passport.authenticate("local", async (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        await auditService.logAction('failed_login', 'user', parsed.data.username, {}, undefined, undefined, req);
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  // Admins provision operator and admin accounts
+  app.post("/api/users", requireRole('admin'), async (req, res) => {
+    try {
+      const userData = insertUserSchema.extend({
+        role: z.enum(userRoles),
+      }).parse(req.body);
+
+      if (userData.role === 'operator' && !userData.creatorId) {
+        return res.status(400).json({ message: "Operators must be assigned to a creator" });
+      }
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+
+      await auditService.logAction('user_created', 'user', user.id, { role: user.role }, req.user!.id, undefined, req);
+
+      res.status(201).json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+}
@@ -1,9 +1,23 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { messageDispatcher } from "./services/dispatcher";
+import { takeoverService } from "./services/takeover";
+import { channelService } from "./services/channels";
 
 const app = express();
-app.use(express.json());
+
+declare module 'http' {
+  interface IncomingMessage {
+    // Unparsed JSON body, needed to verify webhook signatures
+    rawBody: unknown
+  }
+}
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -68,4 +82,17 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Scheduled and retried messages in channel-bound conversations go out through the channel's adapter
+  messageDispatcher.setSender(channelService);
+
+  // Every instance may run the dispatcher; claims keep them from double-sending
+  if (process.env.MESSAGE_DISPATCHER !== 'off') {
+    messageDispatcher.start();
+  }
+
+  // Releases are conditional on the current holder, so each idle hold is released once
+  if (process.env.TAKEOVER_AUTO_RELEASE !== 'off') {
+    takeoverService.start();
+  }
 })();
@@ -1,24 +1,34 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import Stripe from "stripe";
+import busboy from "busboy";
 import { z } from "zod";
 import { storage } from "./storage";
 import { llmService } from "./services/llm";
 import { moderationService } from "./services/moderation";
-import { mediaService } from "./services/media";
+import { mediaService, MediaAccessError, MediaUploadError, MAX_UPLOAD_BYTES } from "./services/media";
 import { auditService } from "./services/audit";
-import { insertPersonaSchema, insertFanSchema, insertContentItemSchema, insertMessageSchema } from "@shared/schema";
-
-// Initialize Stripe only if keys are available
-let stripe: Stripe | null = null;
-if (process.env.STRIPE_SECRET_KEY) {
-  stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-    apiVersion: "2024-06-20",
-  });
-}
+import { replyService } from "./services/reply";
+import { paymentService } from "./services/payments";
+import { personaRouter } from "./services/persona-router";
+import { personaVersionService } from "./services/persona-versions";
+import { playgroundService } from "./services/playground";
+import { consentService, ConsentError } from "./services/consent";
+import { optOutService } from "./services/opt-out";
+import { rateLimiter } from "./services/rate-limit";
+import { takeoverService, TakeoverError } from "./services/takeover";
+import { copilotService, CopilotError } from "./services/copilot";
+import { liveEvents } from "./services/live-events";
+import { channelService } from "./services/channels";
+import { setupAuth, requireAuth, requireRole, requireCreatorAccess, requireCreatorScope, canAccessCreator, canAccessFan, getScopedCreatorId } from "./auth";
+import { stripe } from "./stripe";
+import { insertPersonaSchema, insertFanSchema, insertContentItemSchema, insertMessageSchema, insertModerationRuleSchema, moderationReviewSchema, scheduleMessageSchema, rescheduleMessageSchema, insertFanMemorySchema, insertPersonaRoutingRuleSchema, personaPreviewSchema, consentTextSchema, consentAffirmSchema, consentRevokeSchema, recordOptOutSchema, conversationTakeoverSchema, pauseConversationSchema, operatorMessageSchema, approveDraftSchema, rejectDraftSchema, createPaymentIntentSchema, channelAccountSchema, type ModerationQueue, type ChannelAccount, type ContentItem, type Persona, type Fan } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
+  // Sessions, login/logout and user provisioning
+  setupAuth(app);
+
   // Health check
   app.get("/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
@@ -28,12 +38,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // PERSONA MANAGEMENT
   // =============
 
-  app.post("/api/personas", async (req, res) => {
+  app.post("/api/personas", requireRole('creator'), async (req, res) => {
     try {
       const personaData = insertPersonaSchema.parse(req.body);
-      const persona = await storage.createPersona(personaData);
+      if (!canAccessCreator(req.user!, personaData.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+      llmService.assertUsableConfig(personaData.llmConfig);
+
+      // A creator's first persona becomes their default
+      const existing = await storage.getPersonasByCreator(personaData.creatorId);
+      let persona = await storage.createPersona({ ...personaData, isDefault: false }, req.user!.id);
+      if (personaData.isDefault || existing.length === 0) {
+        persona = await storage.setDefaultPersona(persona.creatorId, persona.id);
+      }
       
-      await auditService.logPersonaUpdate(persona.id, personaData.creatorId, { action: 'created' });
+      await auditService.logPersonaUpdate(persona.id, req.user!.id, { action: 'created' });
       
       res.json(persona);
     } catch (error: any) {
@@ -41,24 +61,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/personas/:id", async (req, res) => {
+  app.get("/api/personas/:id", requireAuth, async (req, res) => {
     try {
       const persona = await storage.getPersona(req.params.id);
       if (!persona) {
         return res.status(404).json({ message: "Persona not found" });
       }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
       res.json(persona);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/personas/:id", async (req, res) => {
+  app.put("/api/personas/:id", requireRole('creator'), async (req, res) => {
     try {
-      const updates = insertPersonaSchema.partial().parse(req.body);
-      const persona = await storage.updatePersona(req.params.id, updates);
+      const existing = await storage.getPersona(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Persona not found" });
+      }
+      if (!canAccessCreator(req.user!, existing.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
+
+      // Personas cannot be handed over to another creator
+      const { creatorId: _creatorId, isDefault, ...updates } = insertPersonaSchema.partial().parse(req.body);
+      llmService.assertUsableConfig(updates.llmConfig);
+      let persona = await storage.updatePersona(req.params.id, updates, req.user!.id);
+      if (isDefault && !existing.isDefault) {
+        persona = await storage.setDefaultPersona(existing.creatorId, existing.id);
+      }
       
-      await auditService.logPersonaUpdate(persona.id, persona.creatorId, { action: 'updated', changes: updates });
+      await auditService.logPersonaUpdate(persona.id, req.user!.id, {
+        action: 'updated',
+        changes: updates,
+        fromVersion: existing.version,
+        toVersion: persona.version,
+      });
+      await consentService.reaffirmIfDisclosureChanged(existing, persona);
       
       res.json(persona);
     } catch (error: any) {
@@ -66,7 +108,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/personas/creator/:creatorId", async (req, res) => {
+  // The creator's default persona
+  app.get("/api/personas/creator/:creatorId", requireCreatorAccess(), async (req, res) => {
     try {
       const persona = await storage.getPersonaByCreatorId(req.params.creatorId);
       if (!persona) {
@@ -78,397 +121,1641 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // =============
-  // AI CONVERSATION
-  // =============
-
-  app.post("/api/ai/reply", async (req, res) => {
+  app.get("/api/personas/creator/:creatorId/all", requireCreatorAccess(), async (req, res) => {
     try {
-      const { fanId, personaId, message } = z.object({
-        fanId: z.string(),
-        personaId: z.string(),
-        message: z.string(),
-      }).parse(req.body);
-
-      // Moderation check
-      const moderationResult = await moderationService.moderateMessage(message, fanId);
-      
-      if (moderationResult.action === 'block') {
-        await auditService.logModerationAction('', 'block', moderationResult.reason || '', moderationResult.severity);
-        return res.status(400).json({ 
-          message: "Message blocked by moderation system",
-          reason: moderationResult.reason 
-        });
-      }
+      const personas = await storage.getPersonasByCreator(req.params.creatorId);
+      res.json(personas);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (moderationResult.action === 'escalate') {
-        await moderationService.escalateMessage(message, moderationResult.reason || '', fanId);
-        return res.status(400).json({ 
-          message: "Message flagged for review",
-          reason: "Content requires human review" 
-        });
+  app.get("/api/personas/:id/analytics", requireAuth, async (req, res) => {
+    try {
+      const persona = await storage.getPersona(req.params.id);
+      if (!persona) {
+        return res.status(404).json({ message: "Persona not found" });
       }
-
-      // Check for stop words
-      if (await moderationService.checkStopWords(message)) {
-        await moderationService.processStopRequest(fanId);
-        return res.json({
-          message: "I understand you'd like to stop our conversations. You've been unsubscribed. Take care! 💕",
-          action: 'stop_processed'
-        });
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
       }
 
-      // Get context for AI response
-      const [persona, fan] = await Promise.all([
-        storage.getPersona(personaId),
-        storage.getFan(fanId)
-      ]);
+      const metrics = await storage.getPersonaMetrics(persona.id);
+      res.json(metrics);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (!persona || !fan) {
-        return res.status(404).json({ message: "Persona or fan not found" });
+  // Dry-runs a reply against an unsaved draft; nothing is stored, queued or charged
+  app.post("/api/personas/:id/preview", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const persona = await storage.getPersona(req.params.id);
+      if (!persona) {
+        return res.status(404).json({ message: "Persona not found" });
       }
-
-      // Check consent gate for romantic content
-      if (!await moderationService.checkConsentGate(fanId)) {
-        return res.json({
-          message: "Before we chat, I need to confirm you're 18+ and okay with receiving romantic messages. Are you over 18 and interested in flirty conversation? 💕",
-          action: 'consent_required'
-        });
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
       }
 
-      // Get or create conversation
-      let conversation = await storage.getConversationByFanAndPersona(fanId, personaId);
-      if (!conversation) {
-        conversation = await storage.createConversation({
-          fanId,
-          personaId,
-          threadSummary: "",
-          sentiment: "neutral",
-          lastMessageAt: new Date(),
-        });
+      const request = personaPreviewSchema.parse(req.body);
+      const result = await playgroundService.preview(persona, request);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
       }
+      console.error('Error in persona preview:', error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Get recent message history
-      const recentMessages = await storage.getConversationMessages(conversation.id, 10);
-
-      // Generate AI response
-      const aiResponse = await llmService.generateResponse({
-        persona,
-        fan,
-        recentMessages,
-        threadSummary: conversation.threadSummary || undefined,
-      }, message);
-
-      // Store the fan's message
-      await storage.createMessage({
-        conversationId: conversation.id,
-        type: 'text',
-        content: message,
-        sender: 'fan',
-        sentAt: new Date(),
-      });
-
-      // Store the AI's response
-      const aiMessage = await storage.createMessage({
-        conversationId: conversation.id,
-        type: 'text',
-        content: aiResponse.message,
-        sender: 'ai',
-        sentAt: new Date(),
-      });
+  // =============
+  // PERSONA VERSIONS
+  // =============
 
-      // Update conversation
-      const sentiment = await llmService.analyzeSentiment(message);
-      await storage.updateConversation(conversation.id, {
-        lastMessageAt: new Date(),
-        sentiment,
-      });
+  app.get("/api/personas/:id/versions", requireAuth, async (req, res) => {
+    try {
+      const persona = await storage.getPersona(req.params.id);
+      if (!persona) {
+        return res.status(404).json({ message: "Persona not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
 
-      // Log the interaction
-      await auditService.logConversation(conversation.id, aiMessage.id, aiResponse.message, message, moderationResult);
-
-      // Process tool calls
-      const processedActions = await Promise.all(
-        (aiResponse.toolCalls || []).map(async (toolCall) => {
-          switch (toolCall.type) {
-            case 'offer_menu':
-              return await this.processOfferMenu(toolCall.data, persona, fan);
-            case 'create_payment_link':
-              return await this.createPaymentLink(toolCall.data, fan.id, persona.creatorId);
-            case 'send_media':
-              return await this.sendMediaContent(toolCall.data, fan.id);
-            default:
-              return null;
-          }
-        })
-      );
+      const versions = await storage.getPersonaVersions(persona.id);
 
-      res.json({
-        message: aiResponse.message,
-        actions: processedActions.filter(Boolean),
-        conversationId: conversation.id,
-        messageId: aiMessage.id,
-      });
+      // Resolve authors once each for display
+      const authorIds = Array.from(new Set(versions.map(version => version.createdBy).filter((id): id is string => !!id)));
+      const authors = new Map(await Promise.all(authorIds.map(async (id) => [id, (await storage.getUser(id))?.username] as const)));
 
+      res.json(versions.map(version => ({
+        ...version,
+        createdByUsername: version.createdBy ? authors.get(version.createdBy) || null : null,
+      })));
     } catch (error: any) {
-      console.error('Error in AI reply:', error);
-      res.status(500).json({ message: "Internal server error" });
+      res.status(500).json({ message: error.message });
     }
   });
 
-  // Helper method for processing offer menu
-  async function processOfferMenu(data: any, persona: any, fan: any) {
-    const offers = persona.offerMenu || [];
-    const relevantOffers = offers.filter((offer: any) => 
-      !data.filterBy || offer.sku.includes(data.filterBy)
-    );
-    
-    return {
-      type: 'offer_menu',
-      offers: relevantOffers.map((offer: any) => ({
-        ...offer,
-        formattedPrice: `$${(offer.priceCents / 100).toFixed(2)}`
-      }))
-    };
-  }
-
-  // Helper method for creating payment links
-  async function createPaymentLink(data: any, fanId: string, creatorId: string) {
+  // Field-by-field changes between two versions; `to` defaults to the current version
+  app.get("/api/personas/:id/versions/diff", requireAuth, async (req, res) => {
     try {
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: data.amountCents || 2500,
-        currency: 'usd',
-        metadata: {
-          fanId,
-          creatorId,
-          productType: data.productType || 'custom_content',
-        },
-      });
+      const persona = await storage.getPersona(req.params.id);
+      if (!persona) {
+        return res.status(404).json({ message: "Persona not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
 
-      // Store payment record
-      await storage.createPayment({
-        fanId,
-        creatorId,
-        stripePaymentIntentId: paymentIntent.id,
-        amountCents: data.amountCents || 2500,
-        status: 'pending',
-        productType: data.productType || 'custom_content',
-        metadata: data,
-      });
+      const { from, to } = z.object({
+        from: z.coerce.number().int().min(1),
+        to: z.coerce.number().int().min(1).optional(),
+      }).parse(req.query);
 
-      return {
-        type: 'payment_link',
-        clientSecret: paymentIntent.client_secret,
-        amount: data.amountCents || 2500,
-        description: data.description || 'Custom content',
-      };
-    } catch (error) {
-      console.error('Error creating payment link:', error);
-      return null;
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getPersonaVersion(persona.id, from),
+        storage.getPersonaVersion(persona.id, to ?? persona.version),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ message: "Persona version not found" });
+      }
+
+      res.json(personaVersionService.diff(fromVersion, toVersion));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
     }
-  }
+  });
 
-  // Helper method for sending media content
-  async function sendMediaContent(data: any, fanId: string) {
+  app.get("/api/personas/:id/versions/:version", requireAuth, async (req, res) => {
     try {
-      const contentId = data.contentId;
-      if (!contentId) return null;
-
-      const signedUrl = await mediaService.getSignedUrl(contentId, {
-        trackDelivery: true,
-        fanId,
-      });
-
-      if (!signedUrl) return null;
-
-      await auditService.logContentAccess(contentId, fanId, 'view');
+      const persona = await storage.getPersona(req.params.id);
+      if (!persona) {
+        return res.status(404).json({ message: "Persona not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
 
-      return {
-        type: 'media_content',
-        url: signedUrl,
-        contentId,
-      };
-    } catch (error) {
-      console.error('Error sending media content:', error);
-      return null;
+      const version = await storage.getPersonaVersion(persona.id, parseInt(req.params.version, 10));
+      if (!version) {
+        return res.status(404).json({ message: "Persona version not found" });
+      }
+      res.json(version);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
-  }
-
-  // =============
-  // CONSENT MANAGEMENT
-  // =============
+  });
 
-  app.post("/api/consent/affirm", async (req, res) => {
+  // Restores an earlier version's fields as a new version; history is never rewritten
+  app.post("/api/personas/:id/rollback", requireRole('creator'), async (req, res) => {
     try {
-      const { fanId, affirmations } = z.object({
-        fanId: z.string(),
-        affirmations: z.array(z.string()),
-      }).parse(req.body);
+      const existing = await storage.getPersona(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Persona not found" });
+      }
+      if (!canAccessCreator(req.user!, existing.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
 
-      const consentStatus = {
-        ageAffirmed: affirmations.includes("I am 18+"),
-        romanticContent: affirmations.includes("I consent to romantic messages"),
-        timestamp: new Date().toISOString(),
-      };
+      const { version } = z.object({ version: z.number().int().min(1) }).parse(req.body);
+      if (version === existing.version) {
+        return res.status(400).json({ message: "Persona is already at this version" });
+      }
 
-      await storage.updateFan(fanId, { consentStatus });
-      
-      await auditService.logFanInteraction(fanId, 'consent_affirmed', { affirmations });
+      const persona = await storage.rollbackPersona(existing.id, version, req.user!.id);
+      if (!persona) {
+        return res.status(404).json({ message: "Persona version not found" });
+      }
+
+      await auditService.logPersonaUpdate(persona.id, req.user!.id, {
+        action: 'rolled_back',
+        restoredVersion: version,
+        fromVersion: existing.version,
+        toVersion: persona.version,
+      });
+      await consentService.reaffirmIfDisclosureChanged(existing, persona);
 
-      res.json({ success: true, consentStatus });
+      res.json(persona);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
   // =============
-  // CONTENT MANAGEMENT
+  // PERSONA ROUTING
   // =============
 
-  app.get("/api/content/creator/:creatorId", async (req, res) => {
+  app.get("/api/personas/creator/:creatorId/routing-rules", requireCreatorAccess(), async (req, res) => {
     try {
-      const content = await storage.getContentItemsByCreator(req.params.creatorId);
-      res.json(content);
+      const rules = await storage.getPersonaRoutingRules(req.params.creatorId);
+      res.json(rules);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/content", async (req, res) => {
+  app.post("/api/personas/routing-rules", requireRole('creator'), async (req, res) => {
     try {
-      const contentData = insertContentItemSchema.parse(req.body);
-      const content = await storage.createContentItem(contentData);
-      res.json(content);
+      const ruleData = insertPersonaRoutingRuleSchema.parse(req.body);
+      if (!canAccessCreator(req.user!, ruleData.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+      const persona = await storage.getPersona(ruleData.personaId);
+      if (!persona || persona.creatorId !== ruleData.creatorId) {
+        return res.status(400).json({ message: "Persona does not belong to this creator" });
+      }
+
+      const rule = await storage.createPersonaRoutingRule(ruleData);
+      await auditService.logPersonaRoutingRuleChange(rule.id, req.user!.id, 'created', { rule });
+
+      res.json(rule);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.get("/api/content/top/:creatorId", async (req, res) => {
+  app.put("/api/personas/routing-rules/:id", requireRole('creator'), async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 10;
-      const content = await storage.getTopPerformingContent(req.params.creatorId, limit);
-      res.json(content);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
+      const existing = await storage.getPersonaRoutingRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Routing rule not found" });
+      }
+      if (!canAccessCreator(req.user!, existing.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this routing rule" });
+      }
 
-  // =============
-  // FAN MANAGEMENT
-  // =============
+      const { creatorId: _creatorId, ...updates } = insertPersonaRoutingRuleSchema.partial().parse(req.body);
+      if (updates.personaId) {
+        const persona = await storage.getPersona(updates.personaId);
+        if (!persona || persona.creatorId !== existing.creatorId) {
+          return res.status(400).json({ message: "Persona does not belong to this creator" });
+        }
+      }
 
-  app.post("/api/fans", async (req, res) => {
-    try {
-      const fanData = insertFanSchema.parse(req.body);
-      const fan = await storage.createFan(fanData);
-      res.json(fan);
+      const rule = await storage.updatePersonaRoutingRule(existing.id, updates);
+      await auditService.logPersonaRoutingRuleChange(rule.id, req.user!.id, 'updated', { previous: existing, changes: updates });
+
+      res.json(rule);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.get("/api/fans/:id", async (req, res) => {
+  app.delete("/api/personas/routing-rules/:id", requireRole('creator'), async (req, res) => {
     try {
-      const fan = await storage.getFan(req.params.id);
-      if (!fan) {
-        return res.status(404).json({ message: "Fan not found" });
+      const existing = await storage.getPersonaRoutingRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Routing rule not found" });
       }
-      res.json(fan);
+      if (!canAccessCreator(req.user!, existing.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this routing rule" });
+      }
+
+      await storage.deletePersonaRoutingRule(existing.id);
+      await auditService.logPersonaRoutingRuleChange(existing.id, req.user!.id, 'deleted', { previous: existing });
+
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/fans/:id", async (req, res) => {
+  // Shows which persona would answer a fan, without starting a conversation
+  app.post("/api/personas/creator/:creatorId/route", requireCreatorAccess(), async (req, res) => {
     try {
-      const updates = insertFanSchema.partial().parse(req.body);
-      const fan = await storage.updateFan(req.params.id, updates);
-      res.json(fan);
+      const { fanId, channel, language, newConversation } = z.object({
+        fanId: z.string(),
+        channel: z.string().optional(),
+        language: z.string().optional(),
+        newConversation: z.boolean().optional(),
+      }).parse(req.body);
+
+      const fan = await storage.getFan(fanId);
+      if (!fan) {
+        return res.status(404).json({ message: "Fan not found" });
+      }
+
+      const context = { channel, language };
+      const decision = newConversation
+        ? await personaRouter.routeNew(fan, req.params.creatorId, context)
+        : await personaRouter.route(fan, req.params.creatorId, context);
+      if (!decision) {
+        return res.status(404).json({ message: "No active persona for creator" });
+      }
+
+      res.json(decision);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
   // =============
-  // ANALYTICS & DASHBOARD
+  // AI CONVERSATION
   // =============
 
-  app.get("/api/dashboard/metrics/:creatorId", async (req, res) => {
-    try {
-      const metrics = await storage.getDashboardMetrics(req.params.creatorId);
-      res.json(metrics);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
+  // Either name the persona, or give the creator and let routing pick one
+  const replyRequestSchema = z.object({
+    fanId: z.string(),
+    personaId: z.string().optional(),
+    creatorId: z.string().optional(),
+    channel: z.string().optional(),
+    message: z.string(),
+  }).refine(request => request.personaId || request.creatorId, {
+    message: "personaId or creatorId is required",
   });
 
-  app.get("/api/analytics/revenue/:creatorId", async (req, res) => {
-    try {
-      const revenue = await storage.getRevenueByCreator(req.params.creatorId);
-      res.json(revenue);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
+  const resolveReplyTarget = async ({ fanId, personaId, creatorId, channel }: z.infer<typeof replyRequestSchema>) => {
+    const fan = await storage.getFan(fanId);
+    if (personaId) {
+      return { fan, persona: await storage.getPersona(personaId) };
     }
-  });
+    const decision = fan && await personaRouter.route(fan, creatorId!, { channel });
+    return { fan, persona: decision?.persona };
+  };
+
+  // Runs before anything is stored or generated. A fan's first limited message in a
+  // while gets a slow-down line in the persona's voice; anything after that, and any
+  // IP, persona or creator limit, gets a 429. STOP and START are never throttled.
+  const throttleReply = async (req: Request, res: Response, persona: Persona, fan: Fan, message: string): Promise<boolean> => {
+    if (optOutService.parseKeyword(message)) return false;
+
+    const decision = await rateLimiter.check({
+      ip: req.ip,
+      fanId: fan.id,
+      personaId: persona.id,
+      creatorId: persona.creatorId,
+    }, req);
+    if (!decision.limited) return false;
+
+    res.set('Retry-After', String(decision.retryAfterSeconds));
+    if (decision.scope === 'fan' && decision.firstHit) {
+      res.json({
+        message: await rateLimiter.slowDownReply(persona),
+        action: 'rate_limited',
+        retryAfterSeconds: decision.retryAfterSeconds,
+      });
+    } else {
+      res.status(429).json({
+        message: "Too many requests",
+        scope: decision.scope,
+        retryAfterSeconds: decision.retryAfterSeconds,
+      });
+    }
+    return true;
+  };
 
-  app.get("/api/analytics/safety", async (req, res) => {
+  app.post("/api/ai/reply", requireAuth, async (req, res) => {
     try {
-      const complianceScore = await moderationService.getComplianceScore();
-      const queue = await storage.getModerationQueue('pending');
-      
+      const request = replyRequestSchema.parse(req.body);
+      const { message } = request;
+
+      // Get context for AI response
+      const { persona, fan } = await resolveReplyTarget(request);
+
+      if (!persona || !fan) {
+        return res.status(404).json({ message: "Persona or fan not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
+      if (await throttleReply(req, res, persona, fan, message)) return;
+
+      // Opt-out keywords, moderation and consent
+      const gate = await replyService.gateInbound(persona, fan, message, request.channel);
+      if (!gate.proceed) {
+        return res.status(gate.httpStatus).json(gate.body);
+      }
+
+      const prepared = await replyService.prepare(persona, fan, gate);
+
+      // Co-pilot mode: candidates wait for an operator instead of going out
+      if (copilotService.requiresApproval(persona, fan)) {
+        const drafts = await copilotService.draft(prepared);
+        return res.status(202).json({
+          message: null,
+          deliveryStatus: 'draft_pending',
+          conversationId: prepared.conversation.id,
+          draftIds: drafts.map(draft => draft.id),
+        });
+      }
+
+      // Generate AI response and moderate it before delivery
+      const draft = await replyService.generate(prepared);
+      const { aiResponse, outbound, regenerations } = await replyService.reviewOutbound(prepared, draft);
+      const { aiMessage, toolExecutions, delivered } = await replyService.complete(prepared, aiResponse, {
+        outbound,
+        auditDetails: { regenerations },
+      });
+
       res.json({
-        complianceScore,
-        pendingReviews: queue.length,
-        totalModerated: (await storage.getModerationQueue()).length,
+        message: delivered ? aiResponse.message : null,
+        deliveryStatus: delivered ? 'sent' : outbound.action === 'block' ? 'blocked' : 'held',
+        ...replyService.formatActions(toolExecutions),
+        conversationId: prepared.conversation.id,
+        messageId: aiMessage.id,
       });
+
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      console.error('Error in AI reply:', error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // =============
-  // CONVERSATIONS & MESSAGES
-  // =============
+  // Streams the reply over Server-Sent Events. Gating runs before the stream
+  // opens, so blocked or consent-gated messages get a plain JSON response.
+  // GET takes the same fields as query parameters for EventSource clients.
+  const streamReply = async (req: Request, res: Response) => {
+    let streamOpen = false;
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-  app.get("/api/conversations/active/:personaId", async (req, res) => {
     try {
-      const conversations = await storage.getActiveConversations(req.params.personaId);
-      
-      // Get fan details for each conversation
-      const conversationsWithFans = await Promise.all(
-        conversations.map(async (conv) => {
-          const fan = await storage.getFan(conv.fanId);
-          return { ...conv, fan };
-        })
+      const request = replyRequestSchema.parse(
+        req.method === 'GET' ? req.query : req.body
       );
-      
-      res.json(conversationsWithFans);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
+      const { message } = request;
 
-  app.get("/api/messages/:conversationId", async (req, res) => {
-    try {
-      const limit = parseInt(req.query.limit as string) || 50;
-      const messages = await storage.getConversationMessages(req.params.conversationId, limit);
-      res.json(messages);
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
+      const { persona, fan } = await resolveReplyTarget(request);
 
-  // =============
+      if (!persona || !fan) {
+        return res.status(404).json({ message: "Persona or fan not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
+      if (await throttleReply(req, res, persona, fan, message)) return;
+
+      const gate = await replyService.gateInbound(persona, fan, message, request.channel);
+      if (!gate.proceed) {
+        return res.status(gate.httpStatus).json(gate.body);
+      }
+
+      const prepared = await replyService.prepare(persona, fan, gate);
+
+      // Drafts are not streamed; the fan sees only approved text
+      if (copilotService.requiresApproval(persona, fan)) {
+        const drafts = await copilotService.draft(prepared);
+        return res.status(202).json({
+          message: null,
+          deliveryStatus: 'draft_pending',
+          conversationId: prepared.conversation.id,
+          draftIds: drafts.map(draft => draft.id),
+        });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      streamOpen = true;
+      sendEvent('start', { conversationId: prepared.conversation.id });
+
+      // Stop generating as soon as the client goes away
+      const abortController = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) abortController.abort();
+      });
+
+      let partial = '';
+      try {
+        const draft = await llmService.streamResponse(prepared.context, message, {
+          signal: abortController.signal,
+          onToken: (token) => {
+            partial += token;
+            sendEvent('token', { content: token });
+          },
+        });
+
+        // Tokens are already out, so a regenerated reply replaces the streamed
+        // text and a held or blocked one tells the client to withdraw it
+        const { aiResponse, outbound, regenerations } = await replyService.reviewOutbound(prepared, draft);
+        const { aiMessage, toolExecutions, delivered } = await replyService.complete(prepared, aiResponse, {
+          outbound,
+          auditDetails: { regenerations },
+        });
+        if (!delivered) {
+          sendEvent('withheld', { status: outbound.action === 'block' ? 'blocked' : 'held', messageId: aiMessage.id });
+        } else if (aiResponse.message !== draft.message) {
+          sendEvent('replace', { message: aiResponse.message });
+        }
+        sendEvent('actions', replyService.formatActions(toolExecutions));
+        sendEvent('done', {
+          conversationId: prepared.conversation.id,
+          messageId: aiMessage.id,
+        });
+        res.end();
+      } catch (error) {
+        if (!abortController.signal.aborted) throw error;
+
+        // Client disconnected mid-stream: keep what was generated, skip tool calls
+        await replyService.complete(prepared, { message: partial, toolCalls: [] }, {
+          outbound: replyService.reviewWithoutRegeneration(prepared, partial),
+          runTools: false,
+          auditDetails: { streamAborted: true },
+        });
+      }
+    } catch (error: any) {
+      console.error('Error in streaming AI reply:', error);
+      if (!streamOpen) {
+        return res.status(500).json({ message: "Internal server error" });
+      }
+      sendEvent('error', { message: "Internal server error" });
+      res.end();
+    }
+  };
+
+  app.get("/api/ai/reply/stream", requireAuth, streamReply);
+  app.post("/api/ai/reply/stream", requireAuth, streamReply);
+
+  // =============
+  // CO-PILOT DRAFTS
+  // =============
+
+  // Pending candidates with the fan message they answer, oldest first
+  app.get("/api/drafts", requireRole('creator', 'operator'), requireCreatorScope, async (req, res) => {
+    try {
+      const creatorId = req.user!.role === 'admin'
+        ? (req.query.creatorId as string) || null
+        : getScopedCreatorId(req.user!);
+      const drafts = await storage.getPendingReplyDrafts(creatorId);
+
+      const fans = new Map<string, Fan | undefined>();
+      const personas = new Map<string, Persona | undefined>();
+      const enriched = [];
+      for (const draft of drafts) {
+        if (!fans.has(draft.fanId)) fans.set(draft.fanId, await storage.getFan(draft.fanId));
+        if (!personas.has(draft.personaId)) personas.set(draft.personaId, await storage.getPersona(draft.personaId));
+        const fan = fans.get(draft.fanId);
+        const inboundMessage = await storage.getMessage(draft.inboundMessageId);
+        enriched.push({
+          ...draft,
+          fanHandle: fan?.handle ?? null,
+          fanSpendTier: fan?.spendTier ?? null,
+          personaName: personas.get(draft.personaId)?.name ?? null,
+          fanMessage: inboundMessage?.content ?? null,
+        });
+      }
+
+      res.json(enriched);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/drafts/:id/approve", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const { content } = approveDraftSchema.parse(req.body ?? {});
+      const draft = await storage.getReplyDraft(req.params.id);
+      const persona = draft && await storage.getPersona(draft.personaId);
+      if (!draft || !persona) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this draft" });
+      }
+
+      const { draft: approved, delivered, outbound, toolExecutions } = await copilotService.approve(draft, req.user!.id, content);
+      res.json({
+        draft: approved,
+        deliveryStatus: delivered ? 'sent' : 'held',
+        moderation: delivered ? undefined : { reason: outbound.reason, violations: outbound.violations },
+        ...replyService.formatActions(toolExecutions),
+      });
+    } catch (error: any) {
+      res.status(error instanceof CopilotError ? error.status : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/drafts/:id/reject", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const { reason } = rejectDraftSchema.parse(req.body ?? {});
+      const draft = await storage.getReplyDraft(req.params.id);
+      const persona = draft && await storage.getPersona(draft.personaId);
+      if (!draft || !persona) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this draft" });
+      }
+
+      res.json(await copilotService.reject(draft, req.user!.id, reason));
+    } catch (error: any) {
+      res.status(error instanceof CopilotError ? error.status : 400).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // CONSENT MANAGEMENT
+  // =============
+
+  // Consent is recorded per creator: from the persona when given, else creatorId
+  // for admins, else the caller's own creator
+  const resolveConsentScope = async (req: Request, res: Response, input: { fanId: string; personaId?: string; creatorId?: string }) => {
+    const persona = input.personaId ? await storage.getPersona(input.personaId) : undefined;
+    if (input.personaId && !persona) {
+      res.status(404).json({ message: "Persona not found" });
+      return null;
+    }
+    const creatorId = persona?.creatorId ?? (req.user!.role === 'admin' ? input.creatorId : getScopedCreatorId(req.user!));
+    if (!creatorId) {
+      res.status(400).json({ message: "personaId or creatorId is required" });
+      return null;
+    }
+    if (!canAccessCreator(req.user!, creatorId)) {
+      res.status(403).json({ message: "Access denied for this creator" });
+      return null;
+    }
+    const fan = await storage.getFan(input.fanId);
+    if (!fan) {
+      res.status(404).json({ message: "Fan not found" });
+      return null;
+    }
+    if (!await canAccessFan(req.user!, fan.id)) {
+      res.status(403).json({ message: "Access denied for this fan" });
+      return null;
+    }
+    return { fan, creatorId, persona };
+  };
+
+  app.get("/api/consent/text/:creatorId", requireCreatorAccess(), async (req, res) => {
+    try {
+      res.json(await consentService.currentText(req.params.creatorId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Saving new wording prompts every fan who affirmed the previous one to affirm again
+  app.put("/api/consent/text/:creatorId", requireRole('creator'), requireCreatorAccess(), async (req, res) => {
+    try {
+      const wording = consentTextSchema.parse(req.body);
+      const { text, reaffirmationsQueued } = await consentService.updateText(req.params.creatorId, wording, req.user!.id);
+
+      await auditService.logAction('consent_text_updated', 'consent_text', text.id, {
+        creatorId: text.creatorId,
+        version: text.version,
+        reaffirmationsQueued,
+      }, req.user!.id);
+
+      res.json({ ...text, reaffirmationsQueued });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/consent/affirm", requireAuth, async (req, res) => {
+    try {
+      const input = consentAffirmSchema.parse(req.body);
+      const scope = await resolveConsentScope(req, res, input);
+      if (!scope) return;
+
+      // Older clients send the ticked statements; they must match the creator's current wording
+      const text = await consentService.currentText(scope.creatorId);
+      const normalize = (statement: string) => statement.trim().toLowerCase().replace(/\s+/g, ' ');
+      const ticked = (input.affirmations || []).map(normalize);
+
+      const record = await consentService.affirm({
+        ...scope,
+        ageAffirmed: input.ageAffirmed ?? ticked.includes(normalize(text.ageStatement)),
+        romanticContent: input.romanticContent ?? ticked.includes(normalize(text.romanticStatement)),
+        consentTextVersion: input.consentTextVersion,
+        channel: input.channel,
+        sourceMessageId: input.sourceMessageId,
+        recordedBy: req.user!.id,
+      });
+
+      res.json({
+        success: true,
+        consentStatus: {
+          ageAffirmed: record.ageAffirmed,
+          romanticContent: record.romanticContent,
+          timestamp: record.createdAt.toISOString(),
+        },
+        record,
+      });
+    } catch (error: any) {
+      res.status(error instanceof ConsentError ? error.status : 400).json({ message: error.message });
+    }
+  });
+
+  // Stops romantic content at once: the reply gate and the dispatcher both check the latest record
+  app.post("/api/consent/revoke", requireAuth, async (req, res) => {
+    try {
+      const input = consentRevokeSchema.parse(req.body);
+      const scope = await resolveConsentScope(req, res, input);
+      if (!scope) return;
+
+      const record = await consentService.revoke({
+        ...scope,
+        channel: input.channel,
+        sourceMessageId: input.sourceMessageId,
+        reason: input.reason,
+        recordedBy: req.user!.id,
+      });
+
+      res.json({ success: true, record });
+    } catch (error: any) {
+      res.status(error instanceof ConsentError ? error.status : 400).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // CONTENT MANAGEMENT
+  // =============
+
+  app.get("/api/content/creator/:creatorId", requireCreatorAccess(), async (req, res) => {
+    try {
+      const content = await storage.getContentItemsByCreator(req.params.creatorId);
+      res.json(content);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/content", requireRole('creator'), async (req, res) => {
+    try {
+      // Storage keys and variants are only assigned by the upload pipeline
+      const contentData = insertContentItemSchema.omit({ storageKey: true, variants: true }).parse(req.body);
+      if (!canAccessCreator(req.user!, contentData.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+      const content = await storage.createContentItem(contentData);
+      res.json(content);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  /**
+   * Multipart upload: send the title, priceCents and (for admins) creatorId
+   * fields before the single file part, since the file is streamed to
+   * storage as soon as it arrives.
+   */
+  app.post("/api/content/upload", requireRole('creator'), (req, res) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { files: 1, fields: 10, fileSize: Math.max(...Object.values(MAX_UPLOAD_BYTES)) + 1 },
+      });
+    } catch (error: any) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    const fields: Record<string, string> = {};
+    let upload: Promise<ContentItem> | null = null;
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (_name, file, info) => {
+      if (upload) {
+        file.resume();
+        return;
+      }
+
+      upload = (async () => {
+        const creatorId = req.user!.role === 'admin' ? fields.creatorId : getScopedCreatorId(req.user!);
+        if (!creatorId || !canAccessCreator(req.user!, creatorId)) {
+          throw new MediaUploadError("Access denied for this creator", 403);
+        }
+        const priceCents = fields.priceCents ? parseInt(fields.priceCents, 10) : 0;
+        if (!Number.isInteger(priceCents) || priceCents < 0) {
+          throw new MediaUploadError("priceCents must be a non-negative integer", 400);
+        }
+
+        return await mediaService.uploadContent(creatorId, {
+          title: fields.title || info.filename || 'Untitled',
+          stream: file,
+          declaredMimeType: info.mimeType,
+          priceCents,
+        }, req.user!.id);
+      })();
+
+      // Drain whatever was not consumed so the request can finish
+      upload.catch(() => file.resume());
+    });
+
+    parser.on('close', async () => {
+      if (!upload) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      try {
+        res.json(await upload);
+      } catch (error: any) {
+        res.status(error instanceof MediaUploadError ? error.status : 500).json({ message: error.message });
+      }
+    });
+
+    parser.on('error', (error: any) => {
+      if (!res.headersSent) {
+        res.status(400).json({ message: error.message });
+      }
+    });
+
+    req.pipe(parser);
+  });
+
+  app.get("/api/content/top/:creatorId", requireCreatorAccess(), async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 10;
+      const content = await storage.getTopPerformingContent(req.params.creatorId, limit);
+      res.json(content);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // MEDIA DELIVERY
+  // =============
+
+  // Thumbnails and other renditions for the creator's own library views
+  app.get("/api/content/:id/variants/:name", requireAuth, async (req, res) => {
+    try {
+      const content = await storage.getContentItem(req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+      if (!canAccessCreator(req.user!, content.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+
+      const rendition = await mediaService.getVariant(content, req.params.name);
+      if (!rendition) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.setHeader('Content-Type', rendition.variant.mimeType);
+      res.setHeader('Content-Length', rendition.object.size);
+      rendition.object.stream.on('error', (error) => {
+        console.error(`Error streaming variant ${req.params.name} of content ${content.id}:`, error);
+        res.destroy(error);
+      });
+      rendition.object.stream.pipe(res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Rebuilds thumbnails, previews and metadata, e.g. after a failed first attempt
+  app.post("/api/content/:id/variants", requireRole('creator'), async (req, res) => {
+    try {
+      const content = await storage.getContentItem(req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+      if (!canAccessCreator(req.user!, content.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+      if (!content.storageKey) {
+        return res.status(400).json({ message: "Only uploaded content has variants" });
+      }
+
+      res.json(await mediaService.generateVariants(content));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Public: the signed token is the credential
+  app.get("/media/:token", async (req, res) => {
+    try {
+      const access = await mediaService.openDelivery(req.params.token);
+      await auditService.logContentAccess(access.content.id, access.delivery.fanId, access.delivery.variant === 'preview' ? 'preview' : 'view');
+
+      res.setHeader('Cache-Control', 'private, no-store');
+      if (access.kind === 'external') {
+        return res.redirect(302, access.content.url);
+      }
+
+      res.setHeader('Content-Type', access.mimeType);
+      res.setHeader('Content-Length', access.object.size);
+      access.object.stream.on('error', (error) => {
+        console.error(`Error streaming content ${access.content.id}:`, error);
+        res.destroy(error);
+      });
+      access.object.stream.pipe(res);
+    } catch (error: any) {
+      if (error instanceof MediaAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/media/deliveries/:id/revoke", requireRole('creator'), async (req, res) => {
+    try {
+      const delivery = await storage.getMediaDelivery(req.params.id);
+      const content = delivery && await storage.getContentItem(delivery.contentId);
+      if (!delivery || !content) {
+        return res.status(404).json({ message: "Media delivery not found" });
+      }
+      if (!canAccessCreator(req.user!, content.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+
+      const revoked = await mediaService.revokeDelivery(delivery.id);
+      await auditService.logAction('media_delivery_revoked', 'media_delivery', delivery.id, {
+        contentId: content.id,
+      }, req.user!.id, delivery.fanId);
+
+      res.json(revoked);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Identifies which fan's delivery a leaked file came from. Accepts a
+  // multipart image (the embedded code is extracted) or JSON { code } for
+  // a code read off a leaked video's overlay.
+  app.post("/api/media/leak-lookup", requireRole('creator'), async (req, res) => {
+    try {
+      let source: { file?: Buffer; code?: string };
+      if (req.is('multipart/form-data')) {
+        source = {
+          file: await new Promise<Buffer | undefined>((resolve, reject) => {
+            const parser = busboy({ headers: req.headers, limits: { files: 1, fileSize: MAX_UPLOAD_BYTES.image } });
+            let file: Promise<Buffer> | undefined;
+            parser.on('file', (_name, stream) => {
+              file = (async () => {
+                const chunks: Buffer[] = [];
+                for await (const chunk of stream) chunks.push(chunk);
+                if (stream.truncated) {
+                  throw new MediaUploadError(`File exceeds the ${MAX_UPLOAD_BYTES.image / (1024 * 1024)}MB image limit`, 413);
+                }
+                return Buffer.concat(chunks);
+              })();
+            });
+            parser.on('close', () => (file ? file.then(resolve, reject) : resolve(undefined)));
+            parser.on('error', reject);
+            req.pipe(parser);
+          }),
+        };
+      } else {
+        source = { code: typeof req.body?.code === 'string' ? req.body.code : undefined };
+      }
+      if (!source.file && !source.code) {
+        return res.status(400).json({ message: "Upload a file or provide a watermark code" });
+      }
+
+      const { code, delivery } = await mediaService.traceLeak(source);
+      const content = delivery && await storage.getContentItem(delivery.contentId);
+      if (!delivery || !content || !canAccessCreator(req.user!, content.creatorId)) {
+        return res.status(404).json({
+          message: code ? "No delivery matches this watermark" : "No watermark found in this file",
+          code,
+        });
+      }
+
+      const fan = await storage.getFan(delivery.fanId);
+      await auditService.logAction('leak_traced', 'media_delivery', delivery.id, {
+        contentId: content.id,
+        code,
+        source: source.file ? 'file' : 'code',
+      }, req.user!.id, delivery.fanId);
+
+      res.json({
+        code,
+        delivery,
+        content: { id: content.id, title: content.title, type: content.type },
+        fan: fan ? { id: fan.id, handle: fan.handle, displayName: fan.displayName } : null,
+      });
+    } catch (error: any) {
+      res.status(error instanceof MediaUploadError ? error.status : 500).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // FAN MANAGEMENT
+  // =============
+
+  app.post("/api/fans", requireCreatorScope, async (req, res) => {
+    try {
+      const fanData = insertFanSchema.parse(req.body);
+      const fan = await storage.createFan(fanData);
+      res.json(fan);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/fans/:id", requireCreatorScope, async (req, res) => {
+    try {
+      const fan = await storage.getFan(req.params.id);
+      if (!fan) {
+        return res.status(404).json({ message: "Fan not found" });
+      }
+      if (!await canAccessFan(req.user!, fan.id)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+      res.json(fan);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/fans/:id", requireCreatorScope, async (req, res) => {
+    try {
+      const updates = insertFanSchema.partial().parse(req.body);
+      if (!await storage.getFan(req.params.id)) {
+        return res.status(404).json({ message: "Fan not found" });
+      }
+      if (!await canAccessFan(req.user!, req.params.id)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+      const fan = await storage.updateFan(req.params.id, updates);
+      res.json(fan);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Opt-out applies across creators, so any team the fan has talked to can see the history and record one
+  app.get("/api/fans/:id/opt-out", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const fan = await storage.getFan(req.params.id);
+      if (!fan) {
+        return res.status(404).json({ message: "Fan not found" });
+      }
+      if (!await canAccessFan(req.user!, fan.id)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+
+      res.json({
+        optedOut: optOutService.isOptedOut(fan),
+        optedOutAt: fan.optedOutAt,
+        events: await optOutService.history(fan.id),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // For opt-outs that reached the team another way (email, support ticket, platform report)
+  app.post("/api/fans/:id/opt-out", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const { channel, reason } = recordOptOutSchema.parse(req.body);
+      const fan = await storage.getFan(req.params.id);
+      if (!fan) {
+        return res.status(404).json({ message: "Fan not found" });
+      }
+      if (!await canAccessFan(req.user!, fan.id)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+
+      const updated = await optOutService.optOut(fan, {
+        channel,
+        reason,
+        creatorId: getScopedCreatorId(req.user!) ?? undefined,
+        recordedBy: req.user!.id,
+      });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // The fan's consent ledger with a creator, newest first, and whether it currently
+  // holds for the given persona (the creator's default when omitted)
+  app.get("/api/fans/:id/consent", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const creatorId = req.user!.role === 'admin' ? req.query.creatorId as string : getScopedCreatorId(req.user!);
+      if (!creatorId) {
+        return res.status(400).json({ message: "creatorId is required" });
+      }
+      const fan = await storage.getFan(req.params.id);
+      if (!fan) {
+        return res.status(404).json({ message: "Fan not found" });
+      }
+      if (!await canAccessFan(req.user!, fan.id)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+      const persona = req.query.personaId
+        ? await storage.getPersona(req.query.personaId as string)
+        : await storage.getPersonaByCreatorId(creatorId);
+      if (req.query.personaId && persona?.creatorId !== creatorId) {
+        return res.status(404).json({ message: "Persona not found" });
+      }
+
+      const records = await storage.getConsentRecords(fan.id, creatorId);
+      const text = await consentService.currentText(creatorId);
+      const evaluation = persona ? await consentService.evaluate(fan, persona) : undefined;
+      res.json({ records, state: evaluation?.state ?? null, consentText: text });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Fan memories are per creator; admins pick the creator with ?creatorId=
+  const fanMemoryInputSchema = insertFanMemorySchema.pick({ category: true, fact: true });
+
+  app.get("/api/fans/:id/memories", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const creatorId = req.user!.role === 'admin' ? req.query.creatorId as string : getScopedCreatorId(req.user!);
+      if (!creatorId) {
+        return res.status(400).json({ message: "creatorId is required" });
+      }
+      if (!await canAccessFan(req.user!, req.params.id)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+
+      res.json(await storage.getFanMemories(req.params.id, creatorId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/fans/:id/memories", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const input = fanMemoryInputSchema.parse(req.body);
+      const creatorId = req.user!.role === 'admin' ? req.body.creatorId : getScopedCreatorId(req.user!);
+      if (!creatorId) {
+        return res.status(400).json({ message: "creatorId is required" });
+      }
+      if (!await storage.getFan(req.params.id)) {
+        return res.status(404).json({ message: "Fan not found" });
+      }
+      if (!await canAccessFan(req.user!, req.params.id)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+
+      const memory = await storage.createFanMemory({
+        ...input,
+        fanId: req.params.id,
+        creatorId,
+        source: 'operator',
+        updatedBy: req.user!.id,
+      });
+      await auditService.logAction('fan_memory_created', 'fan_memory', memory.id, {
+        category: memory.category,
+        fact: memory.fact,
+      }, req.user!.id, memory.fanId);
+
+      res.status(201).json(memory);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/fans/:id/memories/:memoryId", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const updates = fanMemoryInputSchema.partial().parse(req.body);
+      const memory = await storage.getFanMemory(req.params.memoryId);
+      if (!memory || memory.fanId !== req.params.id) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      if (!canAccessCreator(req.user!, memory.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+
+      // Provenance is kept; updatedBy records who corrected it
+      const updated = await storage.updateFanMemory(memory.id, { ...updates, updatedBy: req.user!.id });
+      await auditService.logAction('fan_memory_updated', 'fan_memory', memory.id, {
+        before: { category: memory.category, fact: memory.fact },
+        after: { category: updated.category, fact: updated.fact },
+      }, req.user!.id, memory.fanId);
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/fans/:id/memories/:memoryId", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const memory = await storage.getFanMemory(req.params.memoryId);
+      if (!memory || memory.fanId !== req.params.id) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      if (!canAccessCreator(req.user!, memory.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+
+      await storage.deleteFanMemory(memory.id);
+      await auditService.logAction('fan_memory_deleted', 'fan_memory', memory.id, {
+        category: memory.category,
+        fact: memory.fact,
+        source: memory.source,
+      }, req.user!.id, memory.fanId);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // ANALYTICS & DASHBOARD
+  // =============
+
+  app.get("/api/dashboard/metrics/:creatorId", requireCreatorAccess(), async (req, res) => {
+    try {
+      const metrics = await storage.getDashboardMetrics(req.params.creatorId);
+      res.json(metrics);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Server-Sent Events for the dashboard: messages, moderation, payments and metric
+  // deltas for the caller's creator. Admins get every creator unless creatorId is given.
+  app.get("/api/events", requireCreatorScope, (req, res) => {
+    const creatorId = req.user!.role === 'admin'
+      ? (req.query.creatorId as string) || null
+      : getScopedCreatorId(req.user!);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write(`event: ready\ndata: ${JSON.stringify({ creatorId })}\n\n`);
+
+    const unsubscribe = liveEvents.subscribe(creatorId, (envelope) => {
+      res.write(`event: ${envelope.event.type}\ndata: ${JSON.stringify(envelope)}\n\n`);
+    });
+    // Comments keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 25000);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  app.get("/api/analytics/revenue/:creatorId", requireCreatorAccess(), async (req, res) => {
+    try {
+      const revenue = await storage.getRevenueByCreator(req.params.creatorId);
+      res.json(revenue);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admins get every creator unless creatorId is given
+  app.get("/api/analytics/safety", requireCreatorScope, async (req, res) => {
+    try {
+      const creatorId = req.user!.role === 'admin'
+        ? req.query.creatorId as string | undefined
+        : getScopedCreatorId(req.user!)!;
+      const complianceScore = await moderationService.getComplianceScore(creatorId);
+      const queue = await storage.getModerationQueue('pending', creatorId);
+
+      res.json({
+        complianceScore,
+        pendingReviews: queue.length,
+        totalModerated: (await storage.getModerationQueue(undefined, creatorId)).length,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // CONVERSATIONS & MESSAGES
+  // =============
+
+  app.get("/api/conversations/active/creator/:creatorId", requireCreatorAccess(), async (req, res) => {
+    try {
+      const conversations = await storage.getActiveConversationsByCreator(req.params.creatorId);
+
+      const conversationsWithFans = await Promise.all(
+        conversations.map(async (conv) => {
+          const fan = await storage.getFan(conv.fanId);
+          return { ...conv, fan };
+        })
+      );
+
+      res.json(conversationsWithFans);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/conversations/active/:personaId", requireAuth, async (req, res) => {
+    try {
+      const persona = await storage.getPersona(req.params.personaId);
+      if (!persona) {
+        return res.status(404).json({ message: "Persona not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this persona" });
+      }
+
+      const conversations = await storage.getActiveConversations(req.params.personaId);
+      
+      // Get fan details for each conversation
+      const conversationsWithFans = await Promise.all(
+        conversations.map(async (conv) => {
+          const fan = await storage.getFan(conv.fanId);
+          return { ...conv, fan };
+        })
+      );
+      
+      res.json(conversationsWithFans);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/messages/:conversationId", requireAuth, async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.conversationId);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      const messages = await storage.getConversationMessages(req.params.conversationId, limit);
+      res.json(messages);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Lets AI replies resume after an escalation paused the conversation
+  app.post("/api/conversations/:id/resume", requireRole('operator'), async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      const updated = await storage.updateConversation(conversation.id, {
+        mode: 'ai',
+        pausedAt: null,
+        pausedReason: null,
+      });
+      await auditService.logAction('conversation_resumed', 'conversation', conversation.id, {
+        previousPauseReason: conversation.pausedReason,
+      }, req.user!.id, conversation.fanId);
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Stops AI replies until an operator resumes the conversation; also ends any takeover
+  app.post("/api/conversations/:id/pause", requireRole('operator'), async (req, res) => {
+    try {
+      const { reason } = pauseConversationSchema.parse(req.body);
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      const updated = await storage.updateConversation(conversation.id, {
+        mode: 'paused',
+        pausedAt: new Date(),
+        pausedReason: reason,
+        heldBy: null,
+        heldAt: null,
+        humanActivityAt: null,
+      });
+      await auditService.logAction('conversation_paused', 'conversation', conversation.id, {
+        reason,
+        previousMode: takeoverService.modeOf(conversation),
+        previousHolder: conversation.heldBy,
+      }, req.user!.id, conversation.fanId);
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Current mode, idle release time and the fan messages waiting for the operator
+  app.get("/api/conversations/:id/takeover", requireRole('operator'), async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      res.json(await takeoverService.state(await takeoverService.releaseIfIdle(conversation)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Puts the requesting operator in charge; the AI stops replying until release
+  app.post("/api/conversations/:id/takeover", requireRole('operator'), async (req, res) => {
+    try {
+      const { force } = conversationTakeoverSchema.parse(req.body ?? {});
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      const held = await takeoverService.takeOver(conversation, req.user!.id, force);
+      res.json(await takeoverService.state(held));
+    } catch (error: any) {
+      res.status(error instanceof TakeoverError ? error.status : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/conversations/:id/release", requireRole('operator'), async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      const released = await takeoverService.release(conversation, 'manual', req.user!.id);
+      res.json(await takeoverService.state(released));
+    } catch (error: any) {
+      res.status(error instanceof TakeoverError ? error.status : 500).json({ message: error.message });
+    }
+  });
+
+  // Manual messages from the operator holding the conversation, checked by outbound moderation
+  app.post("/api/conversations/:id/operator-messages", requireRole('operator'), async (req, res) => {
+    try {
+      const { content } = operatorMessageSchema.parse(req.body);
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      const { message, delivered, outbound } = await takeoverService.sendOperatorMessage(conversation, persona, req.user!.id, content);
+      res.status(delivered ? 201 : 202).json({
+        message,
+        delivered,
+        moderation: delivered ? undefined : { reason: outbound.reason, violations: outbound.violations },
+      });
+    } catch (error: any) {
+      res.status(error instanceof TakeoverError ? error.status : 400).json({ message: error.message });
+    }
+  });
+
+  // Scheduled messages are sent by the dispatcher once scheduledAt passes
+  app.get("/api/conversations/:id/scheduled", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+
+      res.json(await storage.getScheduledMessagesForConversation(conversation.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/conversations/:id/scheduled", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const { content, scheduledAt } = scheduleMessageSchema.parse(req.body);
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      if (!conversation || !persona) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+      if (scheduledAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "scheduledAt must be in the future" });
+      }
+      const fan = await storage.getFan(conversation.fanId);
+      if (fan && optOutService.isOptedOut(fan)) {
+        return res.status(409).json({ message: "Fan has opted out of messages" });
+      }
+
+      // Flagged messages wait in the review queue; the dispatcher holds them until approved
+      const outbound = moderationService.moderateOutbound(content, persona);
+      if (outbound.action === 'block') {
+        return res.status(422).json({ message: "Message violates outbound rules", reason: outbound.reason });
+      }
+      const message = await storage.createMessage({
+        conversationId: conversation.id,
+        type: 'text',
+        content,
+        sender: 'ai',
+        moderationStatus: outbound.action === 'allow' ? 'approved' : 'pending',
+        scheduledAt,
+        dispatchStatus: 'scheduled',
+      });
+      liveEvents.messageCreated(message, persona.creatorId);
+      if (outbound.action !== 'allow') {
+        await moderationService.holdForReview(content, outbound, {
+          messageId: message.id,
+          fanId: conversation.fanId,
+          conversationId: conversation.id,
+          creatorId: persona.creatorId,
+        });
+      }
+
+      await auditService.logAction('message_scheduled', 'message', message.id, {
+        conversationId: conversation.id,
+        scheduledAt: scheduledAt.toISOString(),
+        moderation: outbound.action,
+      }, req.user!.id, conversation.fanId);
+
+      res.status(201).json(message);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Reschedules or edits a message that has not been sent; failed messages are retried afresh
+  app.patch("/api/conversations/:id/scheduled/:messageId", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const updates = rescheduleMessageSchema.parse(req.body);
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      const message = await storage.getMessage(req.params.messageId);
+      if (!conversation || !persona || !message || message.conversationId !== conversation.id || !message.dispatchStatus) {
+        return res.status(404).json({ message: "Scheduled message not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+      if (!['scheduled', 'failed'].includes(message.dispatchStatus)) {
+        return res.status(409).json({ message: `Message is already ${message.dispatchStatus}` });
+      }
+      if (message.dispatchLockedUntil && message.dispatchLockedUntil > new Date()) {
+        return res.status(409).json({ message: "Message is being sent" });
+      }
+      if (updates.scheduledAt && updates.scheduledAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "scheduledAt must be in the future" });
+      }
+
+      const outbound = updates.content ? moderationService.moderateOutbound(updates.content, persona) : undefined;
+      if (outbound?.action === 'block') {
+        return res.status(422).json({ message: "Message violates outbound rules", reason: outbound.reason });
+      }
+      const updated = await storage.updateMessage(message.id, {
+        ...updates,
+        ...(outbound && { moderationStatus: outbound.action === 'allow' ? 'approved' : 'pending' }),
+        dispatchStatus: 'scheduled',
+        dispatchAttempts: 0,
+        dispatchError: null,
+        nextAttemptAt: null,
+      });
+      if (outbound && outbound.action !== 'allow') {
+        await moderationService.holdForReview(updates.content!, outbound, {
+          messageId: message.id,
+          fanId: conversation.fanId,
+          conversationId: conversation.id,
+          creatorId: persona.creatorId,
+        });
+      }
+
+      await auditService.logAction('message_rescheduled', 'message', message.id, {
+        conversationId: conversation.id,
+        previousScheduledAt: message.scheduledAt?.toISOString() || null,
+        scheduledAt: updated.scheduledAt?.toISOString() || null,
+        contentChanged: !!updates.content,
+      }, req.user!.id, conversation.fanId);
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/conversations/:id/scheduled/:messageId", requireRole('creator', 'operator'), async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      const persona = conversation && await storage.getPersona(conversation.personaId);
+      const message = await storage.getMessage(req.params.messageId);
+      if (!conversation || !persona || !message || message.conversationId !== conversation.id || !message.dispatchStatus) {
+        return res.status(404).json({ message: "Scheduled message not found" });
+      }
+      if (!canAccessCreator(req.user!, persona.creatorId)) {
+        return res.status(403).json({ message: "Access denied for this conversation" });
+      }
+      if (!['scheduled', 'failed'].includes(message.dispatchStatus)) {
+        return res.status(409).json({ message: `Message is already ${message.dispatchStatus}` });
+      }
+      if (message.dispatchLockedUntil && message.dispatchLockedUntil > new Date()) {
+        return res.status(409).json({ message: "Message is being sent" });
+      }
+
+      const cancelled = await storage.updateMessage(message.id, { dispatchStatus: 'cancelled' });
+      await auditService.logAction('scheduled_message_cancelled', 'message', message.id, {
+        conversationId: conversation.id,
+      }, req.user!.id, conversation.fanId);
+
+      res.json(cancelled);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // =============
   // PAYMENTS (STRIPE)
   // =============
 
-  app.post("/api/create-payment-intent", async (req, res) => {
+  app.post("/api/create-payment-intent", requireAuth, async (req, res) => {
     try {
-      const { amountCents, fanId, creatorId, productType, metadata } = req.body;
-      
+      if (!stripe) {
+        return res.status(503).json({ message: "Stripe is not configured" });
+      }
+      const { fanId, creatorId, contentId, amountCents, productType, description } = createPaymentIntentSchema.parse(req.body);
+      if (!canAccessCreator(req.user!, creatorId)) {
+        return res.status(403).json({ message: "Access denied for this creator" });
+      }
+      if (!await canAccessFan(req.user!, fanId)) {
+        return res.status(403).json({ message: "Access denied for this fan" });
+      }
+
+      // Content is unlocked by any completed payment naming it, so its price and id come from the item itself
+      const content = contentId ? await storage.getContentItem(contentId) : undefined;
+      if (contentId && (!content || content.creatorId !== creatorId || !content.isActive || !content.priceCents)) {
+        return res.status(400).json({ message: "Content is not for sale from this creator" });
+      }
+      const amount = content?.priceCents || amountCents!;
+      const metadata: Record<string, any> = {
+        ...(description ? { description } : {}),
+        ...(content ? { contentId: content.id } : {}),
+      };
+
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: amountCents,
+        amount,
         currency: "usd",
         metadata: { fanId, creatorId, productType, ...metadata },
       });
@@ -478,7 +1765,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fanId,
         creatorId,
         stripePaymentIntentId: paymentIntent.id,
-        amountCents,
+        amountCents: amount,
         status: 'pending',
         productType,
         metadata,
@@ -486,101 +1773,290 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({ clientSecret: paymentIntent.client_secret });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Error creating payment intent: " + error.message });
     }
   });
 
-  // Stripe webhook handler
+  // Stripe webhook handler; verified against the raw body captured in index.ts
   app.post("/api/webhooks/stripe", async (req, res) => {
+    let event: Stripe.Event;
     try {
       const sig = req.headers['stripe-signature'] as string;
       const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
       
-      if (!webhookSecret) {
+      if (!webhookSecret || !stripe) {
         throw new Error('Missing STRIPE_WEBHOOK_SECRET');
       }
+      if (!Buffer.isBuffer(req.rawBody)) {
+        throw new Error('Missing raw request body');
+      }
+
+      event = stripe.webhooks.constructEvent(req.rawBody, sig, webhookSecret);
+    } catch (error: any) {
+      console.error('Stripe webhook error:', error);
+      return res.status(400).json({ message: error.message });
+    }
+
+    try {
+      const { duplicate } = await paymentService.handleWebhookEvent(event);
+      res.json({ received: true, duplicate });
+    } catch (error: any) {
+      // A 5xx makes Stripe retry the delivery
+      console.error(`Error processing Stripe event ${event.id}:`, error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // CHANNELS
+  // =============
+
+  // Access tokens never leave the server
+  const publicChannelAccount = ({ accessToken, ...account }: ChannelAccount) => ({
+    ...account,
+    hasAccessToken: !!accessToken,
+  });
 
-      const event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
+  app.get("/api/channels/accounts/:creatorId", requireCreatorAccess(), async (req, res) => {
+    try {
+      const accounts = await storage.getChannelAccountsByCreator(req.params.creatorId);
+      res.json(accounts.map(publicChannelAccount));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          const paymentIntent = event.data.object as Stripe.PaymentIntent;
-          await handlePaymentSuccess(paymentIntent);
-          break;
-        
-        case 'payment_intent.payment_failed':
-          const failedPayment = event.data.object as Stripe.PaymentIntent;
-          await handlePaymentFailed(failedPayment);
-          break;
+  // Connecting an account again updates it, e.g. with a fresh token or to deactivate it
+  app.put("/api/channels/:channel/accounts/:creatorId", requireRole('creator'), requireCreatorAccess(), async (req, res) => {
+    try {
+      if (!channelService.getAdapter(req.params.channel)) {
+        return res.status(404).json({ message: "Unknown channel" });
+      }
+      const input = channelAccountSchema.parse(req.body);
+      const account = await storage.upsertChannelAccount({
+        ...input,
+        creatorId: req.params.creatorId,
+        channel: req.params.channel,
+      });
+      if (!account) {
+        return res.status(409).json({ message: "Account is connected to another creator" });
       }
 
-      res.json({ received: true });
+      await auditService.logAction('channel_account_connected', 'channel_account', account.id, {
+        creatorId: account.creatorId,
+        channel: account.channel,
+        externalAccountId: account.externalAccountId,
+        isActive: account.isActive,
+      }, req.user!.id);
+
+      res.json(publicChannelAccount(account));
     } catch (error: any) {
-      console.error('Stripe webhook error:', error);
       res.status(400).json({ message: error.message });
     }
   });
 
-  async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
+  // The platform's challenge (X's CRC check), sent when the webhook is registered and periodically after
+  app.get("/api/webhooks/channels/:channel", (req, res) => {
+    const adapter = channelService.getAdapter(req.params.channel);
+    if (!adapter) {
+      return res.status(404).json({ message: "Unknown channel" });
+    }
     try {
-      // Find the payment record
-      const payments = await storage.getAuditLogs('payment', paymentIntent.id);
-      if (payments.length === 0) return;
-
-      // Update payment status
-      // Note: In a real implementation, you'd need to find the payment by stripe_payment_intent_id
-      // For now, we'll log the success
-      await auditService.logPayment(
-        paymentIntent.id,
-        paymentIntent.metadata.fanId || '',
-        paymentIntent.amount,
-        paymentIntent.metadata.productType || 'unknown',
-        'completed'
-      );
+      res.json(adapter.challenge(req.query));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      // TODO: Trigger content delivery, send thank you message, etc.
-    } catch (error) {
-      console.error('Error handling payment success:', error);
+  // Inbound DMs and receipts; verified against the raw body, acknowledged before replies are generated
+  app.post("/api/webhooks/channels/:channel", (req, res) => {
+    const adapter = channelService.getAdapter(req.params.channel);
+    if (!adapter) {
+      return res.status(404).json({ message: "Unknown channel" });
     }
-  }
 
-  async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+    let events;
     try {
-      await auditService.logPayment(
-        paymentIntent.id,
-        paymentIntent.metadata.fanId || '',
-        paymentIntent.amount,
-        paymentIntent.metadata.productType || 'unknown',
-        'failed'
-      );
-    } catch (error) {
-      console.error('Error handling payment failure:', error);
+      if (!Buffer.isBuffer(req.rawBody)) {
+        throw new Error('Missing raw request body');
+      }
+      if (!adapter.verifySignature(req.rawBody, req.headers)) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+      events = adapter.parseWebhook(req.body);
+    } catch (error: any) {
+      console.error(`${adapter.name} webhook error:`, error);
+      return res.status(400).json({ message: error.message });
     }
-  }
+
+    channelService.handleEventsInBackground(adapter, events);
+    res.json({ received: true, events: events.length });
+  });
 
   // =============
   // MODERATION
   // =============
 
-  app.get("/api/moderation/queue", async (req, res) => {
+  app.get("/api/moderation/queue", requireCreatorScope, async (req, res) => {
     try {
       const status = req.query.status as string;
-      const queue = await storage.getModerationQueue(status);
+      const creatorId = req.user!.role === 'admin'
+        ? req.query.creatorId as string | undefined
+        : getScopedCreatorId(req.user!) || undefined;
+      const queue = await storage.getModerationQueue(status, creatorId);
       res.json(queue);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/moderation/queue/:id", async (req, res) => {
+  // Items without a creator predate queue linking and are admin-only
+  const canReviewItem = (user: Express.User, item: ModerationQueue) =>
+    item.creatorId ? canAccessCreator(user, item.creatorId) : user.role === 'admin';
+
+  app.get("/api/moderation/queue/:id", requireAuth, async (req, res) => {
     try {
-      const { status, reviewedBy } = req.body;
-      const item = await storage.updateModerationQueue(req.params.id, {
-        status,
-        reviewedBy,
-        reviewedAt: new Date(),
-      });
-      res.json(item);
+      const item = await storage.getModerationQueueItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Moderation item not found" });
+      }
+      if (!canReviewItem(req.user!, item)) {
+        return res.status(403).json({ message: "Access denied for this moderation item" });
+      }
+
+      const [message, fan, conversation] = await Promise.all([
+        item.messageId ? storage.getMessage(item.messageId) : undefined,
+        item.fanId ? storage.getFan(item.fanId) : undefined,
+        item.conversationId ? storage.getConversation(item.conversationId) : undefined,
+      ]);
+      const recentMessages = conversation
+        ? await storage.getConversationMessages(conversation.id, 20)
+        : [];
+
+      res.json({ ...item, message, fan, conversation, recentMessages });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/moderation/queue/:id/review", requireRole('operator'), async (req, res) => {
+    try {
+      const review = moderationReviewSchema.parse(req.body);
+
+      const item = await storage.getModerationQueueItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Moderation item not found" });
+      }
+      if (!canReviewItem(req.user!, item)) {
+        return res.status(403).json({ message: "Access denied for this moderation item" });
+      }
+      if (item.status !== 'pending') {
+        return res.status(409).json({ message: `Moderation item already ${item.status}` });
+      }
+
+      // The reviewer is always the session user, never taken from the request
+      const updated = await moderationService.reviewQueueItem(item, review, req.user!.id);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(error instanceof ConsentError ? error.status : 400).json({ message: error.message });
+    }
+  });
+
+  // =============
+  // MODERATION RULES
+  // =============
+
+  // Global rules are admin-only; creator rules belong to that creator
+  const canManageRule = (user: Express.User, rule: { creatorId?: string | null }) =>
+    rule.creatorId ? canAccessCreator(user, rule.creatorId) : user.role === 'admin';
+
+  app.get("/api/moderation/rules", requireCreatorScope, async (req, res) => {
+    try {
+      const creatorId = req.user!.role === 'admin'
+        ? req.query.creatorId as string | undefined
+        : getScopedCreatorId(req.user!) || undefined;
+      const rules = await storage.getModerationRules(creatorId);
+      res.json(rules);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/moderation/rules", requireRole('creator'), async (req, res) => {
+    try {
+      const ruleData = insertModerationRuleSchema.parse(req.body);
+      if (!canManageRule(req.user!, ruleData)) {
+        return res.status(403).json({ message: "Access denied for this rule scope" });
+      }
+      moderationService.compileRule(ruleData);
+
+      const rule = await storage.createModerationRule({ ...ruleData, createdBy: req.user!.id });
+      await auditService.logModerationRuleChange(rule.id, req.user!.id, 'created', { rule });
+
+      res.json(rule);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/moderation/rules/:id", requireRole('creator'), async (req, res) => {
+    try {
+      const existing = await storage.getModerationRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Moderation rule not found" });
+      }
+      if (!canManageRule(req.user!, existing)) {
+        return res.status(403).json({ message: "Access denied for this rule scope" });
+      }
+
+      // Rules cannot move between global and creator scope
+      const { creatorId: _creatorId, ...updates } = insertModerationRuleSchema.partial().parse(req.body);
+      moderationService.compileRule({ ...existing, ...updates });
+
+      const rule = await storage.updateModerationRule(existing.id, updates);
+      await auditService.logModerationRuleChange(rule.id, req.user!.id, 'updated', { previous: existing, changes: updates });
+
+      res.json(rule);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/moderation/rules/:id", requireRole('creator'), async (req, res) => {
+    try {
+      const existing = await storage.getModerationRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Moderation rule not found" });
+      }
+      if (!canManageRule(req.user!, existing)) {
+        return res.status(403).json({ message: "Access denied for this rule scope" });
+      }
+
+      // Deactivate rather than delete so past results can still reference the rule
+      const rule = await storage.updateModerationRule(existing.id, { isActive: false });
+      await auditService.logModerationRuleChange(rule.id, req.user!.id, 'deactivated', { previous: existing });
+
+      res.json(rule);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Evaluates a sample message without touching the moderation queue
+  app.post("/api/moderation/rules/dry-run", requireAuth, async (req, res) => {
+    try {
+      const { content, creatorId } = z.object({
+        content: z.string().min(1),
+        creatorId: z.string().optional(),
+      }).parse(req.body);
+
+      const scopedCreatorId = req.user!.role === 'admin' ? creatorId : getScopedCreatorId(req.user!) || undefined;
+      const result = await moderationService.evaluateRules(content, scopedCreatorId);
+
+      res.json(result);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
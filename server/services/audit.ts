@@ -22,12 +22,13 @@ export class AuditService {
     }
   }
 
-  async logConversation(conversationId: string, messageId: string, aiResponse: string, fanMessage: string, moderationResult: any): Promise<void> {
+  async logConversation(conversationId: string, messageId: string, aiResponse: string, fanMessage: string, moderationResult: any, details: Record<string, any> = {}): Promise<void> {
     await this.logAction('ai_conversation', 'conversation', conversationId, {
       messageId,
       aiResponse: aiResponse.substring(0, 200), // Truncate for storage
       fanMessage: fanMessage.substring(0, 200),
       moderationResult,
+      ...details,
       timestamp: new Date().toISOString()
     });
   }
@@ -42,7 +43,7 @@ export class AuditService {
     }, undefined, fanId);
   }
 
-  async logContentAccess(contentId: string, fanId: string, accessType: 'view' | 'download' | 'purchase'): Promise<void> {
+  async logContentAccess(contentId: string, fanId: string, accessType: 'view' | 'preview' | 'download' | 'purchase'): Promise<void> {
     await this.logAction('content_access', 'content_item', contentId, {
       accessType,
       timestamp: new Date().toISOString()
@@ -56,6 +57,22 @@ export class AuditService {
     }, userId);
   }
 
+  async logModerationRuleChange(ruleId: string, userId: string, change: 'created' | 'updated' | 'deactivated', details: Record<string, any> = {}): Promise<void> {
+    await this.logAction('moderation_rule_changed', 'moderation_rule', ruleId, {
+      change,
+      ...details,
+      timestamp: new Date().toISOString()
+    }, userId);
+  }
+
+  async logPersonaRoutingRuleChange(ruleId: string, userId: string, change: 'created' | 'updated' | 'deleted', details: Record<string, any> = {}): Promise<void> {
+    await this.logAction('persona_routing_rule_changed', 'persona_routing_rule', ruleId, {
+      change,
+      ...details,
+      timestamp: new Date().toISOString()
+    }, userId);
+  }
+
   async logModerationAction(messageId: string, action: string, reason: string, severity: string, reviewedBy?: string): Promise<void> {
     await this.logAction('moderation_action', 'message', messageId, {
       action,
@@ -66,6 +83,23 @@ export class AuditService {
     }, reviewedBy);
   }
 
+  async logToolCallRejected(conversationId: string, fanId: string, toolName: string, reason: string, rawArguments: string): Promise<void> {
+    await this.logAction('tool_call_rejected', 'conversation', conversationId, {
+      toolName,
+      reason,
+      arguments: rawArguments.substring(0, 500), // Truncate for storage
+      timestamp: new Date().toISOString()
+    }, undefined, fanId);
+  }
+
+  // Security event for the dashboard's security feed; key is the throttled subject, e.g. "ip:1.2.3.4"
+  async logSuspiciousActivity(key: string, details: Record<string, any>, fanId?: string, request?: any): Promise<void> {
+    await this.logAction('suspicious_activity', 'rate_limit', key, {
+      ...details,
+      timestamp: new Date().toISOString()
+    }, request?.user?.id, fanId, request);
+  }
+
   async logFanInteraction(fanId: string, interactionType: string, details: Record<string, any> = {}): Promise<void> {
     await this.logAction('fan_interaction', 'fan', fanId, {
       interactionType,
@@ -0,0 +1,289 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { ChannelAccount } from "@shared/schema";
+
+export type ChannelName = 'x_dm' | 'mock';
+
+// What a webhook delivery carries, normalized across channels. accountId is the creator's account on the channel
+export type ChannelEvent =
+  | {
+    kind: 'message';
+    accountId: string;
+    externalId: string;
+    senderId: string;
+    senderHandle?: string;
+    senderName?: string;
+    text: string;
+    sentAt: Date;
+  }
+  | { kind: 'receipt'; accountId: string; externalId: string; status: 'delivered' | 'read'; at: Date };
+
+// The fan's copy of a content item, read from media storage; url is the fan's signed link to it
+export interface OutboundMedia {
+  data: Buffer;
+  mimeType: string;
+  url: string;
+  caption?: string;
+}
+
+export interface SentMessage {
+  externalId: string;
+}
+
+export interface ChannelAdapter {
+  readonly name: ChannelName;
+  // Answers the platform's webhook challenge (X's CRC check); throws if the query is not one
+  challenge(query: Record<string, unknown>): Record<string, string>;
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  // Maps a verified webhook body to inbound messages and receipts; anything else is dropped
+  parseWebhook(body: any): ChannelEvent[];
+  sendMessage(account: ChannelAccount, recipientId: string, text: string): Promise<SentMessage>;
+  sendMedia(account: ChannelAccount, recipientId: string, media: OutboundMedia): Promise<SentMessage>;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * X direct messages. Inbound events arrive through the Account Activity
+ * webhook, signed with the app's consumer secret; replies are sent with the
+ * v2 DM API using the connected account's OAuth 2.0 user token (dm.write,
+ * media.write). Images are uploaded as DM attachments; other media is sent
+ * as a link.
+ */
+export class XDmAdapter implements ChannelAdapter {
+  readonly name: ChannelName = 'x_dm';
+  private consumerSecret?: string;
+  private apiBaseUrl: string;
+
+  constructor(options: { consumerSecret?: string; apiBaseUrl?: string } = {}) {
+    this.consumerSecret = options.consumerSecret;
+    this.apiBaseUrl = options.apiBaseUrl || 'https://api.x.com';
+  }
+
+  challenge(query: Record<string, unknown>): Record<string, string> {
+    if (typeof query.crc_token !== 'string') {
+      throw new Error('Missing crc_token');
+    }
+    return { response_token: `sha256=${this.sign(query.crc_token)}` };
+  }
+
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+    const signature = headers['x-twitter-webhooks-signature'];
+    if (typeof signature !== 'string') return false;
+    return safeEqual(signature, `sha256=${this.sign(rawBody)}`);
+  }
+
+  parseWebhook(body: any): ChannelEvent[] {
+    const accountId = String(body?.for_user_id || '');
+    if (!accountId) return [];
+    const users: Record<string, { screen_name?: string; name?: string }> = body.users || {};
+    const events: ChannelEvent[] = [];
+
+    for (const event of body.direct_message_events || []) {
+      const senderId = event?.message_create?.sender_id;
+      // The account's own sends are echoed back; only the fan's side is inbound
+      if (event?.type !== 'message_create' || !senderId || senderId === accountId) continue;
+      events.push({
+        kind: 'message',
+        accountId,
+        externalId: String(event.id),
+        senderId: String(senderId),
+        senderHandle: users[senderId]?.screen_name,
+        senderName: users[senderId]?.name,
+        text: event.message_create.message_data?.text || '',
+        sentAt: new Date(Number(event.created_timestamp) || Date.now()),
+      });
+    }
+
+    for (const event of body.direct_message_mark_read_events || []) {
+      if (!event?.last_read_event_id || event.sender_id === accountId) continue;
+      events.push({
+        kind: 'receipt',
+        accountId,
+        externalId: String(event.last_read_event_id),
+        status: 'read',
+        at: new Date(Number(event.created_timestamp) || Date.now()),
+      });
+    }
+
+    return events;
+  }
+
+  async sendMessage(account: ChannelAccount, recipientId: string, text: string): Promise<SentMessage> {
+    return await this.sendDm(account, recipientId, { text });
+  }
+
+  async sendMedia(account: ChannelAccount, recipientId: string, media: OutboundMedia): Promise<SentMessage> {
+    if (!media.mimeType.startsWith('image/')) {
+      return await this.sendMessage(account, recipientId, [media.caption, media.url].filter(Boolean).join('\n'));
+    }
+
+    const form = new FormData();
+    form.append('media', new Blob([media.data], { type: media.mimeType }));
+    form.append('media_category', 'dm_image');
+    const upload = await this.request(account, '/2/media/upload', { method: 'POST', body: form });
+    const mediaId = upload?.data?.id;
+    if (!mediaId) {
+      throw new Error('X media upload returned no media id');
+    }
+
+    return await this.sendDm(account, recipientId, {
+      text: media.caption || undefined,
+      attachments: [{ media_id: String(mediaId) }],
+    });
+  }
+
+  private async sendDm(account: ChannelAccount, recipientId: string, payload: Record<string, unknown>): Promise<SentMessage> {
+    const result = await this.request(account, `/2/dm_conversations/with/${encodeURIComponent(recipientId)}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    const externalId = result?.data?.dm_event_id;
+    if (!externalId) {
+      throw new Error('X DM API returned no event id');
+    }
+    return { externalId: String(externalId) };
+  }
+
+  private async request(account: ChannelAccount, path: string, init: RequestInit): Promise<any> {
+    if (!account.accessToken) {
+      throw new Error(`X account ${account.externalAccountId} has no access token`);
+    }
+
+    const res = await fetch(`${this.apiBaseUrl}${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${account.accessToken}` },
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new Error(`X API ${res.status}: ${body?.detail || body?.title || res.statusText}`);
+    }
+    return body;
+  }
+
+  private sign(payload: string | Buffer): string {
+    if (!this.consumerSecret) {
+      throw new Error('Missing X_CONSUMER_SECRET');
+    }
+    return createHmac('sha256', this.consumerSecret).update(payload).digest('base64');
+  }
+}
+
+export interface MockSentMessage {
+  accountId: string;
+  recipientId: string;
+  externalId: string;
+  text?: string;
+  mediaUrl?: string;
+  mimeType?: string;
+  mediaBytes?: number;
+  at: Date;
+}
+
+/**
+ * In-process stand-in for X DMs for tests and local development. Its
+ * sender IDs are treated as X user IDs. Sends are recorded in outbox
+ * instead of leaving the process, and failNextSends simulates an outage.
+ * Webhooks are not signed, so it is only registered with MOCK_CHANNEL=on.
+ */
+export class MockChannelAdapter implements ChannelAdapter {
+  readonly name: ChannelName = 'mock';
+  readonly outbox: MockSentMessage[] = [];
+  private sequence = 0;
+  private failures = 0;
+
+  failNextSends(count = 1): void {
+    this.failures = count;
+  }
+
+  reset(): void {
+    this.outbox.length = 0;
+    this.failures = 0;
+  }
+
+  // Builds the event a fan's DM would produce, for handing to the channel service
+  inboundMessage(accountId: string, senderId: string, text: string, sender: { handle?: string; name?: string } = {}): ChannelEvent {
+    return {
+      kind: 'message',
+      accountId,
+      externalId: `mock-in-${++this.sequence}`,
+      senderId,
+      senderHandle: sender.handle,
+      senderName: sender.name,
+      text,
+      sentAt: new Date(),
+    };
+  }
+
+  receipt(accountId: string, externalId: string, status: 'delivered' | 'read'): ChannelEvent {
+    return { kind: 'receipt', accountId, externalId, status, at: new Date() };
+  }
+
+  challenge(query: Record<string, unknown>): Record<string, string> {
+    if (typeof query.crc_token !== 'string') {
+      throw new Error('Missing crc_token');
+    }
+    return { response_token: `mock=${query.crc_token}` };
+  }
+
+  verifySignature(): boolean {
+    return true;
+  }
+
+  // Accepts { events: ChannelEvent[] } as JSON, with dates as strings
+  parseWebhook(body: any): ChannelEvent[] {
+    const events: any[] = Array.isArray(body?.events) ? body.events : [];
+    return events.flatMap((event): ChannelEvent[] => {
+      if (event?.kind === 'message' && event.accountId && event.externalId && event.senderId) {
+        return [{ ...event, text: String(event.text || ''), sentAt: new Date(event.sentAt || Date.now()) }];
+      }
+      if (event?.kind === 'receipt' && event.accountId && event.externalId && (event.status === 'delivered' || event.status === 'read')) {
+        return [{ ...event, at: new Date(event.at || Date.now()) }];
+      }
+      return [];
+    });
+  }
+
+  async sendMessage(account: ChannelAccount, recipientId: string, text: string): Promise<SentMessage> {
+    return this.record({ accountId: account.externalAccountId, recipientId, text });
+  }
+
+  async sendMedia(account: ChannelAccount, recipientId: string, media: OutboundMedia): Promise<SentMessage> {
+    return this.record({
+      accountId: account.externalAccountId,
+      recipientId,
+      text: media.caption,
+      mediaUrl: media.url,
+      mimeType: media.mimeType,
+      mediaBytes: media.data.length,
+    });
+  }
+
+  private record(sent: Omit<MockSentMessage, 'externalId' | 'at'>): SentMessage {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Mock channel send failed');
+    }
+    const externalId = `mock-out-${++this.sequence}`;
+    this.outbox.push({ ...sent, externalId, at: new Date() });
+    return { externalId };
+  }
+}
+
+export function createChannelAdapters(): ChannelAdapter[] {
+  const adapters: ChannelAdapter[] = [
+    new XDmAdapter({
+      consumerSecret: process.env.X_CONSUMER_SECRET,
+      apiBaseUrl: process.env.X_API_BASE_URL,
+    }),
+  ];
+  if (process.env.MOCK_CHANNEL === 'on') {
+    adapters.push(new MockChannelAdapter());
+  }
+  return adapters;
+}
@@ -0,0 +1,242 @@
+import { ChannelAccount, Conversation, Fan, Message, Persona } from "@shared/schema";
+import { storage } from "../storage";
+import { replyService } from "./reply";
+import { copilotService } from "./copilot";
+import { personaRouter } from "./persona-router";
+import { rateLimiter } from "./rate-limit";
+import { optOutService } from "./opt-out";
+import { mediaService } from "./media";
+import { liveEvents } from "./live-events";
+import { messageDispatcher, DispatchTarget, MessageSender } from "./dispatcher";
+import { ChannelAdapter, ChannelEvent, SentMessage, createChannelAdapters } from "./channel-adapters";
+
+export type InboundOutcome = 'replied' | 'drafted' | 'gated' | 'rate_limited' | 'duplicate' | 'receipt' | 'ignored' | 'failed';
+
+type InboundMessage = Extract<ChannelEvent, { kind: 'message' }>;
+
+// Gate outcomes whose text is meant for the fan rather than for an API caller, by the message type they are stored as
+const FAN_FACING_ACTIONS: Record<string, string> = {
+  stop_processed: 'opt_out_notice',
+  start_processed: 'opt_out_notice',
+  consent_required: 'consent_prompt',
+};
+
+/**
+ * Connects external channels to the reply pipeline. Inbound DMs are mapped
+ * to a fan (by X user ID) and to the conversation with the persona the
+ * creator routes them to, which is then bound to the channel; every message
+ * released to the fan in a bound conversation goes out through its adapter.
+ */
+export class ChannelService implements MessageSender {
+  private adapters = new Map<string, ChannelAdapter>();
+
+  constructor(adapters: ChannelAdapter[]) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  // Replaces any adapter already registered under the same name
+  register(adapter: ChannelAdapter): void {
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  getAdapter(name: string): ChannelAdapter | undefined {
+    return this.adapters.get(name);
+  }
+
+  // Events are handled one at a time, in delivery order; one failing does not stop the rest
+  async handleEvents(adapter: ChannelAdapter, events: ChannelEvent[]): Promise<InboundOutcome[]> {
+    const outcomes: InboundOutcome[] = [];
+    for (const event of events) {
+      try {
+        outcomes.push(await this.handleEvent(adapter, event));
+      } catch (error) {
+        console.error(`Error handling ${adapter.name} event ${event.externalId}:`, error);
+        outcomes.push('failed');
+      }
+    }
+    return outcomes;
+  }
+
+  // Webhooks are acknowledged before replies are generated, so the platform does not time out and retry
+  handleEventsInBackground(adapter: ChannelAdapter, events: ChannelEvent[]): void {
+    this.handleEvents(adapter, events).catch(error => console.error(`Error handling ${adapter.name} webhook:`, error));
+  }
+
+  /**
+   * Sends a message through the channel its conversation is bound to; API-only
+   * conversations need no sending. Also the dispatcher's sender, so throwing
+   * marks the attempt failed.
+   */
+  async send(message: Message, { conversation, fan, persona }: DispatchTarget): Promise<void> {
+    if (!conversation.channel) return;
+
+    const adapter = this.adapters.get(conversation.channel);
+    if (!adapter) {
+      throw new Error(`Channel ${conversation.channel} is not configured`);
+    }
+    const account = await storage.getChannelAccountForCreator(persona.creatorId, conversation.channel);
+    if (!account) {
+      throw new Error(`No active ${conversation.channel} account for creator ${persona.creatorId}`);
+    }
+
+    const sent = message.type === 'media'
+      ? await this.sendMedia(adapter, account, fan, message.content)
+      : await adapter.sendMessage(account, fan.xUserId, message.content);
+    await storage.updateMessage(message.id, { externalId: sent.externalId });
+  }
+
+  // For messages just released to the fan. Never throws: a failed send is left to the dispatcher to retry
+  async deliver(message: Message, conversation: Conversation): Promise<void> {
+    if (!conversation.channel) return;
+
+    const fan = await storage.getFan(conversation.fanId);
+    const persona = await storage.getPersona(conversation.personaId);
+    if (!fan || !persona || optOutService.isOptedOut(fan)) return;
+
+    try {
+      await this.send(message, { conversation, fan, persona });
+    } catch (error: any) {
+      await messageDispatcher.retryLater(message, error)
+        .catch(retryError => console.error(`Failed to queue message ${message.id} for retry:`, retryError));
+    }
+  }
+
+  /**
+   * Media messages hold the fan's signed link. The file is read through the
+   * media service rather than the link, so the upload is the fan's
+   * watermarked copy and does not count as the fan opening it.
+   */
+  private async sendMedia(adapter: ChannelAdapter, account: ChannelAccount, fan: Fan, url: string): Promise<SentMessage> {
+    const token = mediaService.tokenFromUrl(url);
+    const access = token ? await mediaService.loadDelivery(token) : undefined;
+    if (!access || access.kind === 'external') {
+      return await adapter.sendMessage(account, fan.xUserId, url);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of access.object.stream) chunks.push(chunk);
+    return await adapter.sendMedia(account, fan.xUserId, { data: Buffer.concat(chunks), mimeType: access.mimeType, url });
+  }
+
+  private async handleEvent(adapter: ChannelAdapter, event: ChannelEvent): Promise<InboundOutcome> {
+    const account = await storage.getChannelAccount(adapter.name, event.accountId);
+    if (!account?.isActive) return 'ignored';
+
+    if (event.kind === 'receipt') {
+      await storage.recordMessageReceipt(event.externalId, event.status, event.at);
+      return 'receipt';
+    }
+    return await this.handleMessage(adapter, account, event);
+  }
+
+  // Mirrors the /api/ai/reply route, with replies sent to the fan instead of returned
+  private async handleMessage(adapter: ChannelAdapter, account: ChannelAccount, event: InboundMessage): Promise<InboundOutcome> {
+    if (!event.text.trim()) return 'ignored';
+    if (await storage.getMessageByExternalId(event.externalId)) return 'duplicate';
+
+    const fan = await this.resolveFan(event);
+    const decision = await personaRouter.route(fan, account.creatorId, { channel: adapter.name });
+    if (!decision) {
+      console.warn(`No active persona for creator ${account.creatorId}; dropping ${adapter.name} message ${event.externalId}`);
+      return 'ignored';
+    }
+    const { persona } = decision;
+
+    // Bound before gating, so anything sent from here on uses the channel
+    let conversation = await replyService.getOrCreateConversation(fan, persona);
+    if (conversation.channel !== adapter.name) {
+      conversation = await storage.updateConversation(conversation.id, { channel: adapter.name });
+    }
+
+    // The platform's servers are the caller, so only fan, persona and creator limits apply
+    if (!optOutService.parseKeyword(event.text)) {
+      const limit = await rateLimiter.check({ fanId: fan.id, personaId: persona.id, creatorId: persona.creatorId });
+      if (limit.limited) {
+        if (limit.scope === 'fan' && limit.firstHit) {
+          await this.reply(adapter, account, fan, await rateLimiter.slowDownReply(persona));
+        }
+        return 'rate_limited';
+      }
+    }
+
+    const gate = await replyService.gateInbound(persona, fan, event.text, adapter.name, event.externalId);
+    if (!gate.proceed) {
+      if (FAN_FACING_ACTIONS[gate.body.action]) {
+        await this.sendGateReply(conversation, fan, persona, gate.body.action, gate.body.message);
+      }
+      return 'gated';
+    }
+
+    const prepared = await replyService.prepare(persona, fan, gate);
+    if (copilotService.requiresApproval(persona, fan)) {
+      await copilotService.draft(prepared);
+      return 'drafted';
+    }
+
+    // complete() delivers the reply through the conversation's channel
+    const draft = await replyService.generate(prepared);
+    const { aiResponse, outbound, regenerations } = await replyService.reviewOutbound(prepared, draft);
+    await replyService.complete(prepared, aiResponse, {
+      outbound,
+      auditDetails: { regenerations, channel: adapter.name },
+    });
+    return 'replied';
+  }
+
+  // A fan's first DM creates them; a concurrent first DM may have got there first
+  private async resolveFan(event: InboundMessage): Promise<Fan> {
+    const existing = await storage.getFanByXUserId(event.senderId);
+    if (existing) return existing;
+
+    try {
+      return await storage.createFan({
+        xUserId: event.senderId,
+        handle: event.senderHandle ? `@${event.senderHandle}` : event.senderId,
+        displayName: event.senderName ?? null,
+      });
+    } catch (error) {
+      const created = await storage.getFanByXUserId(event.senderId);
+      if (!created) throw error;
+      return created;
+    }
+  }
+
+  /**
+   * Gate replies are stored in the conversation like any other message the
+   * fan receives. The STOP confirmation is the one message an opted-out fan
+   * still gets, so it is sent directly; the dispatcher would skip a retry.
+   */
+  private async sendGateReply(conversation: Conversation, fan: Fan, persona: Persona, action: string, text: string): Promise<void> {
+    const message = await storage.createMessage({
+      conversationId: conversation.id,
+      type: FAN_FACING_ACTIONS[action],
+      content: text,
+      sender: 'ai',
+      personaVersion: persona.version,
+      sentAt: new Date(),
+    });
+    liveEvents.messageCreated(message, persona.creatorId);
+
+    if (action !== 'stop_processed') {
+      await this.deliver(message, conversation);
+      return;
+    }
+    try {
+      await this.send(message, { conversation, fan, persona });
+    } catch (error) {
+      console.error(`Failed to send STOP confirmation to fan ${fan.id}:`, error);
+      await storage.updateMessage(message.id, { sentAt: null, dispatchStatus: 'failed' });
+    }
+  }
+
+  // Slow-down replies are sent but not stored, as on the API where they are only returned
+  private async reply(adapter: ChannelAdapter, account: ChannelAccount, fan: Fan, text: string): Promise<void> {
+    try {
+      await adapter.sendMessage(account, fan.xUserId, text);
+    } catch (error) {
+      console.error(`Failed to send ${adapter.name} reply to fan ${fan.id}:`, error);
+    }
+  }
+}
+
+export const channelService = new ChannelService(createChannelAdapters());
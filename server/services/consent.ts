@@ -0,0 +1,243 @@
+import { ConsentRecord, ConsentText, Fan, Persona } from "@shared/schema";
+import { storage } from "../storage";
+import { auditService } from "./audit";
+import { optOutService } from "./opt-out";
+import { liveEvents } from "./live-events";
+
+// Carries the HTTP status the consent routes should answer with
+export class ConsentError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export type CurrentConsentText = Pick<ConsentText, 'version' | 'prompt' | 'ageStatement' | 'romanticStatement'>;
+
+// Used until a creator saves their own wording
+export const DEFAULT_CONSENT_TEXT: CurrentConsentText = {
+  version: 0,
+  prompt: "Before we chat, I need to confirm you're 18+ and okay with receiving romantic messages. Are you over 18 and interested in flirty conversation? 💕",
+  ageStatement: "I am 18+",
+  romanticStatement: "I consent to romantic messages",
+};
+
+const REAFFIRM_PREFIX = "Our chat terms have been updated, so I need to check with you again.";
+
+// 'valid' is the only state in which romantic content may be sent
+export type ConsentState = 'valid' | 'missing' | 'incomplete' | 'revoked' | 'wording_changed' | 'disclosure_changed';
+
+export interface ConsentEvaluation {
+  state: ConsentState;
+  valid: boolean;
+  text: CurrentConsentText;
+  record?: ConsentRecord;
+}
+
+export interface ConsentActionInput {
+  fan: Fan;
+  creatorId: string;
+  // The persona whose disclosure the fan saw; defaults to the one they last talked to
+  persona?: Persona;
+  channel: string;
+  sourceMessageId?: string;
+  recordedBy?: string;
+}
+
+const sameDisclosure = (a: string | null | undefined, b: string | null | undefined) =>
+  (a ?? '').trim() === (b ?? '').trim();
+
+/**
+ * Consent is an append-only ledger per fan and creator. Only the latest
+ * record counts, and an affirmation stays valid while the creator's consent
+ * wording and the persona disclosure it was given against are unchanged.
+ */
+export class ConsentService {
+  async currentText(creatorId: string): Promise<CurrentConsentText> {
+    return await storage.getLatestConsentText(creatorId) ?? DEFAULT_CONSENT_TEXT;
+  }
+
+  async evaluate(fan: Fan, persona: Persona): Promise<ConsentEvaluation> {
+    const text = await this.currentText(persona.creatorId);
+    const record = await storage.getLatestConsentRecord(fan.id, persona.creatorId);
+    const result = (state: ConsentState): ConsentEvaluation => ({ state, valid: state === 'valid', text, record });
+
+    if (!record) return result('missing');
+    if (record.action === 'revoke') return result('revoked');
+    if (!record.ageAffirmed || !record.romanticContent) return result('incomplete');
+    if (record.consentTextVersion !== text.version) return result('wording_changed');
+    if (!sameDisclosure(record.disclosure, persona.disclosure)) return result('disclosure_changed');
+    return result('valid');
+  }
+
+  // What to send a fan whose consent is not valid: the disclosure followed by the creator's wording
+  promptFor(evaluation: Pick<ConsentEvaluation, 'state' | 'text'>, persona: Persona): string {
+    const reaffirm = evaluation.state === 'wording_changed' || evaluation.state === 'disclosure_changed';
+    return [
+      reaffirm ? REAFFIRM_PREFIX : null,
+      persona.disclosure?.trim() || null,
+      evaluation.text.prompt,
+    ].filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Records an affirmation against the current wording. consentTextVersion is
+   * the version the fan was shown; if the creator has changed the wording
+   * since, the fan has to be asked again.
+   */
+  async affirm(input: ConsentActionInput & {
+    ageAffirmed: boolean;
+    romanticContent: boolean;
+    consentTextVersion?: number;
+  }): Promise<ConsentRecord> {
+    const text = await this.currentText(input.creatorId);
+    if (input.consentTextVersion !== undefined && input.consentTextVersion !== text.version) {
+      throw new ConsentError("Consent wording has changed; ask the fan to affirm the current wording", 409);
+    }
+
+    const record = await this.record(input, {
+      action: 'affirm',
+      ageAffirmed: input.ageAffirmed,
+      romanticContent: input.romanticContent,
+      consentTextVersion: text.version,
+    });
+    await auditService.logFanInteraction(input.fan.id, 'consent_affirmed', {
+      consentRecordId: record.id,
+      creatorId: input.creatorId,
+      consentTextVersion: text.version,
+      ageAffirmed: record.ageAffirmed,
+      romanticContent: record.romanticContent,
+      channel: input.channel,
+    });
+    return record;
+  }
+
+  // Takes effect on the next gate check: replies and scheduled sends stop at once
+  async revoke(input: ConsentActionInput & { reason?: string }): Promise<ConsentRecord> {
+    const text = await this.currentText(input.creatorId);
+    const latest = await storage.getLatestConsentRecord(input.fan.id, input.creatorId);
+
+    const record = await this.record(input, {
+      action: 'revoke',
+      // Withdrawing consent to romantic content does not undo the age affirmation
+      ageAffirmed: latest?.ageAffirmed ?? false,
+      romanticContent: false,
+      consentTextVersion: text.version,
+      reason: input.reason ?? null,
+    });
+    await auditService.logFanInteraction(input.fan.id, 'consent_revoked', {
+      consentRecordId: record.id,
+      creatorId: input.creatorId,
+      channel: input.channel,
+      reason: input.reason,
+    });
+    return record;
+  }
+
+  // Saves new wording as the next version and re-prompts fans who affirmed the old one
+  async updateText(creatorId: string, wording: Pick<ConsentText, 'prompt' | 'ageStatement' | 'romanticStatement'>, createdBy?: string) {
+    const text = await storage.createConsentText({ creatorId, ...wording, createdBy });
+    const reaffirmationsQueued = await this.requestReaffirmation(creatorId);
+    return { text, reaffirmationsQueued };
+  }
+
+  // Fans who affirmed against the old disclosure have to be asked again
+  async reaffirmIfDisclosureChanged(before: Persona, after: Persona): Promise<number> {
+    if (sameDisclosure(before.disclosure, after.disclosure)) return 0;
+    return await this.requestReaffirmation(after.creatorId, after.id);
+  }
+
+  /**
+   * Queues a consent prompt, for immediate dispatch, in each active
+   * conversation whose fan had valid consent until the wording or the
+   * persona disclosure changed. A prompt still waiting to go out is
+   * rewritten instead. Returns how many prompts were queued.
+   */
+  async requestReaffirmation(creatorId: string, personaId?: string): Promise<number> {
+    const conversations = (await storage.getActiveConversationsByCreator(creatorId))
+      .filter(conversation => !personaId || conversation.personaId === personaId);
+    const personas = new Map<string, Persona | undefined>();
+    let queued = 0;
+
+    for (const conversation of conversations) {
+      if (!personas.has(conversation.personaId)) {
+        personas.set(conversation.personaId, await storage.getPersona(conversation.personaId));
+      }
+      const persona = personas.get(conversation.personaId);
+      const fan = await storage.getFan(conversation.fanId);
+      if (!persona || !fan || optOutService.isOptedOut(fan)) continue;
+
+      const evaluation = await this.evaluate(fan, persona);
+      if (evaluation.state !== 'wording_changed' && evaluation.state !== 'disclosure_changed') continue;
+
+      const content = this.promptFor(evaluation, persona);
+      const pending = (await storage.getScheduledMessagesForConversation(conversation.id))
+        .find(message => message.type === 'consent_prompt' && message.dispatchStatus === 'scheduled');
+      if (pending) {
+        await storage.updateMessage(pending.id, { content, personaVersion: persona.version });
+        continue;
+      }
+
+      const prompt = await storage.createMessage({
+        conversationId: conversation.id,
+        type: 'consent_prompt',
+        content,
+        sender: 'ai',
+        personaVersion: persona.version,
+        moderationStatus: 'approved',
+        scheduledAt: new Date(),
+        dispatchStatus: 'scheduled',
+      });
+      liveEvents.messageCreated(prompt, creatorId);
+      queued++;
+    }
+
+    return queued;
+  }
+
+  private async record(input: ConsentActionInput, entry: Pick<ConsentRecord, 'action' | 'ageAffirmed' | 'romanticContent' | 'consentTextVersion'> & { reason?: string | null }): Promise<ConsentRecord> {
+    const { fan, creatorId, channel, sourceMessageId, recordedBy } = input;
+    if (sourceMessageId) {
+      await this.assertSourceMessage(sourceMessageId, fan.id, creatorId);
+    }
+    const persona = input.persona ?? await this.currentPersona(fan.id, creatorId);
+
+    const record = await storage.createConsentRecord({
+      ...entry,
+      fanId: fan.id,
+      creatorId,
+      personaId: persona?.id ?? null,
+      disclosure: persona?.disclosure ?? null,
+      channel,
+      sourceMessageId: sourceMessageId ?? null,
+      recordedBy: recordedBy ?? null,
+    });
+
+    // fans.consentStatus mirrors the fan's most recent consent action for list views; the gate reads the ledger
+    await storage.updateFan(fan.id, {
+      consentStatus: {
+        ageAffirmed: record.ageAffirmed,
+        romanticContent: record.romanticContent,
+        timestamp: record.createdAt.toISOString(),
+      },
+    });
+    return record;
+  }
+
+  private async currentPersona(fanId: string, creatorId: string): Promise<Persona | undefined> {
+    const conversation = await storage.getLatestConversationForFan(fanId, creatorId);
+    const persona = conversation && await storage.getPersona(conversation.personaId);
+    return persona || await storage.getPersonaByCreatorId(creatorId);
+  }
+
+  // The source message must be one the fan sent to this creator
+  private async assertSourceMessage(messageId: string, fanId: string, creatorId: string): Promise<void> {
+    const message = await storage.getMessage(messageId);
+    const conversation = message && await storage.getConversation(message.conversationId);
+    const persona = conversation && await storage.getPersona(conversation.personaId);
+    if (!message || message.sender !== 'fan' || conversation?.fanId !== fanId || persona?.creatorId !== creatorId) {
+      throw new ConsentError("sourceMessageId must be a message from this fan to this creator", 400);
+    }
+  }
+}
+
+export const consentService = new ConsentService();
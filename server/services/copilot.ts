@@ -0,0 +1,212 @@
+import { Fan, Persona, ReplyDraft } from "@shared/schema";
+import { storage } from "../storage";
+import { llmService } from "./llm";
+import { moderationService, OutboundModerationResult } from "./moderation";
+import { auditService } from "./audit";
+import { memoryService } from "./memory";
+import { optOutService } from "./opt-out";
+import { consentService } from "./consent";
+import { takeoverService } from "./takeover";
+import { liveEvents } from "./live-events";
+import { channelService } from "./channels";
+import { replyService, PreparedReply } from "./reply";
+import { toolRegistry, ToolExecution } from "./tools";
+
+// Carries the HTTP status the draft routes should answer with
+export class CopilotError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export interface ApprovedDraft {
+  draft: ReplyDraft;
+  // Whether the sent message may be shown to the fan; flagged text is held for review
+  delivered: boolean;
+  outbound: OutboundModerationResult;
+  toolExecutions: ToolExecution[];
+}
+
+const MAX_CANDIDATES = 3;
+
+/**
+ * Character-level Levenshtein distance between a draft and the text that was
+ * sent, kept for prompt tuning. Uses two rows, so memory stays linear.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Co-pilot mode: for the personas and fan spend tiers it is switched on for,
+ * the AI drafts one or more candidate replies instead of answering. An
+ * operator approves one (optionally edited) or rejects them; only approved
+ * text reaches the fan.
+ */
+export class CopilotService {
+  // With no spendTiers configured, every fan of the persona gets drafts
+  requiresApproval(persona: Persona, fan: Fan): boolean {
+    const config = persona.copilotConfig;
+    if (!config?.enabled) return false;
+    return !config.spendTiers?.length || config.spendTiers.includes(fan.spendTier || 'free');
+  }
+
+  async draft(prepared: PreparedReply): Promise<ReplyDraft[]> {
+    const { persona, fan, conversation, inboundMessage } = prepared;
+    const count = Math.min(Math.max(persona.copilotConfig?.candidates ?? 1, 1), MAX_CANDIDATES);
+
+    const candidates = await Promise.all(Array.from({ length: count }, () => replyService.generate(prepared)));
+    const drafts = await storage.createReplyDrafts(candidates.map((candidate, index) => {
+      const outbound = replyService.reviewWithoutRegeneration(prepared, candidate.message);
+      return {
+        conversationId: conversation.id,
+        fanId: fan.id,
+        personaId: persona.id,
+        personaVersion: persona.version,
+        inboundMessageId: inboundMessage.id,
+        candidateIndex: index,
+        content: candidate.message,
+        toolCalls: candidate.toolCalls || [],
+        moderation: {
+          action: outbound.action,
+          reason: outbound.reason,
+          violations: outbound.violations.map(violation => violation.rule),
+        },
+      };
+    }));
+
+    await auditService.logAction('reply_drafted', 'message', inboundMessage.id, {
+      conversationId: conversation.id,
+      draftIds: drafts.map(draft => draft.id),
+      personaVersion: persona.version,
+    }, undefined, fan.id);
+    return drafts;
+  }
+
+  /**
+   * Sends the draft, or content in its place, as the AI's reply. The sent
+   * text goes through outbound moderation again: blocked text is refused
+   * and anything else flagged is held for review. The draft's tool calls run
+   * only if the reply is delivered.
+   */
+  async approve(draft: ReplyDraft, reviewerId: string, content?: string): Promise<ApprovedDraft> {
+    if (draft.status !== 'pending') {
+      throw new CopilotError(`Draft is already ${draft.status}`, 409);
+    }
+    const conversation = await storage.getConversation(draft.conversationId);
+    const persona = await storage.getPersona(draft.personaId);
+    const fan = await storage.getFan(draft.fanId);
+    const inboundMessage = await storage.getMessage(draft.inboundMessageId);
+    if (!conversation || !persona || !fan || !inboundMessage) {
+      throw new CopilotError("Conversation no longer exists", 404);
+    }
+    if (optOutService.isOptedOut(fan)) {
+      throw new CopilotError("Fan has opted out; no messages can be sent", 409);
+    }
+    if (takeoverService.modeOf(conversation) !== 'ai') {
+      throw new CopilotError("Conversation is paused or handled by an operator", 409);
+    }
+    // Consent may have been revoked while the draft waited for review
+    if (!(await consentService.evaluate(fan, persona)).valid) {
+      throw new CopilotError("Fan's consent is no longer valid; the draft cannot be sent", 409);
+    }
+
+    const sentText = content ?? draft.content;
+    const requireDisclosure = replyService.requiresDisclosure(await storage.getConversationMessages(conversation.id, 20));
+    const moderated = moderationService.moderateOutbound(sentText, persona, { requireDisclosure });
+    const outbound: OutboundModerationResult = moderated.action === 'regenerate' ? { ...moderated, action: 'hold' } : moderated;
+    if (outbound.action === 'block') {
+      throw new CopilotError(`Reply blocked by moderation: ${outbound.reason}`, 422);
+    }
+
+    const distance = editDistance(draft.content, sentText);
+    const approved = await storage.approveReplyDraft(draft.id, { sentText, editDistance: distance, reviewedBy: reviewerId });
+    if (!approved) {
+      throw new CopilotError("Another candidate for this message was already reviewed", 409);
+    }
+
+    const delivered = outbound.action === 'allow';
+    const message = await storage.createMessage({
+      conversationId: conversation.id,
+      type: 'text',
+      content: sentText,
+      sender: 'ai',
+      personaVersion: draft.personaVersion,
+      moderationStatus: delivered ? 'approved' : 'pending',
+      sentAt: delivered ? new Date() : null,
+    });
+    liveEvents.messageCreated(message, persona.creatorId);
+    if (delivered) {
+      await channelService.deliver(message, conversation);
+    } else {
+      await moderationService.holdForReview(sentText, outbound, {
+        messageId: message.id,
+        fanId: fan.id,
+        conversationId: conversation.id,
+        creatorId: persona.creatorId,
+      });
+    }
+
+    await storage.updateConversation(conversation.id, {
+      lastMessageAt: new Date(),
+      sentiment: await llmService.analyzeSentiment(inboundMessage.content),
+    });
+    memoryService.refreshInBackground(conversation, persona.creatorId);
+
+    await auditService.logAction('reply_draft_approved', 'message', message.id, {
+      draftId: draft.id,
+      conversationId: conversation.id,
+      edited: sentText !== draft.content,
+      editDistance: distance,
+      outboundModeration: outbound.action,
+    }, reviewerId, fan.id);
+
+    // Tool calls the model made alongside an edited draft still run; the reviewer saw them
+    const toolExecutions = delivered
+      ? await toolRegistry.executeAll(draft.toolCalls || [], {
+        persona,
+        fan,
+        conversationId: conversation.id,
+        fanMessage: inboundMessage.content,
+        fanMessageId: inboundMessage.id,
+      })
+      : [];
+
+    return {
+      draft: await storage.updateReplyDraft(approved.id, { messageId: message.id }),
+      delivered,
+      outbound,
+      toolExecutions,
+    };
+  }
+
+  // A fan message whose candidates are all rejected goes unanswered
+  async reject(draft: ReplyDraft, reviewerId: string, reason?: string): Promise<ReplyDraft> {
+    const rejected = await storage.rejectReplyDraft(draft.id, { reviewedBy: reviewerId, reviewReason: reason ?? null });
+    if (!rejected) {
+      throw new CopilotError("Draft was already reviewed", 409);
+    }
+
+    await auditService.logAction('reply_draft_rejected', 'message', draft.inboundMessageId, {
+      draftId: draft.id,
+      conversationId: draft.conversationId,
+      reason,
+    }, reviewerId, draft.fanId);
+    return rejected;
+  }
+}
+
+export const copilotService = new CopilotService();
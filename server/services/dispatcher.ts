@@ -0,0 +1,184 @@
+import { Conversation, Fan, Message, Persona } from "@shared/schema";
+import { storage } from "../storage";
+import { moderationService } from "./moderation";
+import { auditService } from "./audit";
+import { optOutService } from "./opt-out";
+import { takeoverService } from "./takeover";
+
+export interface DispatchTarget {
+  conversation: Conversation;
+  fan: Fan;
+  persona: Persona;
+}
+
+// Hands a due message to the channel the fan is reached on; throwing marks the attempt failed
+export interface MessageSender {
+  send(message: Message, target: DispatchTarget): Promise<void>;
+}
+
+// Without an outbound channel, a message is delivered once it is marked sent
+const inAppSender: MessageSender = {
+  async send() {},
+};
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 30;
+// How long a claimed message stays locked to the instance sending it
+const LEASE_SECONDS = 120;
+// Messages waiting on review, a paused conversation or an operator's hold are checked again after this
+const DEFER_SECONDS = 300;
+const BATCH_SIZE = 25;
+const DEFAULT_INTERVAL_MS = 15000;
+
+type DispatchOutcome = 'sent' | 'deferred' | 'skipped' | 'retrying' | 'failed';
+
+// Sent without consent: prompts are how a fan is asked again, STOP/START confirmations answer the
+// fan directly, and purchase deliveries are owed once the fan has paid
+const CONSENT_EXEMPT_TYPES = new Set(['consent_prompt', 'opt_out_notice', 'media', 'purchase_thanks']);
+
+/**
+ * Sends messages whose scheduledAt has passed. Each tick claims a batch of
+ * due messages under a short lease, so several server instances can run the
+ * dispatcher side by side without double-sending.
+ */
+export class MessageDispatcher {
+  private sender: MessageSender = inAppSender;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  setSender(sender: MessageSender): void {
+    this.sender = sender;
+  }
+
+  start(intervalMs = parseInt(process.env.MESSAGE_DISPATCH_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Error dispatching scheduled messages:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Processes one batch; overlapping ticks on the same instance are skipped
+  async tick(): Promise<Record<DispatchOutcome, number>> {
+    const counts: Record<DispatchOutcome, number> = { sent: 0, deferred: 0, skipped: 0, retrying: 0, failed: 0 };
+    if (this.running) return counts;
+
+    this.running = true;
+    try {
+      const claimed = await storage.claimDueScheduledMessages(BATCH_SIZE, LEASE_SECONDS);
+      for (const message of claimed) {
+        counts[await this.dispatch(message)]++;
+      }
+    } finally {
+      this.running = false;
+    }
+    return counts;
+  }
+
+  private async dispatch(message: Message): Promise<DispatchOutcome> {
+    const conversation = await storage.getConversation(message.conversationId);
+    const fan = conversation && await storage.getFan(conversation.fanId);
+    const persona = conversation && await storage.getPersona(conversation.personaId);
+    if (!conversation || !fan || !persona) {
+      return await this.skip(message, 'Conversation no longer exists');
+    }
+
+    // Re-checked at send time: any of these may have changed since scheduling
+    if (optOutService.isOptedOut(fan)) {
+      return await this.skip(message, 'Fan has opted out');
+    }
+    if (!CONSENT_EXEMPT_TYPES.has(message.type) && !await moderationService.checkConsentGate(fan, persona)) {
+      return await this.skip(message, 'Fan has not given consent');
+    }
+    if (message.moderationStatus === 'blocked') {
+      return await this.skip(message, 'Message was blocked by moderation');
+    }
+    // Scheduled AI messages wait while an operator holds the conversation
+    if (message.moderationStatus === 'pending' || takeoverService.modeOf(conversation) !== 'ai') {
+      await storage.updateMessage(message.id, {
+        nextAttemptAt: new Date(Date.now() + DEFER_SECONDS * 1000),
+        dispatchLockedUntil: null,
+      });
+      return 'deferred';
+    }
+
+    try {
+      await this.sender.send(message, { conversation, fan, persona });
+    } catch (error: any) {
+      return await this.fail(message, error);
+    }
+
+    const sentAt = new Date();
+    await storage.updateMessage(message.id, {
+      dispatchStatus: 'sent',
+      sentAt,
+      dispatchAttempts: message.dispatchAttempts + 1,
+      dispatchLockedUntil: null,
+      dispatchError: null,
+    });
+    await storage.updateConversation(conversation.id, { lastMessageAt: sentAt });
+    await auditService.logAction('scheduled_message_sent', 'message', message.id, {
+      conversationId: conversation.id,
+      scheduledAt: message.scheduledAt?.toISOString() || null,
+      attempts: message.dispatchAttempts + 1,
+    }, undefined, fan.id);
+    return 'sent';
+  }
+
+  // Queues a message whose immediate channel send failed, so it is retried with the same backoff
+  async retryLater(message: Message, error: Error): Promise<DispatchOutcome> {
+    const queued = await storage.updateMessage(message.id, {
+      sentAt: null,
+      scheduledAt: message.scheduledAt ?? new Date(),
+      dispatchStatus: 'scheduled',
+      dispatchLockedUntil: null,
+    });
+    return await this.fail(queued, error);
+  }
+
+  private async skip(message: Message, reason: string): Promise<DispatchOutcome> {
+    await storage.updateMessage(message.id, {
+      dispatchStatus: 'skipped',
+      dispatchError: reason,
+      dispatchLockedUntil: null,
+    });
+    await auditService.logAction('scheduled_message_skipped', 'message', message.id, {
+      conversationId: message.conversationId,
+      reason,
+    });
+    return 'skipped';
+  }
+
+  // Exponential backoff: 30s, 60s, 120s... until MAX_ATTEMPTS is reached
+  private async fail(message: Message, error: Error): Promise<DispatchOutcome> {
+    const attempts = message.dispatchAttempts + 1;
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    console.error(`Scheduled message ${message.id} failed (attempt ${attempts}):`, error);
+
+    await storage.updateMessage(message.id, {
+      dispatchStatus: exhausted ? 'failed' : 'scheduled',
+      dispatchAttempts: attempts,
+      dispatchError: error.message,
+      dispatchLockedUntil: null,
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + RETRY_BASE_SECONDS * 2 ** (attempts - 1) * 1000),
+    });
+
+    if (exhausted) {
+      await auditService.logAction('scheduled_message_failed', 'message', message.id, {
+        conversationId: message.conversationId,
+        attempts,
+        error: error.message,
+      });
+    }
+    return exhausted ? 'failed' : 'retrying';
+  }
+}
+
+export const messageDispatcher = new MessageDispatcher();
@@ -0,0 +1,48 @@
+import { spawn } from "child_process";
+
+export interface ProbeResult {
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+}
+
+// Binaries come from FFMPEG_PATH/FFPROBE_PATH, falling back to the PATH
+function run(binary: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args);
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', exitCode => {
+      if (exitCode === 0) resolve(stdout);
+      else reject(new Error(`${binary} exited with code ${exitCode}: ${stderr.trim()}`));
+    });
+  });
+}
+
+export async function runFfmpeg(args: string[]): Promise<void> {
+  await run(process.env.FFMPEG_PATH || 'ffmpeg', ['-y', '-loglevel', 'error', ...args]);
+}
+
+// Dimensions come from the first video stream; audio-only files have none
+export async function probeMedia(inputPath: string): Promise<ProbeResult> {
+  const output = await run(process.env.FFPROBE_PATH || 'ffprobe', [
+    '-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', inputPath,
+  ]);
+  const probe = JSON.parse(output);
+  const video = (probe.streams || []).find((stream: any) => stream.codec_type === 'video');
+  const duration = parseFloat(probe.format?.duration);
+
+  return {
+    width: video?.width,
+    height: video?.height,
+    durationSeconds: Number.isFinite(duration) ? duration : undefined,
+  };
+}
+
+// Writes a single frame as an image; outputPath's extension picks the format
+export async function extractFrame(inputPath: string, outputPath: string, atSeconds: number): Promise<void> {
+  await runFfmpeg(['-ss', String(atSeconds), '-i', inputPath, '-frames:v', '1', outputPath]);
+}
@@ -0,0 +1,161 @@
+import { ContentItem, Conversation, Fan, Message, Payment, Persona } from "@shared/schema";
+import { storage } from "../storage";
+import { llmService } from "./llm";
+import { mediaService, PreparedDelivery } from "./media";
+import { moderationService } from "./moderation";
+import { replyService } from "./reply";
+import { auditService } from "./audit";
+import { memoryService } from "./memory";
+import { personaRouter } from "./persona-router";
+import { optOutService } from "./opt-out";
+import { liveEvents } from "./live-events";
+import { channelService } from "./channels";
+
+// Lifetime net spend (in cents) needed for each tier, highest first
+const SPEND_TIERS: Array<{ tier: string; minCents: number }> = [
+  { tier: 'vip', minCents: 25000 },
+  { tier: 'premium', minCents: 5000 },
+  { tier: 'free', minCents: 0 },
+];
+
+export function spendTierFor(lifetimeCents: number): string {
+  return SPEND_TIERS.find(({ minCents }) => lifetimeCents >= minCents)?.tier || 'free';
+}
+
+export interface FulfillmentResult {
+  paymentId: string;
+  conversationId: string;
+  contentItemId?: string;
+  messages: Message[];
+}
+
+interface ResolvedPurchase {
+  label: string;
+  contentItem?: ContentItem;
+}
+
+/**
+ * Delivers a completed purchase into the fan's conversation: the purchased
+ * media (if any) followed by a thank-you in the persona's voice. Purchases
+ * by opted-out fans are still recorded, but nothing is sent to them.
+ */
+export class FulfillmentService {
+  async fulfill(payment: Payment): Promise<FulfillmentResult | null> {
+    if (payment.fulfilledAt) return null;
+
+    const fan = await storage.getFan(payment.fanId);
+    const persona = fan && await this.resolvePersona(payment, fan);
+    if (!fan || !persona) {
+      console.warn(`Cannot fulfill payment ${payment.id}: fan or persona not found`);
+      return null;
+    }
+
+    const conversation = await this.resolveConversation(payment, fan, persona);
+    const purchase = await this.resolvePurchase(payment);
+    const optedOut = optOutService.isOptedOut(fan);
+
+    const deliveries: Array<{ type: string; content: string; sender: string; personaVersion?: number }> = [];
+    // The link's delivery is stored with the messages, so a lost race for the payment leaves no stray link
+    let media: PreparedDelivery | null = null;
+    if (purchase.contentItem && !optedOut) {
+      media = await mediaService.prepareDelivery(purchase.contentItem.id, {
+        fanId: fan.id,
+        paymentId: payment.id,
+      });
+      if (media) {
+        deliveries.push({ type: 'media', content: media.url, sender: 'ai' });
+      } else {
+        console.warn(`Content ${purchase.contentItem.id} for payment ${payment.id} is no longer available`);
+      }
+    }
+
+    if (!optedOut) {
+      deliveries.push({
+        type: 'purchase_thanks',
+        content: await this.thankYou(persona, fan, purchase.label),
+        sender: 'ai',
+        personaVersion: persona.version,
+      });
+    }
+
+    const fulfilled = await storage.fulfillPurchase({
+      paymentId: payment.id,
+      fanId: fan.id,
+      conversationId: conversation.id,
+      messages: deliveries,
+      contentItemId: purchase.contentItem?.id,
+      mediaDelivery: media?.delivery,
+      resolveSpendTier: spendTierFor,
+    });
+
+    // Another delivery of the same webhook got there first
+    if (!fulfilled) return null;
+    const { messages } = fulfilled;
+    if (media && fulfilled.mediaDelivery) {
+      await mediaService.deliveryStored(media.content, fulfilled.mediaDelivery, { trackDelivery: true });
+    }
+    for (const message of messages) {
+      liveEvents.messageCreated(message, persona.creatorId);
+      await channelService.deliver(message, conversation);
+    }
+
+    await memoryService.rememberPurchase(payment, purchase.label);
+
+    await auditService.logAction('purchase_fulfilled', 'payment', payment.id, {
+      conversationId: conversation.id,
+      contentItemId: purchase.contentItem?.id || null,
+      messageIds: messages.map(message => message.id),
+      suppressedForOptOut: optedOut,
+      timestamp: new Date().toISOString()
+    }, undefined, fan.id);
+
+    return {
+      paymentId: payment.id,
+      conversationId: conversation.id,
+      contentItemId: purchase.contentItem?.id,
+      messages,
+    };
+  }
+
+  // The persona that offered the purchase, else whichever one the fan is routed to
+  private async resolvePersona(payment: Payment, fan: Fan): Promise<Persona | undefined> {
+    const personaId = payment.metadata?.personaId;
+    const persona = personaId ? await storage.getPersona(personaId) : undefined;
+    if (persona && persona.creatorId === payment.creatorId) return persona;
+
+    return (await personaRouter.route(fan, payment.creatorId))?.persona;
+  }
+
+  private async resolveConversation(payment: Payment, fan: Fan, persona: Persona): Promise<Conversation> {
+    const conversationId = payment.metadata?.conversationId;
+    const conversation = conversationId ? await storage.getConversation(conversationId) : undefined;
+    if (conversation && conversation.fanId === fan.id && conversation.personaId === persona.id) {
+      return conversation;
+    }
+
+    return await replyService.getOrCreateConversation(fan, persona);
+  }
+
+  // Payments created for a library item carry its contentId; menu and custom purchases only have a label
+  private async resolvePurchase(payment: Payment): Promise<ResolvedPurchase> {
+    const metadata = payment.metadata || {};
+    const contentItem = metadata.contentId ? await storage.getContentItem(metadata.contentId) : undefined;
+
+    if (contentItem && contentItem.creatorId === payment.creatorId) {
+      return { label: contentItem.title, contentItem };
+    }
+
+    return { label: metadata.description || payment.productType.replace(/_/g, ' ') };
+  }
+
+  // Falls back to a plain template if the generated thanks fails outbound moderation
+  private async thankYou(persona: Persona, fan: Fan, label: string): Promise<string> {
+    const message = await llmService.generateThankYou(persona, fan, label);
+    const outbound = moderationService.moderateOutbound(message, persona);
+    return outbound.action === 'allow'
+      ? message
+      : `Thank you so much for your purchase, ${fan.displayName || fan.handle}! 💕`;
+  }
+}
+
+export const fulfillmentService = new FulfillmentService();
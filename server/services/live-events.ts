@@ -0,0 +1,160 @@
+import { EventEmitter } from "events";
+import type { PoolClient } from "@neondatabase/serverless";
+import { Message } from "@shared/schema";
+import { pool } from "../db";
+
+export type EventTransportName = 'memory' | 'postgres';
+
+// Dashboard metrics that change by a known amount, so clients can patch them without refetching
+export type MetricKey = 'totalRevenue' | 'messagesSentToday' | 'moderatedToday' | 'blockedToday';
+
+export type LiveEvent =
+  | {
+    type: 'message.created';
+    conversationId: string;
+    messageId: string;
+    sender: string;
+    messageType: string;
+    // Short excerpt; clients fetch the full message if they need it
+    preview: string;
+    moderationStatus: string | null;
+  }
+  | { type: 'moderation.queued'; itemId: string; conversationId: string | null; severity: string; flagReason: string }
+  | { type: 'moderation.escalated'; itemId: string | null; conversationId: string | null; reason: string; paused: boolean }
+  | { type: 'payment.updated'; paymentId: string; fanId: string; status: string; amountCents: number }
+  | { type: 'metrics.delta'; delta: Partial<Record<MetricKey, number>> };
+
+export interface LiveEnvelope {
+  // Events without a creator only reach subscribers watching every creator (admins)
+  creatorId: string | null;
+  event: LiveEvent;
+  at: string;
+}
+
+const PREVIEW_LENGTH = 280;
+const CHANNEL = 'live_events';
+const RECONNECT_MS = 5000;
+
+// Carries events between publishers and the SSE connections subscribed to them
+export interface EventTransport {
+  readonly name: EventTransportName;
+  publish(envelope: LiveEnvelope): Promise<void>;
+  // Starts delivering every published envelope, from any instance the transport reaches
+  listen(deliver: (envelope: LiveEnvelope) => void): Promise<void>;
+}
+
+// Events stay on the instance that published them
+export class MemoryEventTransport implements EventTransport {
+  readonly name: EventTransportName = 'memory';
+  private deliver: ((envelope: LiveEnvelope) => void) | null = null;
+
+  async publish(envelope: LiveEnvelope): Promise<void> {
+    this.deliver?.(envelope);
+  }
+
+  async listen(deliver: (envelope: LiveEnvelope) => void): Promise<void> {
+    this.deliver = deliver;
+  }
+}
+
+// LISTEN/NOTIFY, so operators see events raised by webhooks or the dispatcher on other instances
+export class PostgresEventTransport implements EventTransport {
+  readonly name: EventTransportName = 'postgres';
+  private client: PoolClient | null = null;
+
+  async publish(envelope: LiveEnvelope): Promise<void> {
+    await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, JSON.stringify(envelope)]);
+  }
+
+  async listen(deliver: (envelope: LiveEnvelope) => void): Promise<void> {
+    const client = await pool.connect();
+    this.client = client;
+
+    client.on('notification', (notification) => {
+      if (notification.channel !== CHANNEL || !notification.payload) return;
+      try {
+        deliver(JSON.parse(notification.payload));
+      } catch (error) {
+        console.error('Ignoring malformed live event:', error);
+      }
+    });
+    // A dropped listener connection is replaced; events raised meanwhile are lost
+    client.on('error', (error) => {
+      console.error('Live event listener failed, reconnecting:', error);
+      if (this.client === client) {
+        this.client = null;
+        client.release(error);
+        setTimeout(() => {
+          this.listen(deliver).catch(retryError => console.error('Live event listener reconnect failed:', retryError));
+        }, RECONNECT_MS).unref();
+      }
+    });
+
+    await client.query(`LISTEN ${CHANNEL}`);
+  }
+}
+
+export function createEventTransport(): EventTransport {
+  const transport = (process.env.EVENT_TRANSPORT as EventTransportName) || 'memory';
+
+  switch (transport) {
+    case 'memory':
+      return new MemoryEventTransport();
+    case 'postgres':
+      return new PostgresEventTransport();
+    default:
+      throw new Error(`Unknown event transport: ${transport}`);
+  }
+}
+
+/**
+ * Fan-out of dashboard events to the creator they belong to. Publishing
+ * never fails the caller: a lost event only means a client refreshes on its
+ * next poll instead of at once.
+ */
+export class LiveEventService {
+  private emitter = new EventEmitter();
+  private listening: Promise<void> | null = null;
+
+  constructor(private transport: EventTransport) {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(creatorId: string | null | undefined, event: LiveEvent): void {
+    const envelope: LiveEnvelope = { creatorId: creatorId ?? null, event, at: new Date().toISOString() };
+    this.transport.publish(envelope).catch(error => console.error(`Failed to publish ${event.type}:`, error));
+  }
+
+  // Pass null to receive every creator's events
+  subscribe(creatorId: string | null, listener: (envelope: LiveEnvelope) => void): () => void {
+    if (!this.listening) {
+      this.listening = this.transport.listen(envelope => this.emitter.emit('event', envelope)).catch(error => {
+        console.error('Failed to start live event listener:', error);
+        this.listening = null;
+      });
+    }
+
+    const handler = (envelope: LiveEnvelope) => {
+      if (creatorId === null || envelope.creatorId === creatorId) listener(envelope);
+    };
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  messageCreated(message: Message, creatorId: string): void {
+    this.publish(creatorId, {
+      type: 'message.created',
+      conversationId: message.conversationId,
+      messageId: message.id,
+      sender: message.sender,
+      messageType: message.type,
+      preview: message.content.slice(0, PREVIEW_LENGTH),
+      moderationStatus: message.moderationStatus,
+    });
+    this.publish(creatorId, { type: 'metrics.delta', delta: { messagesSentToday: 1 } });
+  }
+}
+
+export const liveEvents = new LiveEventService(createEventTransport());
@@ -0,0 +1,291 @@
+import OpenAI from "openai";
+import { zodFunction } from "openai/helpers/zod";
+import { readFileSync } from "fs";
+import type { z } from "zod";
+
+export type LLMProviderName = 'openai' | 'local' | 'fake';
+
+// What the completion is for; lets the fake provider answer in the right shape
+export type CompletionPurpose = 'reply' | 'summary' | 'sentiment' | 'memory';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A function the model may call; fields that can be omitted must be .nullable()
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: z.ZodObject<any>;
+}
+
+// Raw, unvalidated call as returned by the model
+export interface ProviderToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface CompletionRequest {
+  purpose: CompletionPurpose;
+  messages: ChatMessage[];
+  model?: string;
+  json?: boolean;
+  tools?: ToolSpec[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  toolCalls: ProviderToolCall[];
+}
+
+export interface StreamHandlers {
+  onToken(token: string): void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Emits content tokens as they arrive and resolves with the full result; rejects when aborted
+  stream(request: CompletionRequest, handlers: StreamHandlers): Promise<CompletionResult>;
+}
+
+export interface LLMProviderConfig {
+  provider?: LLMProviderName;
+  model?: string;
+}
+
+/**
+ * OpenAI chat completions. Also serves any OpenAI-compatible endpoint
+ * (vLLM, Ollama, LM Studio...) when constructed with a baseURL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  private client: OpenAI;
+  private defaultModel: string;
+
+  constructor(options: { name?: LLMProviderName; apiKey?: string; baseURL?: string; model: string }) {
+    this.name = options.name || 'openai';
+    this.defaultModel = options.model;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || "your-openai-key-here",
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model || this.defaultModel;
+    const response = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      model,
+    });
+
+    const message = response.choices[0].message;
+    return {
+      content: message.content || '',
+      model: response.model || model,
+      toolCalls: (message.tool_calls || []).flatMap(call =>
+        call.type === 'function'
+          ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }]
+          : []
+      ),
+    };
+  }
+
+  async stream(request: CompletionRequest, handlers: StreamHandlers): Promise<CompletionResult> {
+    const model = request.model || this.defaultModel;
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      model,
+      stream: true,
+    }, { signal: handlers.signal });
+
+    let content = '';
+    let responseModel = model;
+    // Tool call fragments arrive keyed by index and are concatenated as they stream
+    const toolCalls: ProviderToolCall[] = [];
+
+    for await (const chunk of stream) {
+      responseModel = chunk.model || responseModel;
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        handlers.onToken(delta.content);
+      }
+
+      for (const fragment of delta.tool_calls || []) {
+        const call = toolCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+
+    return { content, model: responseModel, toolCalls: toolCalls.filter(Boolean) };
+  }
+
+  private buildParams(request: CompletionRequest) {
+    const hasTools = !!request.tools?.length;
+    return {
+      messages: request.messages,
+      response_format: request.json ? { type: "json_object" as const } : undefined,
+      tools: hasTools
+        ? request.tools!.map(tool => zodFunction({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        }))
+        : undefined,
+      parallel_tool_calls: hasTools ? true : undefined,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    };
+  }
+}
+
+export type FakeScriptEntry = string | {
+  content?: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, any> | string }>;
+};
+
+export type FakeScript = Partial<Record<CompletionPurpose, FakeScriptEntry[]>>;
+
+/**
+ * Deterministic, network-free provider for CI and local development.
+ * Scripted responses are returned in order per purpose; once a script runs
+ * out, canned responses derived from the last user message are used.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'fake';
+  private script: FakeScript;
+  private cursors: Record<CompletionPurpose, number> = { reply: 0, summary: 0, sentiment: 0, memory: 0 };
+
+  constructor(script: FakeScript = {}) {
+    this.script = script;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const scripted = this.script[request.purpose];
+    const cursor = this.cursors[request.purpose];
+    if (scripted && cursor < scripted.length) {
+      this.cursors[request.purpose] = cursor + 1;
+      return this.fromScript(scripted[cursor], cursor);
+    }
+
+    return { content: this.cannedResponse(request), model: 'fake', toolCalls: [] };
+  }
+
+  private fromScript(entry: FakeScriptEntry, cursor: number): CompletionResult {
+    if (typeof entry === 'string') {
+      return { content: entry, model: 'fake-scripted', toolCalls: [] };
+    }
+
+    return {
+      content: entry.content || '',
+      model: 'fake-scripted',
+      toolCalls: (entry.toolCalls || []).map((call, index) => ({
+        id: `fake_call_${cursor}_${index}`,
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+      })),
+    };
+  }
+
+  async stream(request: CompletionRequest, handlers: StreamHandlers): Promise<CompletionResult> {
+    const result = await this.complete(request);
+
+    // Replay word by word so clients exercise the same incremental path as real providers
+    for (const token of result.content.match(/\S+\s*/g) || []) {
+      if (handlers.signal?.aborted) {
+        throw new Error('Stream aborted');
+      }
+      handlers.onToken(token);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return result;
+  }
+
+  reset(): void {
+    this.cursors = { reply: 0, summary: 0, sentiment: 0, memory: 0 };
+  }
+
+  private cannedResponse(request: CompletionRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(msg => msg.role === 'user')?.content || '';
+
+    switch (request.purpose) {
+      case 'summary':
+        return JSON.stringify({ summary: `Conversation covering: ${lastUserMessage.substring(0, 80)}` });
+      case 'sentiment':
+        return JSON.stringify({ sentiment: 'neutral' });
+      case 'memory':
+        return JSON.stringify({ facts: [] });
+      case 'reply':
+      default:
+        return `Your AI companion here, thanks for your message! You said: "${lastUserMessage.substring(0, 100)}" 💕`;
+    }
+  }
+}
+
+function defaultModelFor(provider: LLMProviderName): string {
+  // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+  return provider === 'openai' ? "gpt-4o" : "default";
+}
+
+// Process-wide defaults, overridable per persona via persona.llmConfig
+export function getDefaultProviderConfig(): LLMProviderConfig & { provider: LLMProviderName; baseUrl?: string } {
+  return {
+    provider: (process.env.LLM_PROVIDER as LLMProviderName) || 'openai',
+    model: process.env.LLM_MODEL,
+    baseUrl: process.env.LLM_BASE_URL,
+  };
+}
+
+function loadFakeScript(): FakeScript {
+  const scriptPath = process.env.LLM_FAKE_SCRIPT;
+  if (!scriptPath) return {};
+
+  try {
+    return JSON.parse(readFileSync(scriptPath, 'utf8'));
+  } catch (error) {
+    console.error('Failed to load fake LLM script:', error);
+    return {};
+  }
+}
+
+export function createLLMProvider(config: LLMProviderConfig = {}): LLMProvider {
+  const defaults = getDefaultProviderConfig();
+  const provider = config.provider || defaults.provider;
+  const model = config.model || defaults.model || defaultModelFor(provider);
+
+  switch (provider) {
+    case 'fake':
+      return new FakeProvider(loadFakeScript());
+    case 'local': {
+      const baseURL = defaults.baseUrl;
+      if (!baseURL) {
+        throw new Error('LLM_BASE_URL must be set to use the local LLM provider');
+      }
+      return new OpenAIProvider({
+        name: 'local',
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        baseURL,
+        model,
+      });
+    }
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY,
+        model,
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
@@ -1,18 +1,21 @@
-import OpenAI from "openai";
-import { Persona, Fan, Message } from "@shared/schema";
-import { storage } from "../storage";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "your-openai-key-here"
-});
+import { z } from "zod";
+import { Persona, Fan, FanMemory, FanMemoryCategory, Message, FAN_MEMORY_CATEGORIES } from "@shared/schema";
+import {
+  createLLMProvider,
+  type LLMProvider,
+  type LLMProviderConfig,
+  type ChatMessage,
+  type CompletionResult,
+  type ProviderToolCall,
+  type CompletionRequest,
+  type StreamHandlers,
+} from "./llm-providers";
+import { toolRegistry } from "./tools";
 
 export interface AIResponse {
   message: string;
-  toolCalls?: Array<{
-    type: 'offer_menu' | 'create_payment_link' | 'send_media' | 'escalate';
-    data: any;
-  }>;
+  // Unvalidated; run through toolRegistry.executeAll before acting on them
+  toolCalls?: ProviderToolCall[];
 }
 
 export interface ChatContext {
@@ -20,63 +23,163 @@ export interface ChatContext {
   fan: Fan;
   recentMessages: Message[];
   threadSummary?: string;
+  // Long-term facts about the fan relevant to this message
+  memories?: FanMemory[];
+  // Corrections from outbound moderation when a previous draft was rejected
+  guidance?: string[];
+}
+
+export interface ExtractedFact {
+  category: FanMemoryCategory;
+  fact: string;
+  // The message the fact was stated in, when the model could point to one
+  messageId?: string;
 }
 
+const extractedFactSchema = z.object({
+  category: z.enum(FAN_MEMORY_CATEGORIES),
+  fact: z.string().trim().min(1).max(500),
+  messageIndex: z.number().int().nullish(),
+});
+
 export class LLMService {
+  private defaultProvider: LLMProvider | null;
+  private providerCache = new Map<string, LLMProvider>();
+  private readonly fallbackMessage = "Sorry, I'm having trouble responding right now. Let me try again in a moment! 💕";
+
+  // Pass a provider to pin every call to it (e.g. a FakeProvider in tests)
+  constructor(provider?: LLMProvider) {
+    this.defaultProvider = provider || null;
+  }
+
+  setProvider(provider: LLMProvider): void {
+    this.defaultProvider = provider;
+    this.providerCache.clear();
+  }
+
+  /**
+   * Checks a persona's model settings before they are saved or used. The
+   * fake provider answers with canned text, so it is refused in production.
+   */
+  assertUsableConfig(config?: LLMProviderConfig | null): void {
+    if (config?.provider === 'fake' && process.env.NODE_ENV === 'production') {
+      throw new Error('The fake LLM provider is not available in production');
+    }
+  }
+
+  private getProvider(persona?: Persona): { provider: LLMProvider; model?: string } {
+    const override: LLMProviderConfig = persona?.llmConfig || {};
+    this.assertUsableConfig(override);
+
+    if (this.defaultProvider && !override.provider) {
+      return { provider: this.defaultProvider, model: override.model };
+    }
+
+    // Personas sharing settings share a client; any difference gets its own
+    const config = { provider: override.provider, model: override.model };
+    const key = JSON.stringify(config);
+    let provider = this.providerCache.get(key);
+    if (!provider) {
+      provider = createLLMProvider(config);
+      this.providerCache.set(key, provider);
+    }
+    return { provider, model: override.model };
+  }
+
   async generateResponse(context: ChatContext, userMessage: string): Promise<AIResponse> {
+    try {
+      const { provider, model } = this.getProvider(context.persona);
+      const response = await provider.complete({ ...this.buildReplyRequest(context, userMessage), model });
+      return this.parseAIResponse(response);
+    } catch (error) {
+      console.error('LLM provider error:', error);
+      return {
+        message: this.fallbackMessage,
+        toolCalls: []
+      };
+    }
+  }
+
+  /**
+   * Streaming variant of generateResponse. Provider failures before any
+   * token was sent fall back to the canned apology; aborts are rethrown so
+   * the caller can persist the partial reply.
+   */
+  async streamResponse(context: ChatContext, userMessage: string, handlers: StreamHandlers): Promise<AIResponse> {
+    let streamedAny = false;
+    try {
+      const { provider, model } = this.getProvider(context.persona);
+      const response = await provider.stream({ ...this.buildReplyRequest(context, userMessage), model }, {
+        ...handlers,
+        onToken: (token) => {
+          streamedAny = true;
+          handlers.onToken(token);
+        },
+      });
+      return this.parseAIResponse(response);
+    } catch (error) {
+      if (handlers.signal?.aborted || streamedAny) throw error;
+
+      console.error('LLM provider error:', error);
+      handlers.onToken(this.fallbackMessage);
+      return {
+        message: this.fallbackMessage,
+        toolCalls: []
+      };
+    }
+  }
+
+  private buildReplyRequest(context: ChatContext, userMessage: string): CompletionRequest {
     const { persona, fan, recentMessages } = context;
     
     // Build conversation history
     const messageHistory = recentMessages
       .slice(-10) // Last 10 messages for context
       .reverse() // Chronological order
-      .map(msg => ({
-        role: msg.sender === 'ai' ? 'assistant' : 'user',
+      .map((msg): ChatMessage => ({
+        role: msg.sender === 'fan' ? 'user' : 'assistant',
         content: msg.content
       }));
 
-    const systemPrompt = this.buildSystemPrompt(persona, fan);
-    
-    try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemPrompt },
-          ...messageHistory as any,
-          { role: "user", content: userMessage }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.8,
-        max_tokens: 500,
-      });
-
-      const aiResponse = JSON.parse(response.choices[0].message.content || '{}');
-      return this.parseAIResponse(aiResponse);
-    } catch (error) {
-      console.error('OpenAI API error:', error);
-      return {
-        message: "Sorry, I'm having trouble responding right now. Let me try again in a moment! 💕",
-        toolCalls: []
-      };
+    let systemPrompt = this.buildSystemPrompt(persona, fan, context);
+    if (context.guidance?.length) {
+      systemPrompt += `\n\nYOUR PREVIOUS DRAFT WAS REJECTED. Rewrite it without these problems:\n${context.guidance.map(item => `- ${item}`).join('\n')}`;
     }
+
+    return {
+      purpose: 'reply',
+      messages: [
+        { role: "system", content: systemPrompt },
+        ...messageHistory,
+        { role: "user", content: userMessage }
+      ],
+      tools: toolRegistry.specs(),
+      temperature: 0.8,
+      maxTokens: 500,
+    };
   }
 
-  private buildSystemPrompt(persona: Persona, fan: Fan): string {
+  private buildSystemPrompt(persona: Persona, fan: Fan, memory: Pick<ChatContext, 'threadSummary' | 'memories'> = {}): string {
     const offerMenuText = persona.offerMenu?.map(item => 
       `${item.label}: $${(item.priceCents / 100).toFixed(2)}`
     ).join(', ') || '';
 
+    const memoryText = memory.memories?.length
+      ? `\n\nWHAT YOU REMEMBER ABOUT THIS FAN:\n${memory.memories.map(item => `- (${item.category}) ${item.fact}`).join('\n')}`
+      : '';
+    const summaryText = memory.threadSummary ? `\n\nCONVERSATION SO FAR: ${memory.threadSummary}` : '';
+
     return `You are ${persona.name}, an AI assistant for a content creator. ${persona.bio || ''}
 
 PERSONALITY TRAITS: ${persona.voiceKeywords?.join(', ') || 'warm, playful, attentive'}
 
 RESPONSE RULES:
-- Always respond in JSON format: {"message": "your response", "action": null or "offer_menu/create_payment_link/send_media/escalate", "actionData": {}}
+- Reply to the fan in plain text; use the provided tools for actions, never describe tool calls in the message
 - Be flirty but keep it PG-13, never explicit
 - ${persona.doSay?.join(', ') || 'Use compliments, light teasing, show curiosity'}
 - NEVER: ${persona.dontSay?.join(', ') || 'graphic sexual content, age references, promises of in-person meetings'}
-- If asked for illegal content, minors, or IRL meetings, use action: "escalate"
-- When suggesting paid content, use action: "offer_menu" with relevant items
+- If asked for illegal content, minors, or IRL meetings, call the "escalate" tool
+- When suggesting paid content, call "offer_menu"; once the fan agrees to buy, call "create_payment_link" with the offer SKU
 - Always maintain the disclosure: ${persona.disclosure || 'You\'re chatting with an AI assistant'}
 
 AVAILABLE OFFERS: ${offerMenuText}
@@ -85,27 +188,78 @@ FAN CONTEXT:
 - Handle: ${fan.handle}
 - Spend tier: ${fan.spendTier}
 - Boundaries: ${fan.boundaries?.join(', ') || 'none specified'}
-- Preferences: ${JSON.stringify(fan.preferences || {})}
+- Preferences: ${JSON.stringify(fan.preferences || {})}${memoryText}${summaryText}
 
 Remember: Be engaging, respect boundaries, and guide toward monetizable interactions naturally.`;
   }
 
-  private parseAIResponse(aiResponse: any): AIResponse {
-    const message = aiResponse.message || "Hey there! 💕";
-    const toolCalls = [];
+  private parseAIResponse(response: CompletionResult): AIResponse {
+    const message = response.content.trim() || "Hey there! 💕";
+    return { message, toolCalls: response.toolCalls };
+  }
+
+  // Short in-character thanks sent after a purchase is delivered
+  async generateThankYou(persona: Persona, fan: Fan, purchase: string): Promise<string> {
+    const fallback = `Thank you so much for getting ${purchase}, ${fan.displayName || fan.handle}! I hope you love it 💕`;
 
-    if (aiResponse.action) {
-      toolCalls.push({
-        type: aiResponse.action,
-        data: aiResponse.actionData || {}
+    try {
+      const { provider, model } = this.getProvider(persona);
+      const response = await provider.complete({
+        purpose: 'reply',
+        model,
+        messages: [
+          {
+            role: "system",
+            content: `${this.buildSystemPrompt(persona, fan)}\n\nThe fan just completed a purchase. Thank them warmly in one or two sentences. Do not offer anything else.`
+          },
+          {
+            role: "user",
+            content: `I just bought ${purchase}`
+          }
+        ],
+        temperature: 0.8,
+        maxTokens: 150,
       });
+
+      return response.content.trim() || fallback;
+    } catch (error) {
+      console.error('Error generating thank-you message:', error);
+      return fallback;
     }
+  }
+
+  // One short line asking a fan who is messaging too fast to slow down; not fan-specific, so callers can cache it
+  async generateSlowDown(persona: Persona): Promise<string> {
+    const fallback = "Whoa, you're typing faster than I can keep up 😅 Give me a minute and I'll be right back with you! 💕";
+
+    try {
+      const { provider, model } = this.getProvider(persona);
+      const response = await provider.complete({
+        purpose: 'reply',
+        model,
+        messages: [
+          {
+            role: "system",
+            content: `You are ${persona.name}. ${persona.bio || ''}\nPERSONALITY TRAITS: ${persona.voiceKeywords?.join(', ') || 'warm, playful, attentive'}\nNEVER: ${persona.dontSay?.join(', ') || 'graphic sexual content, age references, promises of in-person meetings'}\n\nA fan is sending messages faster than you can answer. In one short sentence, playfully ask them to slow down and give you a minute. Do not mention limits, systems or errors.`
+          },
+        ],
+        temperature: 0.8,
+        maxTokens: 60,
+      });
 
-    return { message, toolCalls };
+      return response.content.trim() || fallback;
+    } catch (error) {
+      console.error('Error generating slow-down message:', error);
+      return fallback;
+    }
   }
 
-  async updateThreadSummary(conversationId: string, recentMessages: Message[]): Promise<string> {
-    if (recentMessages.length < 3) return "";
+  /**
+   * Folds the latest messages (chronological) into the running summary, so
+   * older context survives after it drops out of the prompt's history.
+   */
+  async updateThreadSummary(conversationId: string, recentMessages: Message[], previousSummary?: string): Promise<string> {
+    if (recentMessages.length < 3) return previousSummary || "";
 
     const messageText = recentMessages
       .slice(-20)
@@ -113,34 +267,79 @@ Remember: Be engaging, respect boundaries, and guide toward monetizable interact
       .join('\n');
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const { provider, model } = this.getProvider();
+      const response = await provider.complete({
+        purpose: 'summary',
+        model,
+        messages: [
+          {
+            role: "system",
+            content: "Summarize this conversation in 2-3 sentences, focusing on the fan's interests, preferences, and any important context for future conversations. If a previous summary is given, update it with the new messages rather than starting over. Respond in JSON format: {\"summary\": \"your summary\"}"
+          },
+          {
+            role: "user",
+            content: previousSummary ? `Previous summary: ${previousSummary}\n\nNew messages:\n${messageText}` : messageText
+          }
+        ],
+        json: true,
+        maxTokens: 200,
+      });
+
+      const summary = JSON.parse(response.content || '{}');
+      return summary.summary || previousSummary || "";
+    } catch (error) {
+      console.error(`Error generating thread summary for conversation ${conversationId}:`, error);
+      return previousSummary || "";
+    }
+  }
+
+  // Pulls durable facts the fan stated about themselves out of recent messages (chronological)
+  async extractFanFacts(recentMessages: Message[], knownFacts: string[]): Promise<ExtractedFact[]> {
+    const fanMessages = recentMessages.filter(msg => msg.sender === 'fan');
+    if (fanMessages.length === 0) return [];
+
+    const messageText = fanMessages.map((msg, index) => `[${index}] ${msg.content}`).join('\n');
+
+    try {
+      const { provider, model } = this.getProvider();
+      const response = await provider.complete({
+        purpose: 'memory',
+        model,
         messages: [
           {
             role: "system",
-            content: "Summarize this conversation in 1-2 sentences, focusing on the fan's interests, preferences, and any important context for future conversations. Respond in JSON format: {\"summary\": \"your summary\"}"
+            content: `Extract lasting facts the fan states about themselves: their name, interests, past purchases and boundaries (things they do not want). Ignore small talk and anything already known. Respond in JSON format: {"facts": [{"category": "${FAN_MEMORY_CATEGORIES.join('|')}", "fact": "short fact", "messageIndex": 0}]}`
           },
           {
             role: "user",
-            content: messageText
+            content: `Already known:\n${knownFacts.map(fact => `- ${fact}`).join('\n') || '- nothing'}\n\nFan messages:\n${messageText}`
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 200,
+        json: true,
+        maxTokens: 300,
       });
 
-      const summary = JSON.parse(response.choices[0].message.content || '{}');
-      return summary.summary || "";
+      // Malformed entries are dropped individually rather than failing the batch
+      const { facts } = JSON.parse(response.content || '{}');
+      return (Array.isArray(facts) ? facts : []).flatMap((entry: unknown): ExtractedFact[] => {
+        const parsed = extractedFactSchema.safeParse(entry);
+        if (!parsed.success) return [];
+
+        const { category, fact, messageIndex } = parsed.data;
+        return [{ category, fact, messageId: messageIndex != null ? fanMessages[messageIndex]?.id : undefined }];
+      });
     } catch (error) {
-      console.error('Error generating thread summary:', error);
-      return "";
+      console.error('Error extracting fan facts:', error);
+      return [];
     }
   }
 
   async analyzeSentiment(message: string): Promise<'positive' | 'neutral' | 'negative'> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const { provider, model } = this.getProvider();
+      const response = await provider.complete({
+        purpose: 'sentiment',
+        model,
         messages: [
           {
             role: "system",
@@ -151,11 +350,11 @@ Remember: Be engaging, respect boundaries, and guide toward monetizable interact
             content: message
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 50,
+        json: true,
+        maxTokens: 50,
       });
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}');
+      const analysis = JSON.parse(response.content || '{}');
       return analysis.sentiment || 'neutral';
     } catch (error) {
       console.error('Error analyzing sentiment:', error);
@@ -0,0 +1,143 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, stat, writeFile, unlink } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { S3Client, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+
+export type MediaStorageBackendName = 'local' | 's3';
+
+export interface StoredObject {
+  stream: Readable;
+  size: number;
+}
+
+// Where media bytes live; content items reference objects by storageKey
+export interface MediaStorageBackend {
+  readonly name: MediaStorageBackendName;
+  // Streams are consumed as they arrive; a stream error aborts the write
+  put(key: string, data: Buffer | Readable, options?: { contentType?: string }): Promise<void>;
+  // Resolves undefined when the object does not exist
+  get(key: string): Promise<StoredObject | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores media on the local filesystem under a root directory. Meant for
+ * development and tests; keys are resolved inside the root only.
+ */
+export class LocalMediaStorage implements MediaStorageBackend {
+  readonly name: MediaStorageBackendName = 'local';
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, data: Buffer | Readable): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(data)) {
+      await writeFile(filePath, data);
+    } else {
+      await pipeline(data, createWriteStream(filePath));
+    }
+  }
+
+  async get(key: string): Promise<StoredObject | undefined> {
+    const filePath = this.resolve(key);
+    try {
+      const info = await stat(filePath);
+      if (!info.isFile()) return undefined;
+      return { stream: createReadStream(filePath), size: info.size };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Any S3-compatible object store (AWS S3, R2, MinIO...). Credentials come
+ * from S3_ACCESS_KEY_ID/S3_SECRET_ACCESS_KEY or the default AWS chain.
+ */
+export class S3MediaStorage implements MediaStorageBackend {
+  readonly name: MediaStorageBackendName = 's3';
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: { bucket: string; region?: string; endpoint?: string; forcePathStyle?: boolean }) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer | Readable, options: { contentType?: string } = {}): Promise<void> {
+    // Multipart upload, so streams of unknown length are not buffered whole
+    await new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: data, ContentType: options.contentType },
+    }).done();
+  }
+
+  async get(key: string): Promise<StoredObject | undefined> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!(response.Body instanceof Readable)) return undefined;
+      return { stream: response.Body, size: response.ContentLength || 0 };
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+export function createMediaStorage(): MediaStorageBackend {
+  const backend = (process.env.MEDIA_STORAGE_BACKEND as MediaStorageBackendName) || 'local';
+
+  switch (backend) {
+    case 'local':
+      return new LocalMediaStorage(process.env.MEDIA_STORAGE_DIR || '.media');
+    case 's3': {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error('S3_BUCKET must be set to use the s3 media storage backend');
+      }
+      return new S3MediaStorage({
+        bucket,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      });
+    }
+    default:
+      throw new Error(`Unknown media storage backend: ${backend}`);
+  }
+}
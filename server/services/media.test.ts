@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import type { ContentItem, MediaDelivery, User } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { mediaService, sniffMediaType } from "./media";
+import { watermarkService } from "./watermark";
+
+const objects = new Map<string, Buffer>();
+mediaService.setStorageBackend({
+  name: "local",
+  put: async (key, data) => {
+    objects.set(key, Buffer.isBuffer(data) ? data : Buffer.alloc(0));
+  },
+  get: async (key) => {
+    const data = objects.get(key);
+    return data && { stream: Readable.from([data]), size: data.length };
+  },
+  delete: async (key) => {
+    objects.delete(key);
+  },
+});
+objects.set("originals/photo.png", Buffer.from("original"));
+
+const content = {
+  id: "content-1",
+  creatorId: "creator-1",
+  type: "image",
+  mimeType: "image/png",
+  storageKey: "originals/photo.png",
+  priceCents: 0,
+  isActive: true,
+} as ContentItem;
+const deliveries = new Map<string, MediaDelivery>();
+
+const stubs: Pick<IStorage, "getContentItem" | "getUser" | "createMediaDelivery" | "getMediaDelivery" | "updateMediaDelivery"> = {
+  getContentItem: async () => content,
+  getUser: async () => ({ username: "creator" }) as User,
+  createMediaDelivery: async (input) => {
+    const delivery = { ...input, watermarkedKey: null, revokedAt: null } as MediaDelivery;
+    deliveries.set(delivery.id, delivery);
+    return { ...delivery };
+  },
+  getMediaDelivery: async (id) => deliveries.has(id) ? { ...deliveries.get(id)! } : undefined,
+  updateMediaDelivery: async (id, updates) => {
+    const delivery = { ...deliveries.get(id)!, ...updates } as MediaDelivery;
+    deliveries.set(id, delivery);
+    return { ...delivery };
+  },
+};
+Object.assign(storage, stubs);
+
+let renders = 0;
+watermarkService.watermarkImage = async (input) => {
+  renders++;
+  await new Promise(resolve => setTimeout(resolve, 20));
+  return Buffer.concat([input, Buffer.from("+mark")]);
+};
+
+const tokenFor = (url: string | null) => mediaService.tokenFromUrl(url!)!;
+
+test("renders the fan's copy once when the link is issued and opened straight away", async () => {
+  renders = 0;
+  const token = tokenFor(await mediaService.getSignedUrl(content.id, { fanId: "fan-1" }));
+
+  const [first, second] = await Promise.all([mediaService.loadDelivery(token), mediaService.loadDelivery(token)]);
+
+  assert.equal(renders, 1);
+  assert.equal(first.delivery.id, second.delivery.id);
+  assert.equal(objects.get(`watermarked/${first.delivery.id}.png`)?.toString(), "original+mark");
+});
+
+test("reuses the stored copy on later opens", async () => {
+  renders = 0;
+  const token = tokenFor(await mediaService.getSignedUrl(content.id, { fanId: "fan-2" }));
+  await mediaService.loadDelivery(token);
+  await mediaService.loadDelivery(token);
+
+  assert.equal(renders, 1);
+});
+
+const ftyp = (brand: string) => Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftyp${brand}`, "latin1"), Buffer.alloc(4)]);
+
+for (const brand of ["heic", "heix", "mif1", "avif"]) {
+  test(`refuses ${brand} images rather than treating them as video`, () => {
+    assert.equal(sniffMediaType(ftyp(brand)), null);
+  });
+}
+
+test("still detects MP4 video by its ftyp box", () => {
+  assert.equal(sniffMediaType(ftyp("isom"))?.mimeType, "video/mp4");
+});
@@ -1,158 +1,633 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import sharp from "sharp";
 import { storage } from "../storage";
-import { ContentItem } from "@shared/schema";
+import { ContentItem, InsertMediaDelivery, MediaDelivery, MediaVariant } from "@shared/schema";
+import { createMediaStorage, MediaStorageBackend, StoredObject } from "./media-storage";
+import { extractFrame, probeMedia, ProbeResult } from "./ffmpeg";
+import { watermarkService, WatermarkMark, WATERMARKABLE_IMAGE_TYPES } from "./watermark";
 
 export interface MediaDeliveryOptions {
   watermark?: boolean;
   trackDelivery?: boolean;
+  // Required: every link is bound to the fan it was issued to
   fanId?: string;
   paymentId?: string;
+  ttlSeconds?: number;
+  // 'preview' links serve the blurred teaser and need no purchase
+  variant?: 'original' | 'preview';
+}
+
+// A signed link and the delivery row its token names, not stored yet
+export interface PreparedDelivery {
+  url: string;
+  content: ContentItem;
+  delivery: InsertMediaDelivery & { id: string };
+}
+
+// Signed into each media token
+interface MediaTokenPayload {
+  jti: string;
+  contentId: string;
+  fanId: string;
+  exp: number;
+}
+
+export type MediaAccess =
+  | { kind: 'stored'; content: ContentItem; delivery: MediaDelivery; object: StoredObject; mimeType: string }
+  | { kind: 'external'; content: ContentItem; delivery: MediaDelivery };
+
+// Carries the HTTP status the /media route should answer with
+export class MediaAccessError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Carries the HTTP status the upload route should answer with
+export class MediaUploadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+// Renditions generated for images and video stills, bounded to maxSize on the longer side
+const VARIANT_SPECS: Array<{ name: string; maxSize: number; blurSigma?: number; imagesOnly?: boolean }> = [
+  { name: 'thumbnail', maxSize: 320 },
+  { name: 'medium', maxSize: 1280, imagesOnly: true },
+  // Blurred enough to tease without giving the content away
+  { name: 'preview', maxSize: 640, blurSigma: 30 },
+];
+
+// Where the thumbnail still is taken from, capped to half the video's length
+const VIDEO_FRAME_SECONDS = 3;
+
+export type MediaType = 'image' | 'video' | 'audio';
+
+export const MAX_UPLOAD_BYTES: Record<MediaType, number> = {
+  image: 10 * 1024 * 1024,
+  video: 200 * 1024 * 1024,
+  audio: 25 * 1024 * 1024,
+};
+
+// Enough leading bytes to recognize every supported signature
+const SNIFF_BYTES = 16;
+
+// ISO media brands of HEIF/AVIF images and image sequences
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1', 'avif', 'avis'];
+
+interface DetectedMedia {
+  type: MediaType;
+  mimeType: string;
+  extension: string;
+}
+
+// Identifies a file from its magic bytes; returns null for anything unsupported
+export function sniffMediaType(head: Buffer): DetectedMedia | null {
+  const ascii = (start: number, end: number) => head.toString('latin1', start, end);
+
+  if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+    return { type: 'image', mimeType: 'image/jpeg', extension: 'jpg' };
+  }
+  if (head.length >= 8 && head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { type: 'image', mimeType: 'image/png', extension: 'png' };
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return { type: 'image', mimeType: 'image/gif', extension: 'gif' };
+  }
+  if (ascii(0, 4) === 'RIFF') {
+    switch (ascii(8, 12)) {
+      case 'WEBP': return { type: 'image', mimeType: 'image/webp', extension: 'webp' };
+      case 'AVI ': return { type: 'video', mimeType: 'video/x-msvideo', extension: 'avi' };
+      case 'WAVE': return { type: 'audio', mimeType: 'audio/wav', extension: 'wav' };
+    }
+    return null;
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'qt  ') return { type: 'video', mimeType: 'video/quicktime', extension: 'mov' };
+    if (brand === 'M4A ' || brand === 'M4B ') return { type: 'audio', mimeType: 'audio/mp4', extension: 'm4a' };
+    // HEIF and AVIF stills share the container but not the codecs the image pipeline and watermark read
+    if (HEIF_BRANDS.includes(brand)) return null;
+    return { type: 'video', mimeType: 'video/mp4', extension: 'mp4' };
+  }
+  // MP3: ID3v2 tag or a bare MPEG audio frame sync
+  if (ascii(0, 3) === 'ID3' || (head.length >= 2 && head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) {
+    return { type: 'audio', mimeType: 'audio/mpeg', extension: 'mp3' };
+  }
+
+  return null;
 }
 
 export class MediaService {
+  private backend: MediaStorageBackend | null = null;
+  // Watermark renders in progress by delivery ID, so concurrent opens share one
+  private renders = new Map<string, Promise<string>>();
+
+  // Created lazily so importing the service has no filesystem side effects
+  getStorageBackend(): MediaStorageBackend {
+    if (!this.backend) {
+      this.backend = createMediaStorage();
+    }
+    return this.backend;
+  }
+
+  setStorageBackend(backend: MediaStorageBackend): void {
+    this.backend = backend;
+  }
+
+  /**
+   * Issues a time-limited link to a content item, bound to one fan. Each
+   * link is recorded as a media delivery so it can be revoked or traced.
+   */
   async getSignedUrl(contentId: string, options: MediaDeliveryOptions = {}): Promise<string | null> {
     try {
-      const content = await storage.getContentItem(contentId);
-      if (!content || !content.isActive) {
-        return null;
+      const prepared = await this.prepareDelivery(contentId, options);
+      if (!prepared) return null;
+
+      const delivery = await storage.createMediaDelivery(prepared.delivery);
+      await this.deliveryStored(prepared.content, delivery, options);
+      return prepared.url;
+    } catch (error) {
+      console.error('Error generating signed URL:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Signs a link without storing its delivery, for callers that store the
+   * delivery in their own transaction and then call deliveryStored. Null
+   * when the item cannot be sent.
+   */
+  async prepareDelivery(contentId: string, options: MediaDeliveryOptions = {}): Promise<PreparedDelivery | null> {
+    const content = await storage.getContentItem(contentId);
+    if (!content || !content.isActive) {
+      return null;
+    }
+    if (!options.fanId) {
+      console.error(`Refusing to sign media ${contentId} without a fan`);
+      return null;
+    }
+
+    const ttlSeconds = options.ttlSeconds || parseInt(process.env.MEDIA_URL_TTL_SECONDS || '', 10) || DEFAULT_TTL_SECONDS;
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    const id = randomUUID();
+    const token = this.signToken({
+      jti: id,
+      contentId,
+      fanId: options.fanId,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    });
+
+    return {
+      url: `${process.env.PUBLIC_BASE_URL || ''}/media/${token}`,
+      content,
+      delivery: {
+        id,
+        contentId,
+        fanId: options.fanId,
+        paymentId: options.paymentId,
+        watermarkCode: randomBytes(8).toString('hex'),
+        variant: options.variant || 'original',
+        expiresAt,
+      },
+    };
+  }
+
+  // Once a delivery is stored: records it when asked and starts rendering the fan's copy
+  async deliveryStored(content: ContentItem, delivery: MediaDelivery, options: Pick<MediaDeliveryOptions, 'trackDelivery'> = {}): Promise<void> {
+    if (options.trackDelivery) {
+      await this.trackContentDelivery(content.id, delivery.fanId, delivery.paymentId || undefined, delivery.id);
+    }
+
+    // Rendered ahead so the fan's first open does not wait on it; a failure is retried on open
+    if (delivery.variant === 'original' && content.storageKey && this.needsWatermark(content)) {
+      this.watermarkedCopy(content, delivery).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Checks a media token's signature, expiry, revocation and the fan's
+   * entitlement (free item or a completed payment for it), then opens the
+   * content and records the fan's access. Throws MediaAccessError when
+   * access is refused.
+   */
+  async openDelivery(token: string): Promise<MediaAccess> {
+    const access = await this.loadDelivery(token);
+    await storage.recordMediaAccess(access.delivery.id);
+    return access;
+  }
+
+  /**
+   * The same checks and the same fan copy as openDelivery, without
+   * recording an access. For channels that upload the file to the fan
+   * themselves, before the fan has opened anything.
+   */
+  async loadDelivery(token: string): Promise<MediaAccess> {
+    const payload = this.verifyToken(token);
+    if (payload.exp * 1000 < Date.now()) {
+      throw new MediaAccessError('Link has expired', 410);
+    }
+
+    const delivery = await storage.getMediaDelivery(payload.jti);
+    if (!delivery || delivery.contentId !== payload.contentId || delivery.fanId !== payload.fanId) {
+      throw new MediaAccessError('Link not found', 404);
+    }
+    if (delivery.revokedAt) {
+      throw new MediaAccessError('Link has been revoked', 410);
+    }
+
+    const content = await storage.getContentItem(delivery.contentId);
+    if (!content || !content.isActive) {
+      throw new MediaAccessError('Content is no longer available', 404);
+    }
+
+    if (delivery.variant === 'preview') {
+      const preview = content.variants?.preview;
+      const object = preview && await this.getStorageBackend().get(preview.key);
+      if (!preview || !object) {
+        throw new MediaAccessError('Preview is not available', 404);
       }
+      return { kind: 'stored', content, delivery, object, mimeType: preview.mimeType };
+    }
+
+    const isFree = !content.priceCents;
+    if (!isFree && !await storage.hasCompletedPaymentForContent(delivery.fanId, content.id)) {
+      throw new MediaAccessError('This content has not been purchased', 403);
+    }
+
+    // Items uploaded before the storage backend existed are only reachable at their original URL
+    if (!content.storageKey) {
+      return { kind: 'external', content, delivery };
+    }
+
+    const key = this.needsWatermark(content)
+      ? await this.watermarkedCopy(content, delivery)
+      : content.storageKey;
+
+    const object = await this.getStorageBackend().get(key);
+    if (!object) {
+      throw new MediaAccessError('Content file is missing', 404);
+    }
+    return { kind: 'stored', content, delivery, object, mimeType: content.mimeType || 'application/octet-stream' };
+  }
+
+  // The token in a link from getSignedUrl, or null for any other URL
+  tokenFromUrl(url: string): string | null {
+    return url.match(/\/media\/([^/?#]+)$/)?.[1] ?? null;
+  }
+
+  async revokeDelivery(deliveryId: string): Promise<MediaDelivery> {
+    const delivery = await storage.updateMediaDelivery(deliveryId, { revokedAt: new Date() });
+    if (delivery?.watermarkedKey) {
+      await this.getStorageBackend().delete(delivery.watermarkedKey).catch(error => {
+        console.error(`Error deleting watermarked copy for delivery ${deliveryId}:`, error);
+      });
+    }
+    return delivery;
+  }
 
-      // In a real implementation, this would:
-      // 1. Generate a signed URL from S3/CDN
-      // 2. Apply watermarking if requested
-      // 3. Track delivery analytics
-      
-      if (options.trackDelivery && options.fanId) {
-        await this.trackContentDelivery(contentId, options.fanId, options.paymentId);
+  /**
+   * Finds the delivery a leaked file came from, either by reading the code
+   * embedded in an image or from a code read off a video's overlay.
+   */
+  async traceLeak(source: { file?: Buffer; code?: string }): Promise<{ code: string | null; delivery?: MediaDelivery }> {
+    let code = source.code?.trim().toLowerCase() || null;
+    if (!code && source.file) {
+      try {
+        code = await watermarkService.extractCode(source.file);
+      } catch {
+        throw new MediaUploadError('Could not read the file as an image', 415);
       }
+    }
+    if (!code) {
+      return { code: null };
+    }
+
+    const delivery = await storage.getMediaDeliveryByWatermarkCode(code);
+    return { code, delivery };
+  }
 
-      // For now, return the direct URL
-      // In production, this would be a signed, time-limited URL
-      return content.url;
+  private needsWatermark(content: ContentItem): boolean {
+    return content.type === 'video' || WATERMARKABLE_IMAGE_TYPES.includes(content.mimeType || '');
+  }
+
+  // The stored key of the fan's copy, rendering it once per delivery
+  private watermarkedCopy(content: ContentItem, delivery: MediaDelivery): Promise<string> {
+    if (delivery.watermarkedKey) {
+      return Promise.resolve(delivery.watermarkedKey);
+    }
+    let render = this.renders.get(delivery.id);
+    if (!render) {
+      render = this.renderWatermarked(content, delivery).finally(() => this.renders.delete(delivery.id));
+      this.renders.set(delivery.id, render);
+    }
+    return render;
+  }
+
+  /**
+   * Renders the fan's copy: a visible creator label plus the delivery's
+   * code, stored under watermarked/ and reused for later accesses.
+   */
+  private async renderWatermarked(content: ContentItem, delivery: MediaDelivery): Promise<string> {
+    // A render that finished after the caller read the delivery has already stored the copy
+    const current = await storage.getMediaDelivery(delivery.id);
+    if (current?.watermarkedKey) {
+      return current.watermarkedKey;
+    }
+
+    const backend = this.getStorageBackend();
+    const original = await backend.get(content.storageKey!);
+    if (!original) {
+      throw new MediaAccessError('Content file is missing', 404);
+    }
+
+    const creator = await storage.getUser(content.creatorId);
+    const mark: WatermarkMark = {
+      label: creator ? `@${creator.username}` : 'Protected content',
+      code: delivery.watermarkCode,
+    };
+    const key = `watermarked/${delivery.id}${path.extname(content.storageKey!)}`;
+
+    try {
+      if (content.type === 'video') {
+        await this.renderWatermarkedVideo(original, key, mark, content.mimeType || undefined);
+      } else {
+        const chunks: Buffer[] = [];
+        for await (const chunk of original.stream) chunks.push(chunk);
+        const marked = await watermarkService.watermarkImage(Buffer.concat(chunks), content.mimeType!, mark);
+        await backend.put(key, marked, { contentType: content.mimeType || undefined });
+      }
     } catch (error) {
-      console.error('Error generating signed URL:', error);
-      return null;
+      console.error(`Error watermarking content ${content.id} for delivery ${delivery.id}:`, error);
+      await backend.delete(key).catch(() => undefined);
+      // Never fall back to the unmarked original
+      throw new MediaAccessError('Content is temporarily unavailable', 503);
+    }
+
+    await storage.updateMediaDelivery(delivery.id, { watermarkedKey: key });
+    return key;
+  }
+
+  // ffmpeg needs seekable files, so the video round-trips through a temp directory
+  private async renderWatermarkedVideo(original: StoredObject, key: string, mark: WatermarkMark, contentType?: string): Promise<void> {
+    const workDir = await mkdtemp(path.join(os.tmpdir(), 'watermark-'));
+    const extension = path.extname(key);
+    const inputPath = path.join(workDir, `input${extension}`);
+    const outputPath = path.join(workDir, `output${extension}`);
+
+    try {
+      await pipeline(original.stream, createWriteStream(inputPath));
+      await watermarkService.watermarkVideo(inputPath, outputPath, mark);
+      await this.getStorageBackend().put(key, createReadStream(outputPath), { contentType });
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private signToken(payload: MediaTokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  private verifyToken(token: string): MediaTokenPayload {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) {
+      throw new MediaAccessError('Malformed link', 400);
+    }
+
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new MediaAccessError('Invalid link signature', 403);
+    }
+
+    try {
+      return JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new MediaAccessError('Malformed link', 400);
+    }
+  }
+
+  private sign(body: string): string {
+    const secret = process.env.MEDIA_SIGNING_SECRET || process.env.SESSION_SECRET;
+    if (!secret) {
+      throw new Error('MEDIA_SIGNING_SECRET must be set to sign media links');
     }
+    return createHmac('sha256', secret).update(body).digest('base64url');
   }
 
-  private async trackContentDelivery(contentId: string, fanId: string, paymentId?: string): Promise<void> {
+  private async trackContentDelivery(contentId: string, fanId: string, paymentId?: string, deliveryId?: string): Promise<void> {
     try {
+      const details: Record<string, any> = {
+        deliveredAt: new Date().toISOString(),
+        paymentId: paymentId || null,
+        deliveryId: deliveryId || null
+      };
       await storage.createAuditLog({
         action: 'content_delivered',
         entityType: 'content_item',
         entityId: contentId,
         fanId,
-        details: { 
-          deliveredAt: new Date().toISOString(),
-          paymentId: paymentId || null
-        }
+        details
       });
     } catch (error) {
       console.error('Error tracking content delivery:', error);
     }
   }
 
+  /**
+   * Streams an upload to the storage backend and creates its content item.
+   * The type is detected from the file's leading bytes, never from the
+   * client-declared MIME type, and the per-type size limit is enforced while
+   * streaming. A partially written object is deleted if the upload fails.
+   */
   async uploadContent(creatorId: string, file: {
-    type: 'image' | 'video' | 'audio';
     title: string;
-    buffer: Buffer;
-    mimeType: string;
-  }): Promise<ContentItem> {
-    try {
-      // In a real implementation, this would:
-      // 1. Upload to S3/CDN
-      // 2. Generate thumbnails for videos
-      // 3. Apply watermarking
-      // 4. Scan for compliance
-      
-      // Mock URL generation
-      const url = `https://cdn.example.com/${creatorId}/${Date.now()}-${file.title}`;
-      const thumbnailUrl = file.type === 'video' 
-        ? `https://cdn.example.com/thumbs/${creatorId}/${Date.now()}-thumb.jpg`
-        : undefined;
-
-      const contentItem = await storage.createContentItem({
-        creatorId,
-        type: file.type,
-        title: file.title,
-        url,
-        thumbnailUrl,
-        captionTemplate: `Check out my new ${file.type}! 💕`,
-        allowedContexts: ['dm', 'offer'],
-        priceCents: 0, // Default to free, creator can update pricing
-      });
+    stream: Readable;
+    declaredMimeType?: string;
+    priceCents?: number;
+  }, uploadedBy: string): Promise<ContentItem> {
+    const chunks = file.stream[Symbol.asyncIterator]();
+    let head = Buffer.alloc(0);
+    while (head.length < SNIFF_BYTES) {
+      const { value, done } = await chunks.next();
+      if (done) break;
+      head = Buffer.concat([head, value]);
+    }
 
-      await storage.createAuditLog({
-        action: 'content_uploaded',
-        entityType: 'content_item',
-        entityId: contentItem.id,
-        userId: creatorId,
-        details: {
-          type: file.type,
-          title: file.title,
-          size: file.buffer.length
+    const detected = sniffMediaType(head);
+    if (!detected) {
+      throw new MediaUploadError('Unsupported or unrecognized file type', 415);
+    }
+
+    const limit = MAX_UPLOAD_BYTES[detected.type];
+    let size = 0;
+    async function* limited() {
+      let chunk: Buffer = head;
+      while (true) {
+        size += chunk.length;
+        if (size > limit) {
+          throw new MediaUploadError(`File exceeds the ${limit / (1024 * 1024)}MB limit for ${detected!.type} uploads`, 413);
         }
-      });
+        yield chunk;
+        const next = await chunks.next();
+        if (next.done) return;
+        chunk = next.value;
+      }
+    }
 
-      return contentItem;
+    const backend = this.getStorageBackend();
+    const storageKey = `${creatorId}/${randomUUID()}.${detected.extension}`;
+    try {
+      await backend.put(storageKey, Readable.from(limited()), { contentType: detected.mimeType });
     } catch (error) {
-      console.error('Error uploading content:', error);
-      throw new Error('Failed to upload content');
+      await backend.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+
+    const contentItem = await storage.createContentItem({
+      creatorId,
+      type: detected.type,
+      title: file.title,
+      url: `${backend.name}://${storageKey}`,
+      storageKey,
+      mimeType: detected.mimeType,
+      captionTemplate: `Check out my new ${detected.type}! 💕`,
+      allowedContexts: ['dm', 'offer'],
+      priceCents: file.priceCents || 0, // Default to free, creator can update pricing
+      sizeBytes: size,
+    });
+
+    const details: Record<string, any> = {
+      type: detected.type,
+      title: file.title,
+      size,
+      mimeType: detected.mimeType,
+      declaredMimeType: file.declaredMimeType || null,
+      storageBackend: backend.name,
+    };
+    await storage.createAuditLog({
+      action: 'content_uploaded',
+      entityType: 'content_item',
+      entityId: contentItem.id,
+      userId: uploadedBy,
+      details
+    });
+
+    // The upload stands even if renditions fail; they can be regenerated later
+    try {
+      return await this.generateVariants(contentItem);
+    } catch (error) {
+      console.error(`Error generating variants for content ${contentItem.id}:`, error);
+      return contentItem;
     }
   }
 
-  async applyWatermark(contentUrl: string, creatorName: string): Promise<string> {
-    // In a real implementation, this would:
-    // 1. Download the original content
-    // 2. Apply a watermark with creator info
-    // 3. Upload the watermarked version
-    // 4. Return the new URL
-    
-    // For now, return the original URL
-    // The watermark would be applied server-side using image processing libraries
-    return contentUrl;
+  /**
+   * Generates the thumbnail, medium and blurred preview renditions of a
+   * stored item and records its dimensions and duration. Video stills and
+   * durations come from ffmpeg; audio only gets a duration.
+   */
+  async generateVariants(content: ContentItem): Promise<ContentItem> {
+    if (!content.storageKey) {
+      throw new Error(`Content ${content.id} is not stored in the media backend`);
+    }
+
+    const backend = this.getStorageBackend();
+    const original = await backend.get(content.storageKey);
+    if (!original) {
+      throw new Error(`Content file ${content.storageKey} is missing`);
+    }
+
+    // Probing and frame extraction work on a local copy of the original
+    const workDir = await mkdtemp(path.join(os.tmpdir(), 'variants-'));
+    try {
+      const inputPath = path.join(workDir, `original${path.extname(content.storageKey)}`);
+      await pipeline(original.stream, createWriteStream(inputPath));
+
+      let metadata: ProbeResult;
+      let still: Buffer | undefined;
+      if (content.type === 'image') {
+        const info = await sharp(inputPath).metadata();
+        metadata = { width: info.autoOrient.width, height: info.autoOrient.height };
+        still = await readFile(inputPath);
+      } else {
+        metadata = await probeMedia(inputPath);
+        if (content.type === 'video') {
+          const framePath = path.join(workDir, 'frame.jpg');
+          const atSeconds = Math.min(VIDEO_FRAME_SECONDS, (metadata.durationSeconds || 0) / 2);
+          await extractFrame(inputPath, framePath, atSeconds);
+          still = await readFile(framePath);
+        }
+      }
+
+      const variants: Record<string, MediaVariant> = {};
+      for (const spec of VARIANT_SPECS) {
+        if (!still || (spec.imagesOnly && content.type !== 'image')) continue;
+
+        let rendition = sharp(still)
+          .rotate()
+          .resize(spec.maxSize, spec.maxSize, { fit: 'inside', withoutEnlargement: true });
+        if (spec.blurSigma) {
+          rendition = rendition.blur(spec.blurSigma);
+        }
+        const { data, info } = await rendition.jpeg({ quality: 80 }).toBuffer({ resolveWithObject: true });
+
+        const key = `${content.creatorId}/variants/${content.id}/${spec.name}.jpg`;
+        await backend.put(key, data, { contentType: 'image/jpeg' });
+        variants[spec.name] = { key, width: info.width, height: info.height, mimeType: 'image/jpeg', sizeBytes: data.length };
+      }
+
+      return await storage.updateContentItem(content.id, {
+        width: metadata.width ?? null,
+        height: metadata.height ?? null,
+        durationSeconds: metadata.durationSeconds ?? null,
+        sizeBytes: original.size || content.sizeBytes,
+        variants,
+        thumbnailUrl: variants.thumbnail ? `/api/content/${content.id}/variants/thumbnail` : content.thumbnailUrl,
+      });
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
   }
 
-  async generateThumbnail(videoUrl: string): Promise<string> {
-    // In a real implementation, this would:
-    // 1. Extract a frame from the video (e.g., at 5 seconds)
-    // 2. Resize to thumbnail dimensions
-    // 3. Upload to CDN
-    // 4. Return thumbnail URL
-    
-    // Mock thumbnail URL
-    return videoUrl.replace(/\.[^.]+$/, '-thumb.jpg');
+  async getVariant(content: ContentItem, name: string): Promise<{ variant: MediaVariant; object: StoredObject } | undefined> {
+    const variant = content.variants?.[name];
+    const object = variant && await this.getStorageBackend().get(variant.key);
+    return variant && object ? { variant, object } : undefined;
   }
 
-  async validateContent(buffer: Buffer, mimeType: string): Promise<{
+  // Checks a fully buffered file the same way uploadContent checks a stream
+  async validateContent(buffer: Buffer): Promise<{
     isValid: boolean;
+    mimeType?: string;
     issues?: string[];
   }> {
     const issues: string[] = [];
+    const detected = sniffMediaType(buffer.subarray(0, SNIFF_BYTES));
 
-    // File size validation (10MB limit)
-    if (buffer.length > 10 * 1024 * 1024) {
-      issues.push('File size exceeds 10MB limit');
-    }
-
-    // MIME type validation
-    const allowedTypes = [
-      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-      'video/mp4', 'video/quicktime', 'video/x-msvideo',
-      'audio/mpeg', 'audio/wav', 'audio/mp4'
-    ];
-
-    if (!allowedTypes.includes(mimeType)) {
-      issues.push(`Unsupported file type: ${mimeType}`);
+    if (!detected) {
+      issues.push('Unsupported or unrecognized file type');
+    } else if (buffer.length > MAX_UPLOAD_BYTES[detected.type]) {
+      issues.push(`File size exceeds ${MAX_UPLOAD_BYTES[detected.type] / (1024 * 1024)}MB limit`);
     }
 
     // In a real implementation, this would also:
     // - Scan for NSFW content using ML models
     // - Check for malware
-    // - Validate file integrity
     // - Ensure content meets platform guidelines
 
     return {
       isValid: issues.length === 0,
+      mimeType: detected?.mimeType,
       issues: issues.length > 0 ? issues : undefined
     };
   }
@@ -0,0 +1,127 @@
+import { Conversation, FanMemory, InsertFanMemory, Payment } from "@shared/schema";
+import { storage } from "../storage";
+import { llmService } from "./llm";
+
+const DEFAULT_SUMMARY_INTERVAL = 10;
+// Messages read when refreshing; the summary carries anything older
+const SUMMARY_WINDOW = 20;
+const MAX_PROMPT_MEMORIES = 12;
+// Always included in the prompt, whatever the fan is talking about
+const ALWAYS_RELEVANT = ['name', 'boundary'];
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Words long enough to say something about the topic
+function keywords(text: string): Set<string> {
+  return new Set(normalize(text).split(' ').filter(word => word.length >= 4));
+}
+
+/**
+ * Keeps conversation summaries current and maintains the per-creator store
+ * of facts about each fan that replies draw on.
+ */
+export class MemoryService {
+  private refreshing = new Set<string>();
+
+  get summaryInterval(): number {
+    return parseInt(process.env.CONVERSATION_SUMMARY_INTERVAL || '', 10) || DEFAULT_SUMMARY_INTERVAL;
+  }
+
+  /**
+   * Refreshes the thread summary and extracts new fan facts once
+   * summaryInterval messages have arrived since the last refresh. Concurrent
+   * calls for the same conversation on this instance are skipped.
+   */
+  async refreshIfDue(conversation: Conversation, creatorId: string): Promise<boolean> {
+    if (this.refreshing.has(conversation.id)) return false;
+
+    const unsummarized = await storage.countMessagesSince(conversation.id, conversation.summaryUpdatedAt);
+    if (unsummarized < this.summaryInterval) return false;
+
+    this.refreshing.add(conversation.id);
+    try {
+      const since = conversation.summaryUpdatedAt;
+      const recentMessages = (await storage.getConversationMessages(conversation.id, SUMMARY_WINDOW)).reverse();
+      const newMessages = since ? recentMessages.filter(msg => msg.createdAt > since) : recentMessages;
+
+      const summary = await llmService.updateThreadSummary(conversation.id, recentMessages, conversation.threadSummary || undefined);
+      await storage.updateConversation(conversation.id, {
+        threadSummary: summary || conversation.threadSummary,
+        summaryUpdatedAt: new Date(),
+      });
+
+      const known = await storage.getFanMemories(conversation.fanId, creatorId);
+      const facts = await llmService.extractFanFacts(newMessages, known.map(memory => memory.fact));
+      for (const fact of facts) {
+        await this.remember({
+          fanId: conversation.fanId,
+          creatorId,
+          category: fact.category,
+          fact: fact.fact,
+          source: 'conversation',
+          conversationId: conversation.id,
+          messageId: fact.messageId,
+        }, known);
+      }
+      return true;
+    } finally {
+      this.refreshing.delete(conversation.id);
+    }
+  }
+
+  // Fire-and-forget wrapper for the reply path, which should not wait on summarization
+  refreshInBackground(conversation: Conversation, creatorId: string): void {
+    this.refreshIfDue(conversation, creatorId).catch(error => {
+      console.error(`Error refreshing memory for conversation ${conversation.id}:`, error);
+    });
+  }
+
+  async rememberPurchase(payment: Payment, label: string): Promise<FanMemory | null> {
+    return await this.remember({
+      fanId: payment.fanId,
+      creatorId: payment.creatorId,
+      category: 'purchase',
+      fact: `Bought ${label}`,
+      source: 'purchase',
+      conversationId: payment.metadata?.conversationId,
+      paymentId: payment.id,
+    });
+  }
+
+  // Stores a fact unless the same fact is already known; returns null for duplicates
+  async remember(memory: InsertFanMemory, known?: FanMemory[]): Promise<FanMemory | null> {
+    const existing = known || await storage.getFanMemories(memory.fanId, memory.creatorId);
+    const fact = normalize(memory.fact);
+    if (existing.some(item => normalize(item.fact) === fact)) return null;
+
+    const created = await storage.createFanMemory(memory);
+    existing.push(created);
+    return created;
+  }
+
+  /**
+   * Picks the memories worth putting in the prompt: names and boundaries
+   * always, then facts sharing the most words with the fan's message, with
+   * the most recently updated first on ties.
+   */
+  async relevantMemories(fanId: string, creatorId: string, message: string): Promise<FanMemory[]> {
+    const memories = await storage.getFanMemories(fanId, creatorId);
+    const messageWords = keywords(message);
+
+    const always = memories.filter(memory => ALWAYS_RELEVANT.includes(memory.category));
+    const ranked = memories
+      .filter(memory => !ALWAYS_RELEVANT.includes(memory.category))
+      .map(memory => ({
+        memory,
+        overlap: Array.from(keywords(memory.fact)).filter(word => messageWords.has(word)).length,
+      }))
+      .sort((a, b) => b.overlap - a.overlap || b.memory.updatedAt.getTime() - a.memory.updatedAt.getTime())
+      .map(({ memory }) => memory);
+
+    return [...always, ...ranked].slice(0, MAX_PROMPT_MEMORIES);
+  }
+}
+
+export const memoryService = new MemoryService();
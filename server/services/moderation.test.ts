@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertModerationRule } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { moderationService, DEFAULT_MODERATION_RULES } from "./moderation";
+
+const seeded: InsertModerationRule[][] = [];
+const stubs: Pick<IStorage, "getModerationRules" | "seedModerationRules" | "getActiveModerationRules"> = {
+  getModerationRules: async () => [],
+  seedModerationRules: async (rules) => {
+    seeded.push(rules);
+  },
+  getActiveModerationRules: async () => [],
+};
+Object.assign(storage, stubs);
+
+const regexRule = (pattern: string) => ({ matchType: "regex", pattern });
+
+test("compiles the default rules", () => {
+  for (const rule of DEFAULT_MODERATION_RULES) {
+    assert.doesNotThrow(() => moderationService.compileRule(rule), rule.name);
+  }
+});
+
+test("rejects repeated groups that repeat or alternate", () => {
+  for (const pattern of ["(a+)+$", "(?:\\w*)*x", "(a|ab)*c", "((ab)+c){2,}"]) {
+    assert.throws(() => moderationService.compileRule(regexRule(pattern)), /cannot repeat a group/, pattern);
+  }
+});
+
+test("allows repeats inside character classes and unrepeated groups", () => {
+  for (const pattern of ["[(a+)]+", "(?:free|no)\\s+pics", "\\(a+\\)+", "(?:ab)+"]) {
+    assert.doesNotThrow(() => moderationService.compileRule(regexRule(pattern)), pattern);
+  }
+});
+
+test("rejects backreferences, overlong and invalid patterns", () => {
+  assert.throws(() => moderationService.compileRule(regexRule("(a)\\1")), /backreferences/);
+  assert.throws(() => moderationService.compileRule(regexRule("a".repeat(501))), /limited to 500/);
+  assert.throws(() => moderationService.compileRule(regexRule("(unclosed")), SyntaxError);
+});
+
+test("seeds the default rules once for concurrent evaluations", async () => {
+  await Promise.all([moderationService.evaluateRules("hello"), moderationService.evaluateRules("hi there")]);
+
+  assert.equal(seeded.length, 1);
+  assert.equal(seeded[0].length, DEFAULT_MODERATION_RULES.length);
+});
@@ -1,148 +1,456 @@
 import { storage } from "../storage";
-import { InsertModerationQueue } from "@shared/schema";
+import { auditService } from "./audit";
+import { consentService, ConsentError } from "./consent";
+import { optOutService } from "./opt-out";
+import { liveEvents } from "./live-events";
+import { channelService } from "./channels";
+import { Fan, InsertModerationRule, ModerationQueue, ModerationReview, ModerationRule, Persona } from "@shared/schema";
+
+// What a moderation queue item is linked to, so reviewers see it in context
+export interface ModerationLink {
+  messageId?: string;
+  fanId?: string;
+  conversationId?: string;
+  creatorId?: string;
+}
+
+export interface MatchedRule {
+  id: string;
+  version: number;
+  name: string;
+  ruleType: string;
+  action: string;
+}
 
 export interface ModerationResult {
   action: 'allow' | 'block' | 'escalate' | 'review';
   reason?: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   confidence: number;
+  // Every rule that matched, at the version that was evaluated
+  matchedRules: MatchedRule[];
+}
+
+// Seeded as global rules the first time the rule table is empty
+export const DEFAULT_MODERATION_RULES: InsertModerationRule[] = [
+  { name: 'Profanity', ruleType: 'banned', matchType: 'regex', pattern: '\\b(?:fuck|shit|damn|bitch)\\b', severity: 'high', action: 'block' },
+  { name: 'IRL meetup attempts', ruleType: 'banned', matchType: 'regex', pattern: '\\b(?:meet|meetup|hotel|address|phone)\\b', severity: 'high', action: 'block' },
+  { name: 'Age references', ruleType: 'banned', matchType: 'regex', pattern: '\\b(?:under|kid|minor|teen|child)\\b.*\\b(?:18|years|age)\\b', severity: 'high', action: 'block' },
+  { name: 'Violence and self-harm', ruleType: 'banned', matchType: 'regex', pattern: '\\b(?:suicide|kill|death|harm)\\b', severity: 'high', action: 'block' },
+  { name: 'Illegal substances', ruleType: 'banned', matchType: 'regex', pattern: '\\b(?:drug|cocaine|heroin|meth)\\b', severity: 'high', action: 'block' },
+  { name: 'Age-play indicators', ruleType: 'suspicious', matchType: 'regex', pattern: '\\b(?:daddy|baby|little)\\b', severity: 'medium', action: 'review' },
+  { name: 'Non-consensual content', ruleType: 'suspicious', matchType: 'regex', pattern: '\\b(?:rape|force|non-consent)\\b', severity: 'medium', action: 'review' },
+  { name: 'Demanding free content', ruleType: 'suspicious', matchType: 'regex', pattern: '\\b(?:send|show|pics|nude)\\b.*\\b(?:free|no|without)\\b', severity: 'medium', action: 'review' },
+  { name: 'Off-platform payments', ruleType: 'suspicious', matchType: 'regex', pattern: '\\$\\d+.*\\b(?:cash|paypal|venmo)\\b', severity: 'medium', action: 'review' },
+  { name: 'Minor-related content', ruleType: 'escalation', matchType: 'regex', pattern: '\\b(?:minor|under.*18|underage)\\b', severity: 'critical', action: 'escalate' },
+  { name: 'Violence and threats', ruleType: 'escalation', matchType: 'regex', pattern: '\\b(?:kill|suicide|harm|violence)\\b', severity: 'critical', action: 'escalate' },
+  { name: 'Doxxing and stalking', ruleType: 'escalation', matchType: 'regex', pattern: '\\b(?:personal|real|actual|home)\\b.*\\b(?:address|location|meet)\\b', severity: 'critical', action: 'escalate' },
+];
+
+// Higher wins when several rules match
+const ACTION_PRIORITY: Record<string, number> = { review: 1, block: 2, escalate: 3 };
+
+const ACTION_CONFIDENCE: Record<string, number> = { review: 0.7, block: 0.9, escalate: 0.95 };
+
+export interface OutboundViolation {
+  rule: 'dont_say' | 'disclosure_missing' | 'impersonation' | 'explicit' | 'off_platform_payment';
+  detail: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+}
+
+// 'regenerate' asks the caller to retry generation; once retries run out the caller holds the message
+export interface OutboundModerationResult {
+  action: 'allow' | 'regenerate' | 'hold' | 'block';
+  reason?: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  violations: OutboundViolation[];
 }
 
+const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * Rejects regex constructs that can backtrack catastrophically on a crafted
+ * message: a repeated group that itself repeats or alternates, as in (a+)+
+ * or (a|ab)*, and backreferences. The scan is syntactic, so it errs towards
+ * rejecting patterns that would in fact be safe.
+ */
+function assertSafePattern(pattern: string): void {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Regex patterns are limited to ${MAX_PATTERN_LENGTH} characters`);
+  }
+
+  // One entry per open group: whether it contains a repeat or an alternation
+  const groups: { repeats: boolean; alternates: boolean }[] = [{ repeats: false, alternates: false }];
+  const isRepeat = (index: number) => pattern[index] === '*' || pattern[index] === '+' || pattern[index] === '{';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] || '')) {
+        throw new Error('Regex patterns cannot use backreferences');
+      }
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; a ] straight after [ or [^ is literal
+      const start = i + (pattern[i + 1] === '^' ? 2 : 1);
+      for (i = start; i < pattern.length && (pattern[i] !== ']' || i === start); i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+    } else if (char === ')' && groups.length > 1) {
+      const group = groups.pop()!;
+      if (isRepeat(i + 1) && (group.repeats || group.alternates)) {
+        throw new Error('Regex patterns cannot repeat a group that itself repeats or has alternatives');
+      }
+      groups[groups.length - 1].repeats ||= group.repeats;
+    } else if (char === '|') {
+      current.alternates = true;
+    } else if (isRepeat(i)) {
+      current.repeats = true;
+    }
+  }
+}
+
+// Midnight server time, the day boundary the dashboard metrics use
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2, critical: 3 } as const;
+
+const REVIEW_STATUS: Record<ModerationReview['decision'], string> = {
+  approve: 'approved',
+  block: 'blocked',
+  escalate: 'escalated',
+};
+
 export class ModerationService {
-  private bannedPatterns: RegExp[] = [
-    /\b(?:fuck|shit|damn|bitch)\b/gi, // Profanity
-    /\b(?:meet|meetup|hotel|address|phone)\b/gi, // IRL meetup attempts
-    /\b(?:under|kid|minor|teen|child)\b.*\b(?:18|years|age)\b/gi, // Age-related
-    /\b(?:suicide|kill|death|harm)\b/gi, // Violence/self-harm
-    /\b(?:drug|cocaine|heroin|meth)\b/gi, // Illegal substances
+  // Checks applied to AI-generated replies before they reach the fan
+  private explicitPatterns: RegExp[] = [
+    /\b(?:nude|naked|porn\w*|sex|cock|pussy|cum|orgasm\w*|masturbat\w*|blowjob|anal)\b/i,
   ];
 
-  private suspiciousPatterns: RegExp[] = [
-    /\b(?:daddy|baby|little)\b/gi, // Age-play indicators
-    /\b(?:rape|force|non-consent)\b/gi, // Non-consensual content
-    /\b(?:send|show|pics|nude)\b.*\b(?:free|no|without)\b/gi, // Demanding free content
-    /\$\d+.*\b(?:cash|paypal|venmo)\b/gi, // Off-platform payments
+  private offPlatformPaymentPatterns: RegExp[] = [
+    /\b(?:cash\s?app|venmo|paypal|zelle|crypto|bitcoin|btc|gift\s?cards?|wire transfer)\b/i,
+    /\b(?:telegram|whatsapp|snapchat|kik)\b/i,
   ];
 
-  private escalationPatterns: RegExp[] = [
-    /\b(?:minor|under.*18|underage)\b/gi, // Minor-related content
-    /\b(?:kill|suicide|harm|violence)\b/gi, // Violence/threats
-    /\b(?:personal|real|actual|home)\b.*\b(?:address|location|meet)\b/gi, // Doxxing/stalking
+  private impersonationPatterns: RegExp[] = [
+    /\bi(?:'m| am) (?:not an? (?:ai|bot)|a real (?:person|human|girl|woman|man|guy))\b/i,
   ];
 
-  async moderateMessage(content: string, fanId?: string): Promise<ModerationResult> {
-    const normalizedContent = content.toLowerCase().trim();
-    
-    // Check for escalation patterns first (highest severity)
-    for (const pattern of this.escalationPatterns) {
-      if (pattern.test(content)) {
-        await this.logToModerationQueue(content, 'escalation_pattern', 'critical');
-        return {
-          action: 'escalate',
-          reason: 'Content matches critical violation pattern',
-          severity: 'critical',
-          confidence: 0.95
-        };
+  private disclosureMarkers = /\b(?:ai|artificial intelligence|virtual assistant|bot)\b/i;
+
+  /**
+   * Moderates an AI reply against the persona's dontSay list, disclosure
+   * requirements, explicitness and off-platform payment rules. Pass
+   * requireDisclosure for the first AI message of a conversation.
+   */
+  moderateOutbound(content: string, persona: Persona, options: { requireDisclosure?: boolean } = {}): OutboundModerationResult {
+    const violations: OutboundViolation[] = [];
+    const normalizedContent = content.toLowerCase();
+
+    for (const term of persona.dontSay || []) {
+      const normalizedTerm = term.toLowerCase().trim();
+      if (normalizedTerm && normalizedContent.includes(normalizedTerm)) {
+        violations.push({ rule: 'dont_say', detail: `Uses a "don't say" term: ${term}`, severity: 'medium' });
+      }
+    }
+
+    if (options.requireDisclosure) {
+      const disclosure = persona.disclosure?.toLowerCase().trim();
+      const disclosed = (disclosure && normalizedContent.includes(disclosure)) || this.disclosureMarkers.test(content);
+      if (!disclosed) {
+        violations.push({ rule: 'disclosure_missing', detail: 'First reply does not disclose that the fan is chatting with an AI', severity: 'low' });
       }
     }
 
-    // Check for banned patterns
-    for (const pattern of this.bannedPatterns) {
-      if (pattern.test(content)) {
-        await this.logToModerationQueue(content, 'banned_pattern', 'high');
-        return {
-          action: 'block',
-          reason: 'Content matches banned pattern',
-          severity: 'high',
-          confidence: 0.9
-        };
+    if (this.impersonationPatterns.some(pattern => pattern.test(content))) {
+      violations.push({ rule: 'impersonation', detail: 'Claims to be a human', severity: 'high' });
+    }
+
+    if (this.explicitPatterns.some(pattern => pattern.test(content))) {
+      violations.push({ rule: 'explicit', detail: 'Contains explicit sexual content', severity: 'high' });
+    }
+
+    if (this.offPlatformPaymentPatterns.some(pattern => pattern.test(content))) {
+      violations.push({ rule: 'off_platform_payment', detail: 'Mentions off-platform payments or contact', severity: 'medium' });
+    }
+
+    if (violations.length === 0) {
+      return { action: 'allow', severity: 'low', violations };
+    }
+
+    const severity = violations.reduce<OutboundViolation['severity']>(
+      (highest, violation) => SEVERITY_RANK[violation.severity] > SEVERITY_RANK[highest] ? violation.severity : highest,
+      'low'
+    );
+    const blocking = violations.some(violation => violation.rule === 'impersonation' || violation.rule === 'explicit');
+
+    return {
+      action: blocking ? 'block' : 'regenerate',
+      reason: violations.map(violation => violation.detail).join('; '),
+      severity,
+      violations,
+    };
+  }
+
+  // Queues a held AI message for human review, linked to the stored message
+  async holdForReview(content: string, result: OutboundModerationResult, link: ModerationLink): Promise<void> {
+    await this.logToModerationQueue(content, `OUTBOUND: ${result.reason || 'held for review'}`, result.severity, link);
+  }
+
+  // Compiled patterns keyed by rule id and version, so edits recompile automatically
+  private compiledRules = new Map<string, RegExp>();
+  private defaultsSeeded: Promise<void> | null = null;
+
+  /**
+   * Compiles a rule into a case-insensitive matcher, throwing for patterns
+   * that are invalid or unsafe to run. Never uses the `g` flag: a global
+   * regex keeps lastIndex between test() calls.
+   */
+  compileRule(rule: { matchType: string; pattern?: string | null; keywords?: string[] | null }): RegExp {
+    if (rule.matchType === 'keywords') {
+      const keywords = (rule.keywords || [])
+        .map(keyword => keyword.trim())
+        .filter(Boolean)
+        .map(keyword => keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      if (keywords.length === 0) {
+        throw new Error('Keyword rules need at least one keyword');
       }
+      // Lookarounds rather than \b so keywords may start or end with punctuation
+      return new RegExp(`(?<!\\w)(?:${keywords.join('|')})(?!\\w)`, 'i');
+    }
+
+    if (!rule.pattern) {
+      throw new Error('Regex rules need a pattern');
     }
+    assertSafePattern(rule.pattern);
+    return new RegExp(rule.pattern, 'i');
+  }
 
-    // Check for suspicious patterns
-    for (const pattern of this.suspiciousPatterns) {
-      if (pattern.test(content)) {
-        await this.logToModerationQueue(content, 'suspicious_pattern', 'medium');
-        return {
-          action: 'review',
-          reason: 'Content matches suspicious pattern',
-          severity: 'medium',
-          confidence: 0.7
-        };
+  private getMatcher(rule: ModerationRule): RegExp | null {
+    const key = `${rule.id}@${rule.version}`;
+    let matcher = this.compiledRules.get(key);
+    if (!matcher) {
+      try {
+        matcher = this.compileRule(rule);
+      } catch (error) {
+        console.error(`Skipping invalid moderation rule ${rule.id}:`, error);
+        return null;
       }
+      this.compiledRules.set(key, matcher);
+    }
+    return matcher;
+  }
+
+  // Only into an empty table, so defaults an admin has since renamed are not added back
+  private async seedDefaultRules(): Promise<void> {
+    const existing = await storage.getModerationRules();
+    if (existing.length === 0) {
+      await storage.seedModerationRules(DEFAULT_MODERATION_RULES);
     }
+  }
 
-    // Check message length and complexity
-    if (content.length < 3) {
+  private async loadRules(creatorId?: string): Promise<ModerationRule[]> {
+    // Shared by concurrent callers; other instances racing to seed collide on the rule name
+    this.defaultsSeeded ??= this.seedDefaultRules().catch(error => {
+      this.defaultsSeeded = null;
+      throw error;
+    });
+    await this.defaultsSeeded;
+
+    return await storage.getActiveModerationRules(creatorId);
+  }
+
+  /**
+   * Evaluates content against the global rules and, when given, the
+   * creator's own rules. The highest-priority matching action wins.
+   */
+  async evaluateRules(content: string, creatorId?: string): Promise<ModerationResult> {
+    const rules = await this.loadRules(creatorId);
+    const matches = rules.filter(rule => this.getMatcher(rule)?.test(content));
+
+    if (matches.length === 0) {
       return {
         action: 'allow',
         severity: 'low',
-        confidence: 0.8
+        confidence: content.length < 3 ? 0.8 : 0.95,
+        matchedRules: [],
       };
     }
 
-    // Allow by default
+    const top = matches.reduce((best, rule) =>
+      (ACTION_PRIORITY[rule.action] || 0) > (ACTION_PRIORITY[best.action] || 0) ? rule : best
+    );
+
     return {
-      action: 'allow',
-      severity: 'low',
-      confidence: 0.95
+      action: top.action as ModerationResult['action'],
+      reason: `Content matches ${top.ruleType} rule: ${top.name}`,
+      severity: top.severity as ModerationResult['severity'],
+      confidence: ACTION_CONFIDENCE[top.action] || 0.7,
+      matchedRules: matches.map(rule => ({
+        id: rule.id,
+        version: rule.version,
+        name: rule.name,
+        ruleType: rule.ruleType,
+        action: rule.action,
+      })),
     };
   }
 
-  private async logToModerationQueue(content: string, flagReason: string, severity: 'low' | 'medium' | 'high' | 'critical'): Promise<void> {
+  // Escalations are not queued here; escalateMessage queues them with the escalation reason
+  async moderateMessage(content: string, link: ModerationLink = {}): Promise<ModerationResult> {
+    const result = await this.evaluateRules(content, link.creatorId);
+
+    if (result.action === 'block' || result.action === 'review') {
+      const ruleType = result.matchedRules.find(rule => rule.action === result.action)?.ruleType;
+      await this.logToModerationQueue(content, `${ruleType}_pattern`, result.severity, link);
+    }
+
+    return result;
+  }
+
+  private async logToModerationQueue(content: string, flagReason: string, severity: 'low' | 'medium' | 'high' | 'critical', link: ModerationLink = {}): Promise<ModerationQueue | undefined> {
     try {
-      await storage.createModerationQueue({
+      const item = await storage.createModerationQueue({
+        ...link,
         content,
         flagReason,
         severity,
         status: 'pending'
       });
+      liveEvents.publish(link.creatorId, {
+        type: 'moderation.queued',
+        itemId: item.id,
+        conversationId: item.conversationId,
+        severity,
+        flagReason,
+      });
+      liveEvents.publish(link.creatorId, { type: 'metrics.delta', delta: { moderatedToday: 1 } });
+      return item;
     } catch (error) {
       console.error('Failed to log to moderation queue:', error);
+      return undefined;
     }
   }
 
-  async checkConsentGate(fanId: string): Promise<boolean> {
+  // Consent is per creator and judged by the latest ledger record, so it needs the persona being spoken for
+  async checkConsentGate(fan: Fan, persona: Persona): Promise<boolean> {
     try {
-      const fan = await storage.getFan(fanId);
-      if (!fan) return false;
-
-      const consent = fan.consentStatus as any;
-      return consent?.ageAffirmed && consent?.romanticContent;
+      return (await consentService.evaluate(fan, persona)).valid;
     } catch (error) {
       console.error('Error checking consent gate:', error);
       return false;
     }
   }
 
-  async checkStopWords(content: string): Promise<boolean> {
-    const stopWords = ['stop', 'unsubscribe', 'no', 'quit', 'end', 'block'];
-    const normalizedContent = content.toLowerCase().trim();
-    
-    return stopWords.some(word => 
-      normalizedContent === word || 
-      normalizedContent.includes(` ${word} `) ||
-      normalizedContent.startsWith(`${word} `) ||
-      normalizedContent.endsWith(` ${word}`)
-    );
-  }
-
-  async escalateMessage(content: string, reason: string, fanId?: string): Promise<void> {
-    console.error(`ESCALATION: ${reason}`, { content, fanId });
+  async escalateMessage(content: string, reason: string, link: ModerationLink = {}): Promise<void> {
+    console.error(`ESCALATION: ${reason}`, { content, fanId: link.fanId });
     
     // Log to moderation queue for human review
-    await this.logToModerationQueue(content, `ESCALATED: ${reason}`, 'critical');
+    const item = await this.logToModerationQueue(content, `ESCALATED: ${reason}`, 'critical', link);
+    liveEvents.publish(link.creatorId, {
+      type: 'moderation.escalated',
+      itemId: item?.id ?? null,
+      conversationId: link.conversationId ?? null,
+      reason,
+      paused: false,
+    });
     
     // In a real implementation, this would:
     // - Send alert to human moderators
-    // - Temporarily suspend AI responses to this fan
     // - Log detailed incident report
     // - Potentially contact platform safety teams
   }
 
-  async getComplianceScore(): Promise<number> {
+  /**
+   * Records a reviewer's decision on a queue item and applies it to the
+   * linked message: approving releases a held AI reply to the fan, blocking
+   * marks the message blocked, and escalating pauses the conversation unless
+   * pauseConversation is false.
+   */
+  async reviewQueueItem(item: ModerationQueue, review: ModerationReview, reviewerId: string): Promise<ModerationQueue> {
+    const message = item.messageId ? await storage.getMessage(item.messageId) : undefined;
+
+    switch (review.decision) {
+      case 'approve':
+        if (message) {
+          // Held replies were stored unsent; stamping sentAt releases them,
+          // unless the fan has opted out since. Scheduled messages are left
+          // for the dispatcher to send on time.
+          const fan = item.fanId ? await storage.getFan(item.fanId) : undefined;
+          const release = !message.dispatchStatus && !(message.sender !== 'fan' && fan && optOutService.isOptedOut(fan));
+          const conversation = release && !message.sentAt && message.sender !== 'fan'
+            ? await storage.getConversation(message.conversationId)
+            : undefined;
+          // A reply held before the fan revoked consent must not reach them after it
+          const persona = conversation && await storage.getPersona(conversation.personaId);
+          if (fan && persona && message.type !== 'consent_prompt' && !await this.checkConsentGate(fan, persona)) {
+            throw new ConsentError("Fan's consent is no longer valid; the held reply cannot be released", 409);
+          }
+          const approved = await storage.updateMessage(message.id, {
+            moderationStatus: 'approved',
+            sentAt: release ? message.sentAt ?? new Date() : message.sentAt,
+          });
+          if (conversation) {
+            await channelService.deliver(approved, conversation);
+          }
+        }
+        break;
+      case 'block':
+        if (message) {
+          await storage.updateMessage(message.id, { moderationStatus: 'blocked' });
+        }
+        // blockedToday counts items flagged today that ended up blocked
+        if (item.createdAt >= startOfToday()) {
+          liveEvents.publish(item.creatorId, { type: 'metrics.delta', delta: { blockedToday: 1 } });
+        }
+        break;
+      case 'escalate':
+        liveEvents.publish(item.creatorId, {
+          type: 'moderation.escalated',
+          itemId: item.id,
+          conversationId: item.conversationId,
+          reason: review.reason,
+          paused: !!item.conversationId && review.pauseConversation !== false,
+        });
+        if (item.conversationId && review.pauseConversation !== false) {
+          // A pause also ends any operator's hold on the conversation
+          await storage.updateConversation(item.conversationId, {
+            mode: 'paused',
+            pausedAt: new Date(),
+            pausedReason: review.reason,
+            heldBy: null,
+            heldAt: null,
+            humanActivityAt: null,
+          });
+        }
+        break;
+    }
+
+    const updated = await storage.updateModerationQueue(item.id, {
+      status: REVIEW_STATUS[review.decision],
+      decision: review.decision,
+      decisionReason: review.reason,
+      severity: review.decision === 'escalate' ? 'critical' : item.severity,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+    });
+
+    await auditService.logModerationAction(item.messageId || '', review.decision, review.reason, updated.severity, reviewerId);
+
+    return updated;
+  }
+
+  async getComplianceScore(creatorId?: string): Promise<number> {
     try {
-      const queue = await storage.getModerationQueue();
+      const queue = await storage.getModerationQueue(undefined, creatorId);
       const total = queue.length;
       
       if (total === 0) return 100;
@@ -160,28 +468,6 @@ export class ModerationService {
       return 98.0; // Default safe score
     }
   }
-
-  async processStopRequest(fanId: string): Promise<void> {
-    try {
-      // Update fan preferences to opt out
-      await storage.updateFan(fanId, {
-        boundaries: ['stop_all_messages'],
-        preferences: { opted_out: true }
-      });
-
-      // Log the stop request
-      await storage.createAuditLog({
-        action: 'stop_request',
-        entityType: 'fan',
-        entityId: fanId,
-        details: { reason: 'user_requested_stop' }
-      });
-
-      console.log(`Stop request processed for fan: ${fanId}`);
-    } catch (error) {
-      console.error('Error processing stop request:', error);
-    }
-  }
 }
 
 export const moderationService = new ModerationService();
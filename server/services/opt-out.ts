@@ -0,0 +1,74 @@
+import { Fan, OptOutEvent } from "@shared/schema";
+import { storage } from "../storage";
+import { auditService } from "./audit";
+
+export type OptOutKeyword = 'stop' | 'start';
+
+// Only a message consisting of one of these words counts; "no" or "end of story" do not
+const STOP_KEYWORDS = ['stop', 'stopall', 'unsubscribe', 'cancel', 'end', 'quit'];
+const START_KEYWORDS = ['start', 'unstop', 'subscribe', 'resume'];
+
+export const STOP_CONFIRMATION = "You've been unsubscribed and won't get any more messages from me. Reply START any time to resubscribe.";
+export const START_CONFIRMATION = "Welcome back! You're subscribed again. Reply STOP any time to unsubscribe. 💕";
+
+export interface OptOutInput {
+  channel: string;
+  keyword?: string;
+  creatorId?: string;
+  sourceMessageId?: string;
+  reason?: string;
+  recordedBy?: string;
+}
+
+/**
+ * Opt-out is a fan-wide state covering every creator and every outbound
+ * path. Fans leave with STOP (or an operator records it for them) and come
+ * back only by sending START themselves.
+ */
+export class OptOutService {
+  parseKeyword(content: string): OptOutKeyword | null {
+    const word = content.trim().toLowerCase().replace(/[\s.!]+$/, '');
+    if (STOP_KEYWORDS.includes(word)) return 'stop';
+    if (START_KEYWORDS.includes(word)) return 'start';
+    return null;
+  }
+
+  // Fans opted out before opted_out_at existed only carry the preferences flag
+  isOptedOut(fan: Fan): boolean {
+    return !!fan.optedOutAt || fan.preferences?.opted_out === true;
+  }
+
+  // Repeated opt-outs keep the original timestamp and write no new event
+  async optOut(fan: Fan, input: OptOutInput): Promise<Fan> {
+    if (fan.optedOutAt) return fan;
+
+    const { fan: updated, event } = await storage.recordOptOutEvent({ ...input, fanId: fan.id, action: 'opt_out' });
+    await auditService.logFanInteraction(fan.id, 'opted_out', this.auditDetails(event));
+    return updated;
+  }
+
+  async optIn(fan: Fan, input: OptOutInput): Promise<Fan> {
+    if (!this.isOptedOut(fan)) return fan;
+
+    const { fan: updated, event } = await storage.recordOptOutEvent({ ...input, fanId: fan.id, action: 'opt_in' });
+    await auditService.logFanInteraction(fan.id, 'opted_in', this.auditDetails(event));
+    return updated;
+  }
+
+  async history(fanId: string): Promise<OptOutEvent[]> {
+    return await storage.getOptOutEvents(fanId);
+  }
+
+  private auditDetails(event: OptOutEvent) {
+    return {
+      optOutEventId: event.id,
+      channel: event.channel,
+      keyword: event.keyword,
+      creatorId: event.creatorId,
+      sourceMessageId: event.sourceMessageId,
+      reason: event.reason,
+    };
+  }
+}
+
+export const optOutService = new OptOutService();
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type Stripe from "stripe";
+import type { Payment } from "@shared/schema";
+import { storage, type IStorage, type PaymentRefund } from "../storage";
+import { paymentService } from "./payments";
+
+let payment: Payment | undefined;
+const released: string[] = [];
+const refunds: PaymentRefund[] = [];
+
+const stubs: Pick<IStorage, "claimStripeEvent" | "releaseStripeEvent" | "getPaymentByStripeIntentId" | "refundPayment"> = {
+  claimStripeEvent: async () => true,
+  releaseStripeEvent: async (id) => {
+    released.push(id);
+  },
+  getPaymentByStripeIntentId: async () => payment,
+  refundPayment: async (refund) => {
+    refunds.push(refund);
+    return { ...payment!, refundedCents: refund.refundedCents, status: refund.status ?? payment!.status };
+  },
+};
+Object.assign(storage, stubs);
+
+const refundEvent = (id: string) => ({
+  id,
+  type: "charge.refunded",
+  data: { object: { payment_intent: "pi_1", amount_refunded: 500 } },
+}) as unknown as Stripe.Event;
+
+test("leaves a refund for Stripe to retry when its payment is not recorded yet", async () => {
+  payment = undefined;
+
+  await assert.rejects(paymentService.handleWebhookEvent(refundEvent("evt_1")), /before its payment completed/);
+  assert.ok(released.includes("evt_1"));
+});
+
+test("leaves a refund for Stripe to retry when its payment is still pending", async () => {
+  payment = { id: "payment-1", status: "pending", amountCents: 500 } as Payment;
+
+  await assert.rejects(paymentService.handleWebhookEvent(refundEvent("evt_2")), /before its payment completed/);
+  assert.ok(released.includes("evt_2"));
+});
+
+test("applies a partial refund and its spend tier change through one storage call", async () => {
+  payment = { id: "payment-1", status: "completed", amountCents: 2000, refundedCents: 0, fanId: "fan-1", creatorId: "creator-1", productType: "photo_set" } as Payment;
+  refunds.length = 0;
+
+  await paymentService.handleWebhookEvent(refundEvent("evt_3"));
+
+  assert.equal(refunds.length, 1);
+  assert.equal(refunds[0].refundedCents, 500);
+  assert.equal(refunds[0].status, undefined);
+  assert.equal(refunds[0].resolveSpendTier(0), "free");
+});
+
+test("ignores a refund total that was already applied", async () => {
+  payment = { id: "payment-1", status: "completed", amountCents: 2000, refundedCents: 500 } as Payment;
+  refunds.length = 0;
+
+  await paymentService.handleWebhookEvent(refundEvent("evt_4"));
+
+  assert.equal(refunds.length, 0);
+});
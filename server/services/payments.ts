@@ -0,0 +1,186 @@
+import Stripe from "stripe";
+import { Payment } from "@shared/schema";
+import { storage } from "../storage";
+import { auditService } from "./audit";
+import { fulfillmentService, spendTierFor } from "./fulfillment";
+import { liveEvents } from "./live-events";
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'disputed';
+
+// Allowed status changes; anything else is logged and ignored
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['completed', 'failed'],
+  // A fan can retry a failed intent with another card
+  failed: ['completed'],
+  completed: ['refunded', 'disputed'],
+  disputed: ['completed', 'refunded'],
+  refunded: [],
+};
+
+export interface WebhookResult {
+  duplicate: boolean;
+}
+
+export class PaymentService {
+  /**
+   * Applies a verified Stripe event exactly once. The event ID is claimed
+   * before processing and released if processing throws, so Stripe's retry
+   * of a failed delivery is processed again while successful replays are
+   * skipped.
+   */
+  async handleWebhookEvent(event: Stripe.Event): Promise<WebhookResult> {
+    if (!await storage.claimStripeEvent(event.id, event.type)) {
+      return { duplicate: true };
+    }
+
+    try {
+      switch (event.type) {
+        case 'payment_intent.succeeded':
+          await this.handlePaymentSucceeded(event.data.object);
+          break;
+        case 'payment_intent.payment_failed':
+          await this.handlePaymentFailed(event.data.object);
+          break;
+        case 'charge.refunded':
+          await this.handleChargeRefunded(event.data.object);
+          break;
+        case 'charge.dispute.created':
+          await this.handleDisputeCreated(event.data.object);
+          break;
+      }
+    } catch (error) {
+      await storage.releaseStripeEvent(event.id);
+      throw error;
+    }
+
+    return { duplicate: false };
+  }
+
+  async transition(payment: Payment, to: PaymentStatus, updates: Record<string, any> = {}): Promise<Payment | undefined> {
+    const from = payment.status as PaymentStatus;
+    if (from === to) return payment;
+
+    if (!PAYMENT_TRANSITIONS[from]?.includes(to)) {
+      console.warn(`Ignoring payment ${payment.id} transition ${from} -> ${to}`);
+      return undefined;
+    }
+
+    const updated = await storage.transitionPaymentStatus(payment.id, from, { ...updates, status: to });
+    if (!updated) {
+      console.warn(`Payment ${payment.id} changed status concurrently; skipping ${from} -> ${to}`);
+      return undefined;
+    }
+
+    await auditService.logPayment(updated.id, updated.fanId, updated.amountCents, updated.productType, to);
+    this.publishChange(payment, updated);
+    return updated;
+  }
+
+  // Revenue counts completed payments net of refunds, so the delta is the change in that amount
+  private publishChange(before: Payment, after: Payment): void {
+    const countedCents = (payment: Payment) => payment.status === 'completed' ? payment.amountCents - payment.refundedCents : 0;
+
+    liveEvents.publish(after.creatorId, {
+      type: 'payment.updated',
+      paymentId: after.id,
+      fanId: after.fanId,
+      status: after.status,
+      amountCents: after.amountCents,
+    });
+    const revenueCents = countedCents(after) - countedCents(before);
+    if (revenueCents !== 0) {
+      liveEvents.publish(after.creatorId, { type: 'metrics.delta', delta: { totalRevenue: revenueCents / 100 } });
+    }
+  }
+
+  private async findPayment(paymentIntent: string | Stripe.PaymentIntent | null): Promise<Payment | undefined> {
+    const paymentIntentId = typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id;
+    if (!paymentIntentId) return undefined;
+
+    const payment = await storage.getPaymentByStripeIntentId(paymentIntentId);
+    if (!payment) {
+      console.warn(`No payment record for Stripe payment intent ${paymentIntentId}`);
+    }
+    return payment;
+  }
+
+  /**
+   * Stripe does not guarantee event order, so a refund or dispute can arrive
+   * before the payment is recorded or marked completed. Throwing releases the
+   * event and answers the webhook with a 5xx, so Stripe delivers it again.
+   */
+  private async findSettledPayment(paymentIntent: string | Stripe.PaymentIntent | null, eventType: string): Promise<Payment | undefined> {
+    if (!paymentIntent) return undefined;
+
+    const payment = await this.findPayment(paymentIntent);
+    if (!payment || payment.status === 'pending' || payment.status === 'failed') {
+      throw new Error(`Received ${eventType} before its payment completed; leaving it for Stripe to retry`);
+    }
+    return payment;
+  }
+
+  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const payment = await this.findPayment(paymentIntent);
+    if (!payment) return;
+
+    const completed = await this.transition(payment, 'completed', { completedAt: new Date() });
+
+    // Also covers a retried event whose earlier fulfillment attempt failed
+    if (completed && !completed.fulfilledAt) {
+      await fulfillmentService.fulfill(completed);
+    }
+  }
+
+  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+    const payment = await this.findPayment(paymentIntent);
+    if (!payment) return;
+
+    await this.transition(payment, 'failed', {
+      metadata: {
+        ...payment.metadata,
+        failureReason: paymentIntent.last_payment_error?.message || null,
+      },
+    });
+  }
+
+  // Partial refunds only reduce revenue; the payment is refunded once nothing is left
+  private async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    const payment = await this.findSettledPayment(charge.payment_intent, 'charge.refunded');
+    if (!payment) return;
+
+    // Stripe reports the running total, so a replayed or out-of-order refund changes nothing
+    if (payment.status === 'refunded' || charge.amount_refunded <= payment.refundedCents) return;
+
+    // Completed and disputed payments may both be refunded
+    const status = charge.amount_refunded >= payment.amountCents ? 'refunded' : undefined;
+    const updated = await storage.refundPayment({
+      paymentId: payment.id,
+      fromStatus: payment.status,
+      refundedCents: charge.amount_refunded,
+      status,
+      resolveSpendTier: spendTierFor,
+    });
+    if (!updated) {
+      console.warn(`Payment ${payment.id} changed concurrently; skipping refund of ${charge.amount_refunded} cents`);
+      return;
+    }
+
+    await auditService.logPayment(payment.id, payment.fanId, status ? updated.amountCents : charge.amount_refunded, payment.productType, status ?? 'partially_refunded');
+    this.publishChange(payment, updated);
+  }
+
+  private async handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+    const payment = await this.findSettledPayment(dispute.payment_intent, 'charge.dispute.created');
+    if (!payment) return;
+
+    await this.transition(payment, 'disputed', {
+      metadata: {
+        ...payment.metadata,
+        disputeId: dispute.id,
+        disputeReason: dispute.reason,
+      },
+    });
+  }
+}
+
+export const paymentService = new PaymentService();
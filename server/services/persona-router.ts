@@ -0,0 +1,112 @@
+import { Fan, Persona, PersonaRoutingConditions, PersonaRoutingRule } from "@shared/schema";
+import { storage } from "../storage";
+
+export interface RoutingContext {
+  channel?: string;
+  // Overrides the fan's stored language preference
+  language?: string;
+  at?: Date;
+}
+
+export interface RoutingDecision {
+  persona: Persona;
+  // 'conversation' when the fan already talks to one of the creator's personas
+  reason: 'conversation' | 'rule' | 'default';
+  ruleId?: string;
+}
+
+// Primary language subtag, so "en-GB" matches a rule for "en"
+function languageCode(language: string): string {
+  return language.toLowerCase().split(/[-_]/)[0];
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value || 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value || 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Picks the persona that answers a fan. A fan who already has an active
+ * conversation with one of the creator's personas stays with it; new
+ * conversations go to the first matching routing rule, then the default.
+ */
+export class PersonaRouter {
+  async route(fan: Fan, creatorId: string, context: RoutingContext = {}): Promise<RoutingDecision | undefined> {
+    const existing = await storage.getLatestConversationForFan(fan.id, creatorId);
+    if (existing) {
+      const persona = await storage.getPersona(existing.personaId);
+      if (persona?.isActive) return { persona, reason: 'conversation' };
+    }
+
+    return await this.routeNew(fan, creatorId, context);
+  }
+
+  // Ignores existing conversations; used to preview where a new one would land
+  async routeNew(fan: Fan, creatorId: string, context: RoutingContext = {}): Promise<RoutingDecision | undefined> {
+    const [rules, personas] = await Promise.all([
+      storage.getPersonaRoutingRules(creatorId),
+      storage.getPersonasByCreator(creatorId),
+    ]);
+    const active = new Map(personas.filter(persona => persona.isActive).map(persona => [persona.id, persona]));
+
+    for (const rule of rules) {
+      const persona = active.get(rule.personaId);
+      if (rule.isActive && persona && this.matches(rule, fan, context)) {
+        return { persona, reason: 'rule', ruleId: rule.id };
+      }
+    }
+
+    const fallback = await storage.getPersonaByCreatorId(creatorId);
+    return fallback ? { persona: fallback, reason: 'default' } : undefined;
+  }
+
+  matches(rule: PersonaRoutingRule, fan: Fan, context: RoutingContext): boolean {
+    const conditions: PersonaRoutingConditions = rule.conditions || {};
+
+    if (conditions.channels?.length) {
+      if (!context.channel || !conditions.channels.includes(context.channel)) return false;
+    }
+
+    if (conditions.languages?.length) {
+      const language = context.language || fan.preferences?.language;
+      if (!language) return false;
+      if (!conditions.languages.some(code => languageCode(code) === languageCode(language))) return false;
+    }
+
+    if (conditions.spendTiers?.length) {
+      if (!conditions.spendTiers.includes(fan.spendTier || 'free')) return false;
+    }
+
+    if (conditions.hours) {
+      const timeZone = conditions.hours.timezone || fan.timezone || 'UTC';
+      let now: number;
+      try {
+        now = localMinutes(context.at || new Date(), timeZone);
+      } catch {
+        // A fan timezone the runtime doesn't know falls back to UTC
+        now = localMinutes(context.at || new Date(), 'UTC');
+      }
+      const start = minutesOf(conditions.hours.start);
+      const end = minutesOf(conditions.hours.end);
+      // Windows like 22:00-06:00 wrap past midnight
+      const inWindow = start <= end ? now >= start && now < end : now >= start || now < end;
+      if (!inWindow) return false;
+    }
+
+    return true;
+  }
+}
+
+export const personaRouter = new PersonaRouter();
@@ -0,0 +1,76 @@
+import { PERSONA_VERSIONED_FIELDS, PersonaSnapshot, PersonaVersion } from "@shared/schema";
+
+type PersonaField = typeof PERSONA_VERSIONED_FIELDS[number];
+type Offer = NonNullable<PersonaSnapshot['offerMenu']>[number];
+
+export interface PersonaFieldDiff {
+  field: PersonaField;
+  before: unknown;
+  after: unknown;
+  // List fields only
+  added?: unknown[];
+  removed?: unknown[];
+  // offerMenu only: offers whose SKU exists in both versions but whose label or price changed
+  changed?: Array<{ sku: string; before: Offer; after: Offer }>;
+}
+
+export interface PersonaVersionDiff {
+  from: number;
+  to: number;
+  changes: PersonaFieldDiff[];
+}
+
+const LIST_FIELDS: PersonaField[] = ['voiceKeywords', 'doSay', 'dontSay'];
+
+// An empty list and a missing one mean the same thing to the prompt
+const normalize = (value: unknown) => (Array.isArray(value) && value.length === 0) || value === undefined ? null : value;
+const same = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+/**
+ * Compares persona versions field by field. Phrase lists report what was
+ * added and removed; the offer menu is matched by SKU.
+ */
+export class PersonaVersionService {
+  diff(from: PersonaVersion, to: PersonaVersion): PersonaVersionDiff {
+    const changes: PersonaFieldDiff[] = [];
+
+    for (const field of PERSONA_VERSIONED_FIELDS) {
+      const before = from.snapshot[field] ?? null;
+      const after = to.snapshot[field] ?? null;
+      if (same(before, after)) continue;
+
+      if (LIST_FIELDS.includes(field)) {
+        const beforeList = (before as string[] | null) || [];
+        const afterList = (after as string[] | null) || [];
+        changes.push({
+          field,
+          before,
+          after,
+          added: afterList.filter(item => !beforeList.includes(item)),
+          removed: beforeList.filter(item => !afterList.includes(item)),
+        });
+      } else if (field === 'offerMenu') {
+        changes.push({ field, before, after, ...this.diffOffers(from.snapshot.offerMenu || [], to.snapshot.offerMenu || []) });
+      } else {
+        changes.push({ field, before, after });
+      }
+    }
+
+    return { from: from.version, to: to.version, changes };
+  }
+
+  private diffOffers(before: Offer[], after: Offer[]) {
+    const beforeBySku = new Map(before.map(offer => [offer.sku, offer]));
+    const afterBySku = new Map(after.map(offer => [offer.sku, offer]));
+
+    return {
+      added: after.filter(offer => !beforeBySku.has(offer.sku)),
+      removed: before.filter(offer => !afterBySku.has(offer.sku)),
+      changed: after
+        .filter(offer => beforeBySku.has(offer.sku) && !same(beforeBySku.get(offer.sku), offer))
+        .map(offer => ({ sku: offer.sku, before: beforeBySku.get(offer.sku)!, after: offer })),
+    };
+  }
+}
+
+export const personaVersionService = new PersonaVersionService();
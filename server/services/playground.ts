@@ -0,0 +1,174 @@
+import { Conversation, Fan, Message, Persona, PersonaPreviewRequest } from "@shared/schema";
+import { moderationService, ModerationResult, OutboundModerationResult } from "./moderation";
+import { replyService, PreparedReply } from "./reply";
+import { optOutService, STOP_CONFIRMATION } from "./opt-out";
+import { consentService } from "./consent";
+import { toolRegistry, ToolExecution } from "./tools";
+import type { ProviderToolCall } from "./llm-providers";
+
+const PREVIEW_ID = 'preview';
+
+export interface PreviewResult {
+  // How far the message got: 'reply' means the model answered
+  outcome: 'blocked' | 'escalated' | 'stop_processed' | 'consent_required' | 'reply';
+  // What the fan would see: the reply, a gate's canned response, or nothing
+  reply: string | null;
+  deliveryStatus?: 'sent' | 'held' | 'blocked';
+  inboundModeration: ModerationResult;
+  outboundModeration?: OutboundModerationResult;
+  regenerations: number;
+  toolCalls: ProviderToolCall[];
+  toolExecutions: ToolExecution[];
+}
+
+/**
+ * Runs a fan message through the same opt-out → moderation → consent → LLM → tool
+ * pipeline as live replies, against a persona draft and a made-up fan.
+ * Nothing is stored, queued or charged: moderation rules are only evaluated
+ * and tools run in dry-run mode.
+ */
+export class PlaygroundService {
+  async preview(persona: Persona, request: PersonaPreviewRequest): Promise<PreviewResult> {
+    const draftPersona = { ...persona, ...request.draft } as Persona;
+    const fan = this.syntheticFan(request.fan);
+    const { message } = request;
+
+    const inboundModeration = await moderationService.evaluateRules(message, persona.creatorId);
+    const stopped = (outcome: PreviewResult['outcome'], reply: string | null): PreviewResult => ({
+      outcome,
+      reply,
+      inboundModeration,
+      regenerations: 0,
+      toolCalls: [],
+      toolExecutions: [],
+    });
+
+    if (optOutService.parseKeyword(message) === 'stop') return stopped('stop_processed', STOP_CONFIRMATION);
+    if (inboundModeration.action === 'block') return stopped('blocked', null);
+    if (inboundModeration.action === 'escalate') return stopped('escalated', null);
+    if (!fan.consentStatus?.ageAffirmed || !fan.consentStatus?.romanticContent) {
+      const text = await consentService.currentText(persona.creatorId);
+      return stopped('consent_required', consentService.promptFor({ state: 'missing', text }, draftPersona));
+    }
+
+    const conversation = this.syntheticConversation(draftPersona, fan, request.threadSummary);
+    const start = Date.now() - request.history.length * 1000;
+    // Newest first, as prepare() loads them
+    const recentMessages = request.history
+      .map((item, index) => this.syntheticMessage(index, item.sender, item.content, new Date(start + index * 1000)))
+      .reverse();
+    const inboundMessage = this.syntheticMessage(request.history.length, 'fan', message, new Date());
+
+    const prepared: PreparedReply = {
+      persona: draftPersona,
+      fan,
+      conversation,
+      fanMessage: message,
+      inboundMessage,
+      moderationResult: inboundModeration,
+      context: {
+        persona: draftPersona,
+        fan,
+        recentMessages,
+        threadSummary: request.threadSummary,
+        memories: [],
+      },
+    };
+
+    const draft = await replyService.generate(prepared);
+    const { aiResponse, outbound, regenerations } = await replyService.reviewOutbound(prepared, draft);
+    const delivered = outbound.action === 'allow';
+
+    // As in live replies, tool calls only run for replies that would be delivered
+    const toolCalls = aiResponse.toolCalls || [];
+    const toolExecutions = delivered
+      ? await toolRegistry.executeAll(toolCalls, {
+        persona: draftPersona,
+        fan,
+        conversationId: conversation.id,
+        fanMessage: message,
+        dryRun: true,
+      })
+      : [];
+
+    return {
+      outcome: 'reply',
+      reply: aiResponse.message,
+      deliveryStatus: delivered ? 'sent' : outbound.action === 'block' ? 'blocked' : 'held',
+      inboundModeration,
+      outboundModeration: outbound,
+      regenerations,
+      toolCalls,
+      toolExecutions,
+    };
+  }
+
+  private syntheticFan(profile: PersonaPreviewRequest['fan']): Fan {
+    const now = new Date();
+    return {
+      id: PREVIEW_ID,
+      xUserId: PREVIEW_ID,
+      handle: profile.handle,
+      displayName: profile.displayName ?? null,
+      timezone: profile.timezone ?? null,
+      preferences: profile.preferences ?? null,
+      spendTier: profile.spendTier,
+      lastPurchaseAt: null,
+      boundaries: profile.boundaries ?? null,
+      consentStatus: profile.consented
+        ? { ageAffirmed: true, romanticContent: true, timestamp: now.toISOString() }
+        : null,
+      optedOutAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private syntheticConversation(persona: Persona, fan: Fan, threadSummary?: string): Conversation {
+    const now = new Date();
+    return {
+      id: PREVIEW_ID,
+      fanId: fan.id,
+      personaId: persona.id,
+      threadSummary: threadSummary ?? null,
+      sentiment: 'neutral',
+      lastMessageAt: now,
+      isActive: true,
+      mode: 'ai',
+      pausedAt: null,
+      pausedReason: null,
+      heldBy: null,
+      heldAt: null,
+      humanActivityAt: null,
+      channel: null,
+      summaryUpdatedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private syntheticMessage(index: number, sender: 'fan' | 'ai', content: string, createdAt: Date): Message {
+    return {
+      id: `${PREVIEW_ID}-${index}`,
+      conversationId: PREVIEW_ID,
+      type: 'text',
+      content,
+      sender,
+      personaVersion: null,
+      moderationStatus: 'approved',
+      scheduledAt: null,
+      dispatchStatus: null,
+      dispatchAttempts: 0,
+      dispatchLockedUntil: null,
+      nextAttemptAt: null,
+      dispatchError: null,
+      sentAt: createdAt,
+      externalId: null,
+      deliveredAt: null,
+      readAt: null,
+      createdAt,
+    };
+  }
+}
+
+export const playgroundService = new PlaygroundService();
@@ -0,0 +1,241 @@
+import type { Request } from "express";
+import { z } from "zod";
+import { Persona, RateLimitBucket } from "@shared/schema";
+import { storage } from "../storage";
+import { auditService } from "./audit";
+import { llmService } from "./llm";
+import { moderationService } from "./moderation";
+
+export type RateLimitScope = 'ip' | 'fan' | 'persona' | 'creator';
+export type RateLimitStoreName = 'memory' | 'postgres';
+
+// A bucket holds up to capacity requests and regains refillPerMinute of them each minute
+export interface BucketLimit {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+// A null limit switches that scope off
+export type RateLimits = Record<RateLimitScope, BucketLimit | null>;
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  ip: { capacity: 60, refillPerMinute: 60 },
+  fan: { capacity: 8, refillPerMinute: 6 },
+  persona: { capacity: 120, refillPerMinute: 120 },
+  creator: { capacity: 300, refillPerMinute: 300 },
+};
+
+// Checked cheapest-to-abuse first
+const SCOPES: RateLimitScope[] = ['ip', 'fan', 'persona', 'creator'];
+
+// This many limited requests from one key within the window is logged as suspicious activity
+const SUSPICIOUS_STRIKES = 5;
+const STRIKE_WINDOW_MS = 10 * 60 * 1000;
+const MAX_TRACKED_KEYS = 10000;
+
+export interface TakeResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+type BucketState = Omit<RateLimitBucket, 'key'>;
+
+/**
+ * Refills a bucket for the time since it was last touched and takes one
+ * token if a whole one is available. Missing buckets start full.
+ */
+export function takeToken(current: BucketState | undefined, limit: BucketLimit, now: Date): { bucket: BucketState; result: TakeResult } {
+  const perMs = limit.refillPerMinute / 60000;
+  const elapsed = current ? Math.max(0, now.getTime() - current.updatedAt.getTime()) : 0;
+  const available = current ? Math.min(limit.capacity, current.tokens + elapsed * perMs) : limit.capacity;
+
+  if (available >= 1) {
+    return { bucket: { tokens: available - 1, updatedAt: now }, result: { allowed: true, retryAfterSeconds: 0 } };
+  }
+  return {
+    bucket: { tokens: available, updatedAt: now },
+    result: { allowed: false, retryAfterSeconds: Math.ceil((1 - available) / perMs / 1000) },
+  };
+}
+
+// Where bucket state lives; memory is per instance, postgres is shared by every instance
+export interface RateLimitStore {
+  readonly name: RateLimitStoreName;
+  take(key: string, limit: BucketLimit): Promise<TakeResult>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name: RateLimitStoreName = 'memory';
+  // fullAt: when the bucket will have refilled completely, and so equal a missing one
+  private buckets = new Map<string, BucketState & { fullAt: number }>();
+
+  async take(key: string, limit: BucketLimit): Promise<TakeResult> {
+    const now = new Date();
+    const { bucket, result } = takeToken(this.buckets.get(key), limit, now);
+    const fullAt = now.getTime() + ((limit.capacity - bucket.tokens) / limit.refillPerMinute) * 60000;
+    this.buckets.set(key, { ...bucket, fullAt });
+    if (this.buckets.size > MAX_TRACKED_KEYS) this.prune(now.getTime());
+    return result;
+  }
+
+  private prune(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    });
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name: RateLimitStoreName = 'postgres';
+
+  async take(key: string, limit: BucketLimit): Promise<TakeResult> {
+    return await storage.updateRateLimitBucket(key, current => takeToken(current, limit, new Date()));
+  }
+}
+
+export function createRateLimitStore(): RateLimitStore {
+  const store = (process.env.RATE_LIMIT_STORE as RateLimitStoreName) || 'memory';
+
+  switch (store) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store: ${store}`);
+  }
+}
+
+const bucketLimitSchema = z.object({
+  capacity: z.number().int().min(1),
+  refillPerMinute: z.number().positive(),
+});
+
+/**
+ * Reads RATE_LIMITS, a JSON object overriding the defaults per scope, e.g.
+ * {"fan":{"capacity":5,"refillPerMinute":3},"ip":false}. false turns a scope off.
+ */
+export function loadRateLimits(json = process.env.RATE_LIMITS): RateLimits {
+  if (!json) return DEFAULT_RATE_LIMITS;
+
+  const overrides = z.object({
+    ip: z.union([bucketLimitSchema, z.literal(false)]).optional(),
+    fan: z.union([bucketLimitSchema, z.literal(false)]).optional(),
+    persona: z.union([bucketLimitSchema, z.literal(false)]).optional(),
+    creator: z.union([bucketLimitSchema, z.literal(false)]).optional(),
+  }).strict().parse(JSON.parse(json));
+
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  for (const scope of SCOPES) {
+    const override = overrides[scope];
+    if (override !== undefined) limits[scope] = override === false ? null : override;
+  }
+  return limits;
+}
+
+export interface RateLimitSubject {
+  ip?: string;
+  fanId?: string;
+  personaId?: string;
+  creatorId?: string;
+}
+
+export type RateLimitDecision =
+  | { limited: false }
+  | {
+    limited: true;
+    scope: RateLimitScope;
+    key: string;
+    retryAfterSeconds: number;
+    // First limited request from this key in the current strike window
+    firstHit: boolean;
+  };
+
+const SUBJECT_FIELDS: Record<RateLimitScope, keyof RateLimitSubject> = {
+  ip: 'ip',
+  fan: 'fanId',
+  persona: 'personaId',
+  creator: 'creatorId',
+};
+
+/**
+ * Token-bucket throttling for the reply pipeline, keyed by IP, fan, persona
+ * and creator. Keys that keep hitting their limit are reported as
+ * suspicious activity once per strike window.
+ */
+export class RateLimiter {
+  private strikes = new Map<string, { count: number; since: number; reported: boolean }>();
+  // Slow-down lines by persona id and version, generated once each
+  private slowDownLines = new Map<string, Promise<string>>();
+
+  constructor(private store: RateLimitStore, private limits: RateLimits) {}
+
+  // A store failure lets the request through rather than taking replies down with it
+  async check(subject: RateLimitSubject, request?: Request): Promise<RateLimitDecision> {
+    for (const scope of SCOPES) {
+      const id = subject[SUBJECT_FIELDS[scope]];
+      const limit = this.limits[scope];
+      if (!id || !limit) continue;
+
+      const key = `${scope}:${id}`;
+      let result: TakeResult;
+      try {
+        result = await this.store.take(key, limit);
+      } catch (error) {
+        console.error(`Rate limit store failed for ${key}:`, error);
+        continue;
+      }
+
+      if (!result.allowed) {
+        const strikes = await this.strike(key, scope, subject, request);
+        return { limited: true, scope, key, retryAfterSeconds: result.retryAfterSeconds, firstHit: strikes === 1 };
+      }
+    }
+    return { limited: false };
+  }
+
+  async slowDownReply(persona: Persona): Promise<string> {
+    const cacheKey = `${persona.id}:${persona.version}`;
+    let line = this.slowDownLines.get(cacheKey);
+    if (!line) {
+      line = llmService.generateSlowDown(persona).then(message =>
+        moderationService.moderateOutbound(message, persona).action === 'allow'
+          ? message
+          : "Give me a minute to catch up, I'll be right back with you! 💕"
+      );
+      this.slowDownLines.set(cacheKey, line);
+    }
+    return await line;
+  }
+
+  // Counts limited requests per key; returns the count within the current window
+  private async strike(key: string, scope: RateLimitScope, subject: RateLimitSubject, request?: Request): Promise<number> {
+    const now = Date.now();
+    let entry = this.strikes.get(key);
+    if (!entry || now - entry.since > STRIKE_WINDOW_MS) {
+      entry = { count: 0, since: now, reported: false };
+      this.strikes.set(key, entry);
+    }
+    entry.count++;
+
+    if (entry.count >= SUSPICIOUS_STRIKES && !entry.reported) {
+      entry.reported = true;
+      await auditService.logSuspiciousActivity(key, {
+        reason: 'repeated_rate_limit',
+        scope,
+        strikes: entry.count,
+        windowSeconds: STRIKE_WINDOW_MS / 1000,
+        ...subject,
+      }, subject.fanId, request);
+    }
+
+    if (this.strikes.size > MAX_TRACKED_KEYS) {
+      this.strikes.forEach((value, trackedKey) => {
+        if (now - value.since > STRIKE_WINDOW_MS) this.strikes.delete(trackedKey);
+      });
+    }
+    return entry.count;
+  }
+}
+
+export const rateLimiter = new RateLimiter(createRateLimitStore(), loadRateLimits());
@@ -0,0 +1,360 @@
+import { Persona, Fan, Conversation, Message } from "@shared/schema";
+import { storage } from "../storage";
+import { llmService, AIResponse, ChatContext } from "./llm";
+import { moderationService, ModerationLink, ModerationResult, OutboundModerationResult } from "./moderation";
+import { auditService } from "./audit";
+import { memoryService } from "./memory";
+import { consentService } from "./consent";
+import { optOutService, STOP_CONFIRMATION, START_CONFIRMATION } from "./opt-out";
+import { takeoverService } from "./takeover";
+import { liveEvents } from "./live-events";
+import { channelService } from "./channels";
+import { toolRegistry, ToolExecution } from "./tools";
+
+// Outcome of the checks that run before any LLM call
+export type InboundGate =
+  | AcceptedInbound
+  | { proceed: false; httpStatus: number; body: Record<string, any> };
+
+export interface AcceptedInbound {
+  proceed: true;
+  conversation: Conversation;
+  // The fan's message, stored on receipt
+  inboundMessage: Message;
+  moderationResult: ModerationResult;
+}
+
+export interface PreparedReply {
+  persona: Persona;
+  fan: Fan;
+  conversation: Conversation;
+  context: ChatContext;
+  fanMessage: string;
+  inboundMessage: Message;
+  moderationResult: ModerationResult;
+}
+
+export interface ReviewedReply {
+  aiResponse: AIResponse;
+  outbound: OutboundModerationResult;
+  regenerations: number;
+}
+
+export interface CompletedReply {
+  aiMessage: Message;
+  toolExecutions: ToolExecution[];
+  // Whether the AI message may be shown to the fan
+  delivered: boolean;
+}
+
+// How many times a rejected draft is regenerated before it is held for review
+const MAX_REGENERATIONS = 2;
+
+/**
+ * The fan message → AI reply pipeline shared by the blocking and streaming
+ * reply routes: inbound gating, context loading and persistence.
+ */
+export class ReplyService {
+  // externalId is the channel's ID for a message that arrived by webhook
+  async gateInbound(persona: Persona, fan: Fan, message: string, channel = 'api', externalId?: string): Promise<InboundGate> {
+    const conversation = await this.getOrCreateConversation(fan, persona);
+
+    // Store the fan's message first so anything flagged links back to it
+    const inboundMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      type: 'text',
+      content: message,
+      sender: 'fan',
+      externalId,
+      sentAt: new Date(),
+    });
+    liveEvents.messageCreated(inboundMessage, persona.creatorId);
+
+    // STOP and START are honoured before anything else, even in a paused conversation
+    const keyword = optOutService.parseKeyword(message);
+    const optOutInput = { channel, keyword: message.trim(), creatorId: persona.creatorId, sourceMessageId: inboundMessage.id };
+    if (keyword === 'stop') {
+      await optOutService.optOut(fan, optOutInput);
+      return {
+        proceed: false,
+        httpStatus: 200,
+        body: {
+          message: STOP_CONFIRMATION,
+          action: 'stop_processed'
+        },
+      };
+    }
+    if (keyword === 'start' && optOutService.isOptedOut(fan)) {
+      await optOutService.optIn(fan, optOutInput);
+      return {
+        proceed: false,
+        httpStatus: 200,
+        body: {
+          message: START_CONFIRMATION,
+          action: 'start_processed'
+        },
+      };
+    }
+    if (optOutService.isOptedOut(fan)) {
+      return {
+        proceed: false,
+        httpStatus: 409,
+        body: {
+          message: "Fan has opted out; they can send START to resubscribe",
+          action: 'opted_out'
+        },
+      };
+    }
+
+    if (takeoverService.modeOf(conversation) === 'paused') {
+      return {
+        proceed: false,
+        httpStatus: 409,
+        body: {
+          message: "Conversation is paused pending human review",
+          action: 'conversation_paused'
+        },
+      };
+    }
+
+    const link: ModerationLink = {
+      messageId: inboundMessage.id,
+      fanId: fan.id,
+      conversationId: conversation.id,
+      creatorId: persona.creatorId,
+    };
+
+    // Moderation check against global and creator-specific rules
+    const moderationResult = await moderationService.moderateMessage(message, link);
+
+    if (moderationResult.action === 'block') {
+      await storage.updateMessage(inboundMessage.id, { moderationStatus: 'blocked' });
+      await auditService.logModerationAction(inboundMessage.id, 'block', moderationResult.reason || '', moderationResult.severity);
+      return {
+        proceed: false,
+        httpStatus: 400,
+        body: {
+          message: "Message blocked by moderation system",
+          reason: moderationResult.reason
+        },
+      };
+    }
+
+    if (moderationResult.action === 'escalate') {
+      await storage.updateMessage(inboundMessage.id, { moderationStatus: 'pending' });
+      await moderationService.escalateMessage(message, moderationResult.reason || '', link);
+      return {
+        proceed: false,
+        httpStatus: 400,
+        body: {
+          message: "Message flagged for review",
+          reason: "Content requires human review"
+        },
+      };
+    }
+
+    // While an operator holds the conversation the AI stays quiet and the message waits for them
+    const current = await takeoverService.releaseIfIdle(conversation);
+    if (current.mode === 'human') {
+      return {
+        proceed: false,
+        httpStatus: 202,
+        body: {
+          message: "An operator is handling this conversation; the message is queued for them",
+          action: 'human_takeover',
+          messageId: inboundMessage.id,
+        },
+      };
+    }
+
+    // Check consent gate for romantic content; the version lets the client affirm the wording it showed
+    const consent = await consentService.evaluate(fan, persona);
+    if (!consent.valid) {
+      return {
+        proceed: false,
+        httpStatus: 200,
+        body: {
+          message: consentService.promptFor(consent, persona),
+          action: 'consent_required',
+          consentState: consent.state,
+          consentTextVersion: consent.text.version,
+        },
+      };
+    }
+
+    return { proceed: true, conversation, inboundMessage, moderationResult };
+  }
+
+  async getOrCreateConversation(fan: Fan, persona: Persona): Promise<Conversation> {
+    const existing = await storage.getConversationByFanAndPersona(fan.id, persona.id);
+    if (existing) return existing;
+
+    return await storage.createConversation({
+      fanId: fan.id,
+      personaId: persona.id,
+      threadSummary: "",
+      sentiment: "neutral",
+      lastMessageAt: new Date(),
+    });
+  }
+
+  async prepare(persona: Persona, fan: Fan, inbound: AcceptedInbound): Promise<PreparedReply> {
+    const { conversation, inboundMessage, moderationResult } = inbound;
+
+    // Recent history the fan has actually seen (newest first), minus the message being answered
+    const recentMessages = (await storage.getConversationMessages(conversation.id, 21))
+      .filter(msg => msg.id !== inboundMessage.id && this.reachedFan(msg))
+      .slice(0, 10);
+    const memories = await memoryService.relevantMemories(fan.id, persona.creatorId, inboundMessage.content);
+
+    return {
+      persona,
+      fan,
+      conversation,
+      fanMessage: inboundMessage.content,
+      inboundMessage,
+      moderationResult,
+      context: {
+        persona,
+        fan,
+        recentMessages,
+        threadSummary: conversation.threadSummary || undefined,
+        memories,
+      },
+    };
+  }
+
+  async generate(prepared: PreparedReply): Promise<AIResponse> {
+    return await llmService.generateResponse(prepared.context, prepared.fanMessage);
+  }
+
+  /**
+   * Runs outbound moderation on a draft, regenerating with corrective
+   * guidance when allowed. A draft still failing after MAX_REGENERATIONS
+   * is held for human review.
+   */
+  async reviewOutbound(prepared: PreparedReply, draft: AIResponse): Promise<ReviewedReply> {
+    const requireDisclosure = this.requiresDisclosure(prepared.context.recentMessages);
+    let aiResponse = draft;
+    let outbound = moderationService.moderateOutbound(aiResponse.message, prepared.persona, { requireDisclosure });
+    let regenerations = 0;
+
+    while (outbound.action === 'regenerate' && regenerations < MAX_REGENERATIONS) {
+      regenerations++;
+      aiResponse = await llmService.generateResponse({
+        ...prepared.context,
+        guidance: outbound.violations.map(violation => violation.detail),
+      }, prepared.fanMessage);
+      outbound = moderationService.moderateOutbound(aiResponse.message, prepared.persona, { requireDisclosure });
+    }
+
+    if (outbound.action === 'regenerate') {
+      outbound = { ...outbound, action: 'hold' };
+    }
+
+    return { aiResponse, outbound, regenerations };
+  }
+
+  // For replies that cannot be regenerated (e.g. a stream cut short): anything flagged is held
+  reviewWithoutRegeneration(prepared: PreparedReply, content: string): OutboundModerationResult {
+    const outbound = moderationService.moderateOutbound(content, prepared.persona, {
+      requireDisclosure: this.requiresDisclosure(prepared.context.recentMessages),
+    });
+    return outbound.action === 'regenerate' ? { ...outbound, action: 'hold' } : outbound;
+  }
+
+  // The first AI message the fan receives must disclose that they are talking to an AI; STOP/START notices do not
+  requiresDisclosure(history: Message[]): boolean {
+    return !history.some(msg => msg.sender === 'ai' && msg.type !== 'opt_out_notice' && this.reachedFan(msg));
+  }
+
+  // Held, blocked and not-yet-sent scheduled messages never reached the fan
+  private reachedFan(message: Message): boolean {
+    return !!message.sentAt && message.moderationStatus !== 'blocked';
+  }
+
+  /**
+   * Stores the AI message (gateInbound has already stored the fan's),
+   * refreshes conversation sentiment, writes the audit record and runs tool
+   * calls. Held or blocked replies are stored undelivered and their tool
+   * calls are skipped. Pass runTools: false for replies that were cut short,
+   * since their tool calls may be incomplete.
+   */
+  async complete(prepared: PreparedReply, aiResponse: AIResponse, options: {
+    outbound?: OutboundModerationResult;
+    runTools?: boolean;
+    auditDetails?: Record<string, any>;
+  } = {}): Promise<CompletedReply> {
+    const { conversation, persona, fan, fanMessage, inboundMessage, moderationResult } = prepared;
+    const outboundAction = options.outbound?.action ?? 'allow';
+    const delivered = outboundAction === 'allow';
+    const runTools = (options.runTools ?? true) && delivered;
+
+    // Store the AI's response; undelivered replies keep sentAt empty
+    const aiMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      type: 'text',
+      content: aiResponse.message,
+      sender: 'ai',
+      personaVersion: persona.version,
+      moderationStatus: outboundAction === 'block' ? 'blocked' : outboundAction === 'hold' ? 'pending' : 'approved',
+      sentAt: delivered ? new Date() : null,
+    });
+    liveEvents.messageCreated(aiMessage, persona.creatorId);
+    if (delivered) {
+      await channelService.deliver(aiMessage, conversation);
+    }
+
+    if (options.outbound && !delivered) {
+      if (outboundAction === 'hold') {
+        await moderationService.holdForReview(aiResponse.message, options.outbound, {
+          messageId: aiMessage.id,
+          fanId: fan.id,
+          conversationId: conversation.id,
+          creatorId: persona.creatorId,
+        });
+      }
+      await auditService.logModerationAction(aiMessage.id, outboundAction, options.outbound.reason || '', options.outbound.severity);
+    }
+
+    // Update conversation
+    const sentiment = await llmService.analyzeSentiment(fanMessage);
+    await storage.updateConversation(conversation.id, {
+      lastMessageAt: new Date(),
+      sentiment,
+    });
+    memoryService.refreshInBackground(conversation, persona.creatorId);
+
+    // Log the interaction
+    await auditService.logConversation(conversation.id, aiMessage.id, aiResponse.message, fanMessage, moderationResult, {
+      outboundModeration: options.outbound,
+      ...options.auditDetails,
+    });
+
+    // Validate and run any tool calls the model made
+    const toolExecutions = runTools
+      ? await toolRegistry.executeAll(aiResponse.toolCalls || [], {
+        persona,
+        fan,
+        conversationId: conversation.id,
+        fanMessage,
+        fanMessageId: inboundMessage.id,
+      })
+      : [];
+
+    return { aiMessage, toolExecutions, delivered };
+  }
+
+  formatActions(toolExecutions: ToolExecution[]) {
+    return {
+      actions: toolExecutions
+        .filter(execution => execution.status === 'executed' && execution.result)
+        .map(execution => execution.result),
+      rejectedToolCalls: toolExecutions
+        .filter(execution => execution.status !== 'executed')
+        .map(({ name, status, error }) => ({ name, status, error })),
+    };
+  }
+}
+
+export const replyService = new ReplyService();
@@ -0,0 +1,237 @@
+import { Conversation, ConversationMode, Message, Persona } from "@shared/schema";
+import { storage } from "../storage";
+import { moderationService, OutboundModerationResult } from "./moderation";
+import { auditService } from "./audit";
+import { memoryService } from "./memory";
+import { optOutService } from "./opt-out";
+import { liveEvents } from "./live-events";
+import { channelService } from "./channels";
+
+// Carries the HTTP status the takeover routes should answer with
+export class TakeoverError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export type ReleaseReason = 'manual' | 'idle';
+
+export interface TakeoverState {
+  mode: ConversationMode;
+  heldBy: string | null;
+  heldAt: Date | null;
+  humanActivityAt: Date | null;
+  // When the idle timer hands the conversation back to the AI
+  releaseAt: Date | null;
+  // Fan messages the operator has not answered yet, oldest first
+  queuedMessages: Message[];
+}
+
+export interface OperatorMessageResult {
+  message: Message;
+  // Whether the message may be shown to the fan; held messages wait for review
+  delivered: boolean;
+  outbound: OutboundModerationResult;
+}
+
+const DEFAULT_IDLE_MINUTES = 15;
+const DEFAULT_SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * Human takeover: an operator holds a conversation, the AI stops replying
+ * and fan messages queue up for the operator. The conversation goes back to
+ * the AI when the operator releases it or has been idle for
+ * TAKEOVER_IDLE_MINUTES.
+ */
+export class TakeoverService {
+  private timer: NodeJS.Timeout | null = null;
+
+  get idleMinutes(): number {
+    return parseInt(process.env.TAKEOVER_IDLE_MINUTES || '', 10) || DEFAULT_IDLE_MINUTES;
+  }
+
+  // Conversations paused before the mode column existed only carry pausedAt
+  modeOf(conversation: Conversation): ConversationMode {
+    if (conversation.pausedAt) return 'paused';
+    return conversation.mode as ConversationMode;
+  }
+
+  releaseAt(conversation: Conversation): Date | null {
+    if (conversation.mode !== 'human' || !conversation.humanActivityAt) return null;
+    return new Date(conversation.humanActivityAt.getTime() + this.idleMinutes * 60000);
+  }
+
+  // Taking over clears any pause; an operator holding it already just refreshes their activity
+  async takeOver(conversation: Conversation, operatorId: string, force = false): Promise<Conversation> {
+    const held = await storage.holdConversation(conversation.id, operatorId, force);
+    if (!held) {
+      throw new TakeoverError("Another operator holds this conversation", 409);
+    }
+
+    if (conversation.heldBy !== operatorId) {
+      await auditService.logAction('conversation_takeover', 'conversation', conversation.id, {
+        previousMode: this.modeOf(conversation),
+        previousHolder: conversation.heldBy,
+        forced: !!conversation.heldBy,
+        previousPauseReason: conversation.pausedReason,
+      }, operatorId, conversation.fanId);
+    }
+    return held;
+  }
+
+  /**
+   * Hands the conversation back to the AI. userId is who released it, or
+   * undefined for the idle timer. Anyone allowed to act on the conversation
+   * may release it, so a stuck hold can be cleared.
+   */
+  async release(conversation: Conversation, reason: ReleaseReason, userId?: string): Promise<Conversation> {
+    if (conversation.mode !== 'human' || !conversation.heldBy) {
+      throw new TakeoverError("Conversation is not held by an operator", 409);
+    }
+
+    const released = await storage.releaseConversation(conversation.id, conversation.heldBy);
+    if (!released) {
+      throw new TakeoverError("Conversation was released or taken over by someone else", 409);
+    }
+
+    await auditService.logAction('conversation_released', 'conversation', conversation.id, {
+      reason,
+      heldBy: conversation.heldBy,
+      heldAt: conversation.heldAt?.toISOString() || null,
+      lastActivityAt: conversation.humanActivityAt?.toISOString() || null,
+      idleMinutes: reason === 'idle' ? this.idleMinutes : undefined,
+    }, userId, conversation.fanId);
+    return released;
+  }
+
+  // Releases a hold whose operator has gone quiet; returns the conversation as it now stands
+  async releaseIfIdle(conversation: Conversation): Promise<Conversation> {
+    const releaseAt = this.releaseAt(conversation);
+    if (!releaseAt || releaseAt > new Date()) return conversation;
+
+    try {
+      return await this.release(conversation, 'idle');
+    } catch (error) {
+      // Someone else released or re-took it in the meantime
+      if (error instanceof TakeoverError) return await storage.getConversation(conversation.id) ?? conversation;
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a message written by the holding operator. It goes through the
+   * same outbound moderation as AI replies: blocked content is refused and
+   * anything else flagged is stored undelivered and held for review.
+   */
+  async sendOperatorMessage(conversation: Conversation, persona: Persona, operatorId: string, content: string): Promise<OperatorMessageResult> {
+    if (conversation.mode !== 'human' || conversation.heldBy !== operatorId) {
+      throw new TakeoverError("Take over the conversation before sending messages", 409);
+    }
+    const fan = await storage.getFan(conversation.fanId);
+    if (!fan) {
+      throw new TakeoverError("Fan not found", 404);
+    }
+    if (optOutService.isOptedOut(fan)) {
+      throw new TakeoverError("Fan has opted out; no messages can be sent", 409);
+    }
+
+    const moderated = moderationService.moderateOutbound(content, persona);
+    // There is nothing to regenerate for a human message, so it is held instead
+    const outbound: OutboundModerationResult = moderated.action === 'regenerate' ? { ...moderated, action: 'hold' } : moderated;
+    const delivered = outbound.action === 'allow';
+    const now = new Date();
+
+    const message = await storage.createMessage({
+      conversationId: conversation.id,
+      type: 'text',
+      content,
+      sender: 'operator',
+      personaVersion: persona.version,
+      moderationStatus: outbound.action === 'block' ? 'blocked' : outbound.action === 'hold' ? 'pending' : 'approved',
+      sentAt: delivered ? now : null,
+    });
+    liveEvents.messageCreated(message, persona.creatorId);
+    if (delivered) {
+      await channelService.deliver(message, conversation);
+    }
+
+    if (!delivered) {
+      if (outbound.action === 'hold') {
+        await moderationService.holdForReview(content, outbound, {
+          messageId: message.id,
+          fanId: fan.id,
+          conversationId: conversation.id,
+          creatorId: persona.creatorId,
+        });
+      }
+      await auditService.logModerationAction(message.id, outbound.action, outbound.reason || '', outbound.severity, operatorId);
+    }
+
+    // Writing, even a refused message, counts as activity for the idle timer
+    await storage.updateConversation(conversation.id, {
+      humanActivityAt: now,
+      ...(delivered ? { lastMessageAt: now } : {}),
+    });
+    if (delivered) {
+      memoryService.refreshInBackground(conversation, persona.creatorId);
+    }
+
+    await auditService.logAction('operator_message_sent', 'message', message.id, {
+      conversationId: conversation.id,
+      outboundModeration: outbound.action,
+      violations: outbound.violations.map(violation => violation.rule),
+    }, operatorId, fan.id);
+
+    if (outbound.action === 'block') {
+      throw new TakeoverError(`Message blocked by moderation: ${outbound.reason}`, 422);
+    }
+    return { message, delivered, outbound };
+  }
+
+  async state(conversation: Conversation): Promise<TakeoverState> {
+    return {
+      mode: this.modeOf(conversation),
+      heldBy: conversation.heldBy,
+      heldAt: conversation.heldAt,
+      humanActivityAt: conversation.humanActivityAt,
+      releaseAt: this.releaseAt(conversation),
+      queuedMessages: await this.queuedMessages(conversation),
+    };
+  }
+
+  // Fan messages since the takeover that came in after the operator's last delivered message
+  async queuedMessages(conversation: Conversation): Promise<Message[]> {
+    if (conversation.mode !== 'human' || !conversation.heldAt) return [];
+
+    const since = await storage.getMessagesSince(conversation.id, conversation.heldAt);
+    const lastReply = since.map(message => message.sender === 'operator' && !!message.sentAt).lastIndexOf(true);
+    return since.slice(lastReply + 1).filter(message => message.sender === 'fan' && message.moderationStatus !== 'blocked');
+  }
+
+  start(intervalMs = DEFAULT_SWEEP_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.releaseIdle().catch(error => console.error('Error releasing idle conversations:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Hands every conversation whose operator has been idle too long back to the AI
+  async releaseIdle(): Promise<number> {
+    const idle = await storage.getIdleHeldConversations(new Date(Date.now() - this.idleMinutes * 60000));
+    let released = 0;
+    for (const conversation of idle) {
+      if ((await this.releaseIfIdle(conversation)).mode === 'ai') released++;
+    }
+    return released;
+  }
+}
+
+export const takeoverService = new TakeoverService();
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ContentItem, Fan, Persona } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { toolRegistry } from "./tools";
+
+const persona = {
+  id: "persona-1",
+  creatorId: "creator-1",
+  offerMenu: [{ sku: "cheap_pic", label: "Cheap pic", priceCents: 500 }],
+} as unknown as Persona;
+const fan = { id: "fan-1" } as Fan;
+const content = { id: "content-1", creatorId: "creator-1", isActive: true, title: "Full set", priceCents: 5000 } as ContentItem;
+
+const stubs: Pick<IStorage, "getContentItem"> = {
+  getContentItem: async (id) => (id === content.id ? content : undefined),
+};
+Object.assign(storage, stubs);
+
+const createPaymentLink = (args: Record<string, unknown>) => toolRegistry.execute(
+  {
+    id: "call-1",
+    name: "create_payment_link",
+    arguments: JSON.stringify({ sku: null, contentId: null, amountCents: null, productType: null, description: null, ...args }),
+  },
+  { persona, fan, conversationId: "conversation-1", fanMessage: "", dryRun: true },
+);
+
+test("rejects a payment link naming both a menu SKU and a content item", async () => {
+  const execution = await createPaymentLink({ sku: "cheap_pic", contentId: content.id });
+
+  assert.equal(execution.status, "rejected");
+  assert.match(execution.error!, /not both/);
+});
+
+test("charges a content item's own price over a lower amountCents", async () => {
+  const execution = await createPaymentLink({ contentId: content.id, amountCents: 100 });
+
+  assert.equal(execution.status, "executed");
+  assert.equal(execution.result?.amount, 5000);
+});
+
+test("charges the menu price for a SKU", async () => {
+  const execution = await createPaymentLink({ sku: "cheap_pic", amountCents: 100 });
+
+  assert.equal(execution.status, "executed");
+  assert.equal(execution.result?.amount, 500);
+});
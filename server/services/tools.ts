@@ -0,0 +1,273 @@
+import { z } from "zod";
+import { Persona, Fan } from "@shared/schema";
+import { storage } from "../storage";
+import { stripe } from "../stripe";
+import { mediaService } from "./media";
+import { moderationService } from "./moderation";
+import { auditService } from "./audit";
+import type { ProviderToolCall, ToolSpec } from "./llm-providers";
+
+// Guards against a runaway model fanning out payment links or media sends
+const MAX_TOOL_CALLS_PER_TURN = 5;
+
+export interface ToolContext {
+  persona: Persona;
+  fan: Fan;
+  conversationId: string;
+  fanMessage: string;
+  fanMessageId?: string;
+  // Persona previews: validate and describe the call, but write nothing and call no external service
+  dryRun?: boolean;
+}
+
+export interface ToolDefinition<TArgs extends z.ZodObject<any> = z.ZodObject<any>> extends ToolSpec {
+  parameters: TArgs;
+  execute(args: z.infer<TArgs>, context: ToolContext): Promise<Record<string, any> | null>;
+}
+
+export interface ToolExecution {
+  id: string;
+  name: string;
+  status: 'executed' | 'rejected' | 'failed';
+  result?: Record<string, any> | null;
+  error?: string;
+}
+
+// Thrown by a tool when arguments are well-formed but not acceptable (e.g. unknown SKU)
+export class ToolArgumentError extends Error {}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<TArgs extends z.ZodObject<any>>(tool: ToolDefinition<TArgs>): void {
+    this.tools.set(tool.name, tool as unknown as ToolDefinition);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  specs(): ToolSpec[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+  }
+
+  async executeAll(calls: ProviderToolCall[], context: ToolContext): Promise<ToolExecution[]> {
+    const executions: ToolExecution[] = [];
+
+    // Run in order so side effects (payments, media) happen as the model listed them
+    for (let index = 0; index < calls.length; index++) {
+      const call = calls[index];
+      if (index >= MAX_TOOL_CALLS_PER_TURN) {
+        executions.push(await this.reject(call, context, `Exceeded ${MAX_TOOL_CALLS_PER_TURN} tool calls per turn`));
+        continue;
+      }
+      executions.push(await this.execute(call, context));
+    }
+
+    return executions;
+  }
+
+  async execute(call: ProviderToolCall, context: ToolContext): Promise<ToolExecution> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return this.reject(call, context, `Unknown tool: ${call.name}`);
+    }
+
+    let rawArgs: unknown;
+    try {
+      rawArgs = JSON.parse(call.arguments || '{}');
+    } catch {
+      return this.reject(call, context, 'Arguments are not valid JSON');
+    }
+
+    const parsed = tool.parameters.safeParse(rawArgs);
+    if (!parsed.success) {
+      return this.reject(call, context, parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+        .join('; '));
+    }
+
+    try {
+      const result = await tool.execute(parsed.data, context);
+      return { id: call.id, name: call.name, status: 'executed', result };
+    } catch (error: any) {
+      if (error instanceof ToolArgumentError) {
+        return this.reject(call, context, error.message);
+      }
+      console.error(`Error executing tool ${call.name}:`, error);
+      return { id: call.id, name: call.name, status: 'failed', error: 'Tool execution failed' };
+    }
+  }
+
+  private async reject(call: ProviderToolCall, context: ToolContext, reason: string): Promise<ToolExecution> {
+    if (!context.dryRun) await auditService.logToolCallRejected(context.conversationId, context.fan.id, call.name, reason, call.arguments);
+    return { id: call.id, name: call.name, status: 'rejected', error: reason };
+  }
+}
+
+const offerMenuSchema = z.object({
+  filterBy: z.string().nullable().describe("Only include offers whose SKU contains this text, or null for all offers"),
+});
+
+const offerMenuTool: ToolDefinition<typeof offerMenuSchema> = {
+  name: 'offer_menu',
+  description: "Show the fan the persona's paid offers. Use when suggesting paid content.",
+  parameters: offerMenuSchema,
+  async execute({ filterBy }, { persona }) {
+    const offers = persona.offerMenu || [];
+    const relevantOffers = offers.filter(offer => !filterBy || offer.sku.includes(filterBy));
+
+    return {
+      type: 'offer_menu',
+      offers: relevantOffers.map(offer => ({
+        ...offer,
+        formattedPrice: `$${(offer.priceCents / 100).toFixed(2)}`
+      }))
+    };
+  },
+};
+
+const createPaymentLinkSchema = z.object({
+  sku: z.string().nullable().describe("SKU from the offer menu; its price takes precedence over amountCents. Not combined with contentId"),
+  contentId: z.string().nullable().describe("ID of a library content item being sold; its price is always used and it is delivered once paid. Not combined with sku"),
+  amountCents: z.number().int().min(100).max(100000).nullable().describe("Price in cents for custom requests not on the menu"),
+  productType: z.string().max(50).nullable().describe("e.g. custom_video, chat_session, photo_set"),
+  description: z.string().max(200).nullable(),
+});
+
+const createPaymentLinkTool: ToolDefinition<typeof createPaymentLinkSchema> = {
+  name: 'create_payment_link',
+  description: "Create a payment link once the fan has agreed to buy something.",
+  parameters: createPaymentLinkSchema,
+  async execute(args, { persona, fan, conversationId, dryRun }) {
+    // Content is unlocked by any completed payment naming it, so it must never ride on another item's price
+    if (args.sku && args.contentId) {
+      throw new ToolArgumentError('Use either a menu SKU or a contentId, not both');
+    }
+
+    const offer = args.sku ? persona.offerMenu?.find(item => item.sku === args.sku) : undefined;
+    if (args.sku && !offer) {
+      throw new ToolArgumentError(`SKU ${args.sku} is not on the offer menu`);
+    }
+
+    const content = args.contentId ? await storage.getContentItem(args.contentId) : undefined;
+    if (args.contentId && (!content || content.creatorId !== persona.creatorId || !content.isActive)) {
+      throw new ToolArgumentError(`Content ${args.contentId} is not available from this creator`);
+    }
+
+    // A priced content item always costs its own price, whatever amountCents says
+    const amountCents = content?.priceCents || offer?.priceCents || args.amountCents;
+    if (!amountCents) {
+      throw new ToolArgumentError('A menu SKU, a priced contentId or amountCents is required');
+    }
+
+    const productType = args.productType || 'custom_content';
+    const description = args.description || offer?.label || content?.title || 'Custom content';
+    if (dryRun) {
+      return { type: 'payment_link', dryRun: true, amount: amountCents, description, productType };
+    }
+    if (!stripe) {
+      throw new Error('Stripe is not configured');
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: amountCents,
+      currency: 'usd',
+      metadata: {
+        fanId: fan.id,
+        creatorId: persona.creatorId,
+        productType,
+        ...(offer ? { sku: offer.sku } : {}),
+        ...(content ? { contentId: content.id } : {}),
+      },
+    });
+
+    // Store payment record; the persona and conversation tell fulfillment where to deliver
+    const metadata: Record<string, any> = { ...args, description, personaId: persona.id, conversationId };
+    await storage.createPayment({
+      fanId: fan.id,
+      creatorId: persona.creatorId,
+      stripePaymentIntentId: paymentIntent.id,
+      amountCents,
+      status: 'pending',
+      productType,
+      metadata,
+    });
+
+    return {
+      type: 'payment_link',
+      clientSecret: paymentIntent.client_secret,
+      amount: amountCents,
+      description,
+    };
+  },
+};
+
+const sendMediaSchema = z.object({
+  contentId: z.string().min(1).describe("ID of the content item to send"),
+});
+
+const sendMediaTool: ToolDefinition<typeof sendMediaSchema> = {
+  name: 'send_media',
+  description: "Send a content item from the creator's library to the fan. Paid items the fan has not bought are sent as a blurred preview.",
+  parameters: sendMediaSchema,
+  async execute({ contentId }, { persona, fan, dryRun }) {
+    const content = await storage.getContentItem(contentId);
+    if (!content || content.creatorId !== persona.creatorId) {
+      throw new ToolArgumentError(`Content ${contentId} does not belong to this creator`);
+    }
+
+    // Paid items the fan has not bought go out as their blurred teaser
+    const locked = !!content.priceCents && (dryRun || !await storage.hasCompletedPaymentForContent(fan.id, contentId));
+    if (locked && !content.variants?.preview) {
+      throw new ToolArgumentError(`Content ${contentId} must be purchased first; offer a payment link instead`);
+    }
+    // Signing a URL records a delivery, so previews only say what would be sent
+    if (dryRun) {
+      return { type: locked ? 'media_preview' : 'media_content', dryRun: true, contentId, title: content.title };
+    }
+
+    const signedUrl = await mediaService.getSignedUrl(contentId, {
+      trackDelivery: true,
+      fanId: fan.id,
+      variant: locked ? 'preview' : 'original',
+    });
+
+    // Access is logged when the fan opens the link
+    if (!signedUrl) return null;
+
+    return locked
+      ? { type: 'media_preview', url: signedUrl, contentId, priceCents: content.priceCents }
+      : { type: 'media_content', url: signedUrl, contentId };
+  },
+};
+
+const escalateSchema = z.object({
+  reason: z.string().min(1).max(500).describe("Why a human needs to review this conversation"),
+});
+
+const escalateTool: ToolDefinition<typeof escalateSchema> = {
+  name: 'escalate',
+  description: "Hand the conversation to a human moderator. Use for requests involving minors, illegal content, IRL meetings or self-harm.",
+  parameters: escalateSchema,
+  async execute({ reason }, { persona, fan, conversationId, fanMessage, fanMessageId, dryRun }) {
+    if (dryRun) return { type: 'escalated', dryRun: true, reason };
+    await moderationService.escalateMessage(fanMessage, reason, {
+      messageId: fanMessageId,
+      fanId: fan.id,
+      conversationId,
+      creatorId: persona.creatorId,
+    });
+    return { type: 'escalated', reason };
+  },
+};
+
+export const toolRegistry = new ToolRegistry();
+toolRegistry.register(offerMenuTool);
+toolRegistry.register(createPaymentLinkTool);
+toolRegistry.register(sendMediaTool);
+toolRegistry.register(escalateTool);
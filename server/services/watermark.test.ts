@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { watermarkService } from "./watermark";
+
+const mark = { label: "@creator", code: "0123456789abcdef" };
+
+const solid = (value: number) => sharp({
+  create: { width: 256, height: 256, channels: 3, background: { r: value, g: value, b: value } },
+}).png().toBuffer();
+
+for (const [name, value] of [["white", 255], ["black", 0], ["grey", 128]] as const) {
+  test(`recovers the code from a ${name} image re-encoded as JPEG`, async () => {
+    const marked = await watermarkService.watermarkImage(await solid(value), "image/png", mark);
+    const leaked = await sharp(marked).jpeg({ quality: 85 }).toBuffer();
+
+    assert.equal(await watermarkService.extractCode(leaked), mark.code);
+  });
+}
@@ -1,16 +1,75 @@
 import { 
   users, personas, fans, conversations, messages, contentItems, 
-  payments, auditLogs, moderationQueue,
+  payments, stripeEvents, mediaDeliveries, auditLogs, moderationQueue, moderationRules, fanMemories, personaRoutingRules, personaVersions, consentTexts, consentRecords, optOutEvents, rateLimitBuckets, replyDrafts, channelAccounts, PERSONA_VERSIONED_FIELDS,
   type User, type InsertUser, type Persona, type InsertPersona,
   type Fan, type InsertFan, type Conversation, type InsertConversation,
   type Message, type InsertMessage, type ContentItem, type InsertContentItem,
   type Payment, type InsertPayment, type AuditLog, type InsertAuditLog,
-  type ModerationQueue, type InsertModerationQueue
+  type ModerationQueue, type InsertModerationQueue,
+  type ModerationRule, type InsertModerationRule,
+  type MediaDelivery, type InsertMediaDelivery,
+  type FanMemory, type InsertFanMemory,
+  type PersonaRoutingRule, type InsertPersonaRoutingRule,
+  type PersonaVersion, type PersonaSnapshot,
+  type ConsentText, type ConsentRecord, type InsertConsentRecord,
+  type OptOutEvent, type InsertOptOutEvent, type RateLimitBucket,
+  type ReplyDraft, type InsertReplyDraft,
+  type ChannelAccount, type InsertChannelAccount
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, sql, count } from "drizzle-orm";
+import { db, pool } from "./db";
+import { eq, desc, asc, and, or, sql, count, isNull, isNotNull, inArray, gt, lt, lte, ne } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function snapshotOf(persona: PersonaSnapshot): PersonaSnapshot {
+  return Object.fromEntries(PERSONA_VERSIONED_FIELDS.map(field => [field, persona[field] ?? null])) as PersonaSnapshot;
+}
+
+export interface PurchaseFulfillment {
+  paymentId: string;
+  fanId: string;
+  conversationId: string;
+  // Appended to the conversation in this order
+  messages: Omit<InsertMessage, 'conversationId'>[];
+  contentItemId?: string;
+  // The link to the purchased media, stored only if the purchase is claimed
+  mediaDelivery?: InsertMediaDelivery & { id: string };
+  // Maps the fan's lifetime net spend, including this payment, to a spend tier
+  resolveSpendTier(lifetimeCents: number): string;
+}
+
+export interface PaymentRefund {
+  paymentId: string;
+  // The status the payment was read in; the refund is skipped if it has moved on
+  fromStatus: string;
+  // Stripe's running total for the charge
+  refundedCents: number;
+  // Set when nothing is left of the payment
+  status?: string;
+  // Maps the fan's lifetime net spend, after this refund, to a spend tier
+  resolveSpendTier(lifetimeCents: number): string;
+}
+
+export interface FulfilledPurchase {
+  messages: Message[];
+  mediaDelivery?: MediaDelivery;
+}
+
+export interface PersonaMetrics {
+  conversations: number;
+  activeConversations: number;
+  messagesSentToday: number;
+  totalRevenue: number;
+  paymentCount: number;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -20,8 +79,21 @@ export interface IStorage {
   // Personas
   getPersona(id: string): Promise<Persona | undefined>;
   getPersonaByCreatorId(creatorId: string): Promise<Persona | undefined>;
-  createPersona(persona: InsertPersona): Promise<Persona>;
-  updatePersona(id: string, updates: Partial<InsertPersona>): Promise<Persona>;
+  getPersonasByCreator(creatorId: string): Promise<Persona[]>;
+  createPersona(persona: InsertPersona, createdBy?: string): Promise<Persona>;
+  updatePersona(id: string, updates: Partial<InsertPersona>, createdBy?: string): Promise<Persona>;
+  rollbackPersona(id: string, version: number, createdBy?: string): Promise<Persona | undefined>;
+  getPersonaVersions(personaId: string): Promise<PersonaVersion[]>;
+  getPersonaVersion(personaId: string, version: number): Promise<PersonaVersion | undefined>;
+  setDefaultPersona(creatorId: string, personaId: string): Promise<Persona>;
+  getPersonaMetrics(personaId: string): Promise<PersonaMetrics>;
+
+  // Persona routing
+  getPersonaRoutingRules(creatorId: string): Promise<PersonaRoutingRule[]>;
+  getPersonaRoutingRule(id: string): Promise<PersonaRoutingRule | undefined>;
+  createPersonaRoutingRule(rule: InsertPersonaRoutingRule): Promise<PersonaRoutingRule>;
+  updatePersonaRoutingRule(id: string, updates: Partial<InsertPersonaRoutingRule>): Promise<PersonaRoutingRule>;
+  deletePersonaRoutingRule(id: string): Promise<void>;
   
   // Fans
   getFan(id: string): Promise<Fan | undefined>;
@@ -29,6 +101,22 @@ export interface IStorage {
   createFan(fan: InsertFan): Promise<Fan>;
   updateFan(id: string, updates: Partial<InsertFan>): Promise<Fan>;
   getFansBySpendTier(tier: string): Promise<Fan[]>;
+  recordOptOutEvent(event: InsertOptOutEvent): Promise<{ fan: Fan; event: OptOutEvent }>;
+  getOptOutEvents(fanId: string): Promise<OptOutEvent[]>;
+
+  // Fan memories
+  getFanMemories(fanId: string, creatorId: string): Promise<FanMemory[]>;
+  getFanMemory(id: string): Promise<FanMemory | undefined>;
+  createFanMemory(memory: InsertFanMemory): Promise<FanMemory>;
+  updateFanMemory(id: string, updates: Partial<InsertFanMemory>): Promise<FanMemory>;
+  deleteFanMemory(id: string): Promise<void>;
+
+  // Consent
+  getLatestConsentText(creatorId: string): Promise<ConsentText | undefined>;
+  createConsentText(text: Pick<ConsentText, 'creatorId' | 'prompt' | 'ageStatement' | 'romanticStatement'> & { createdBy?: string }): Promise<ConsentText>;
+  getConsentRecords(fanId: string, creatorId: string): Promise<ConsentRecord[]>;
+  getLatestConsentRecord(fanId: string, creatorId: string): Promise<ConsentRecord | undefined>;
+  createConsentRecord(record: InsertConsentRecord): Promise<ConsentRecord>;
   
   // Conversations
   getConversation(id: string): Promise<Conversation | undefined>;
@@ -36,13 +124,25 @@ export interface IStorage {
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation>;
   getActiveConversations(personaId: string): Promise<Conversation[]>;
+  getActiveConversationsByCreator(creatorId: string): Promise<Conversation[]>;
+  getLatestConversationForFan(fanId: string, creatorId: string): Promise<Conversation | undefined>;
+  hasConversationWithCreator(fanId: string, creatorId: string): Promise<boolean>;
+  holdConversation(id: string, operatorId: string, force: boolean): Promise<Conversation | undefined>;
+  releaseConversation(id: string, heldBy: string): Promise<Conversation | undefined>;
+  getIdleHeldConversations(idleSince: Date): Promise<Conversation[]>;
   
   // Messages
   getMessage(id: string): Promise<Message | undefined>;
+  getMessageByExternalId(externalId: string): Promise<Message | undefined>;
   createMessage(message: InsertMessage): Promise<Message>;
   getConversationMessages(conversationId: string, limit?: number): Promise<Message[]>;
+  getMessagesSince(conversationId: string, since: Date): Promise<Message[]>;
   getScheduledMessages(): Promise<Message[]>;
+  getScheduledMessagesForConversation(conversationId: string): Promise<Message[]>;
+  claimDueScheduledMessages(limit: number, leaseSeconds: number): Promise<Message[]>;
   updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message>;
+  countMessagesSince(conversationId: string, since: Date | null): Promise<number>;
+  recordMessageReceipt(externalId: string, status: 'delivered' | 'read', at: Date): Promise<Message[]>;
   
   // Content Items
   getContentItem(id: string): Promise<ContentItem | undefined>;
@@ -50,13 +150,46 @@ export interface IStorage {
   updateContentItem(id: string, updates: Partial<InsertContentItem>): Promise<ContentItem>;
   getContentItemsByCreator(creatorId: string): Promise<ContentItem[]>;
   getTopPerformingContent(creatorId: string, limit?: number): Promise<ContentItem[]>;
+
+  // Media deliveries
+  createMediaDelivery(delivery: InsertMediaDelivery): Promise<MediaDelivery>;
+  getMediaDelivery(id: string): Promise<MediaDelivery | undefined>;
+  getMediaDeliveryByWatermarkCode(code: string): Promise<MediaDelivery | undefined>;
+  updateMediaDelivery(id: string, updates: Partial<InsertMediaDelivery>): Promise<MediaDelivery>;
+  recordMediaAccess(id: string): Promise<void>;
+  hasCompletedPaymentForContent(fanId: string, contentId: string): Promise<boolean>;
   
   // Payments
   getPayment(id: string): Promise<Payment | undefined>;
   createPayment(payment: InsertPayment): Promise<Payment>;
   updatePayment(id: string, updates: Partial<InsertPayment>): Promise<Payment>;
+  getPaymentByStripeIntentId(paymentIntentId: string): Promise<Payment | undefined>;
+  transitionPaymentStatus(id: string, fromStatus: string, updates: Partial<InsertPayment> & { status: string }): Promise<Payment | undefined>;
+  refundPayment(refund: PaymentRefund): Promise<Payment | undefined>;
   getPaymentsByFan(fanId: string): Promise<Payment[]>;
   getRevenueByCreator(creatorId: string): Promise<{ totalRevenue: number; paymentCount: number }>;
+  fulfillPurchase(fulfillment: PurchaseFulfillment): Promise<FulfilledPurchase | undefined>;
+
+  // Co-pilot reply drafts
+  createReplyDrafts(drafts: InsertReplyDraft[]): Promise<ReplyDraft[]>;
+  getReplyDraft(id: string): Promise<ReplyDraft | undefined>;
+  getPendingReplyDrafts(creatorId: string | null): Promise<ReplyDraft[]>;
+  approveReplyDraft(id: string, review: Pick<InsertReplyDraft, 'sentText' | 'editDistance' | 'reviewedBy'>): Promise<ReplyDraft | undefined>;
+  rejectReplyDraft(id: string, review: Pick<InsertReplyDraft, 'reviewedBy' | 'reviewReason'>): Promise<ReplyDraft | undefined>;
+  updateReplyDraft(id: string, updates: Partial<InsertReplyDraft>): Promise<ReplyDraft>;
+
+  // Channel accounts
+  getChannelAccount(channel: string, externalAccountId: string): Promise<ChannelAccount | undefined>;
+  getChannelAccountForCreator(creatorId: string, channel: string): Promise<ChannelAccount | undefined>;
+  getChannelAccountsByCreator(creatorId: string): Promise<ChannelAccount[]>;
+  upsertChannelAccount(account: InsertChannelAccount): Promise<ChannelAccount | undefined>;
+
+  // Rate limiting
+  updateRateLimitBucket<T>(key: string, update: (current: RateLimitBucket | undefined) => { bucket: Omit<RateLimitBucket, 'key'>; result: T }): Promise<T>;
+
+  // Stripe webhook events
+  claimStripeEvent(eventId: string, type: string): Promise<boolean>;
+  releaseStripeEvent(eventId: string): Promise<void>;
   
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
@@ -64,8 +197,17 @@ export interface IStorage {
   
   // Moderation
   createModerationQueue(item: InsertModerationQueue): Promise<ModerationQueue>;
-  getModerationQueue(status?: string): Promise<ModerationQueue[]>;
+  getModerationQueueItem(id: string): Promise<ModerationQueue | undefined>;
+  getModerationQueue(status?: string, creatorId?: string): Promise<ModerationQueue[]>;
   updateModerationQueue(id: string, updates: Partial<InsertModerationQueue>): Promise<ModerationQueue>;
+
+  // Moderation Rules
+  getModerationRule(id: string): Promise<ModerationRule | undefined>;
+  getModerationRules(creatorId?: string): Promise<ModerationRule[]>;
+  getActiveModerationRules(creatorId?: string): Promise<ModerationRule[]>;
+  createModerationRule(rule: InsertModerationRule & { createdBy?: string }): Promise<ModerationRule>;
+  seedModerationRules(rules: InsertModerationRule[]): Promise<void>;
+  updateModerationRule(id: string, updates: Partial<InsertModerationRule>): Promise<ModerationRule>;
   
   // Analytics
   getDashboardMetrics(creatorId: string): Promise<{
@@ -80,6 +222,12 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -109,28 +257,206 @@ export class DatabaseStorage implements IStorage {
     return persona || undefined;
   }
 
+  // The creator's default persona, or their oldest active one if none is marked default
   async getPersonaByCreatorId(creatorId: string): Promise<Persona | undefined> {
     const [persona] = await db
       .select()
       .from(personas)
-      .where(and(eq(personas.creatorId, creatorId), eq(personas.isActive, true)));
+      .where(and(eq(personas.creatorId, creatorId), eq(personas.isActive, true)))
+      .orderBy(desc(personas.isDefault), asc(personas.createdAt))
+      .limit(1);
     return persona || undefined;
   }
 
-  async createPersona(persona: InsertPersona): Promise<Persona> {
-    const [created] = await db.insert(personas).values(persona).returning();
+  async getPersonasByCreator(creatorId: string): Promise<Persona[]> {
+    return await db
+      .select()
+      .from(personas)
+      .where(eq(personas.creatorId, creatorId))
+      .orderBy(desc(personas.isDefault), asc(personas.createdAt));
+  }
+
+  async createPersona(persona: InsertPersona, createdBy?: string): Promise<Persona> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(personas).values(persona).returning();
+      await tx.insert(personaVersions).values({
+        personaId: created.id,
+        version: created.version,
+        snapshot: snapshotOf(created),
+        createdBy,
+      });
+      return created;
+    });
+  }
+
+  // Saves that change a versioned field bump the version and record a snapshot
+  async updatePersona(id: string, updates: Partial<InsertPersona>, createdBy?: string): Promise<Persona> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(personas).where(eq(personas.id, id)).for('update');
+      if (!current) throw new Error(`Persona ${id} not found`);
+
+      const snapshot = snapshotOf({ ...current, ...updates } as PersonaSnapshot);
+      if (JSON.stringify(snapshot) === JSON.stringify(snapshotOf(current))) {
+        const [updated] = await tx
+          .update(personas)
+          .set({ ...updates, updatedAt: new Date() })
+          .where(eq(personas.id, id))
+          .returning();
+        return updated;
+      }
+
+      return await this.saveVersion(tx, current, { ...updates, ...snapshot } as Partial<typeof personas.$inferInsert>, createdBy);
+    });
+  }
+
+  // Restores an earlier snapshot as a new version; returns undefined if that version doesn't exist
+  async rollbackPersona(id: string, version: number, createdBy?: string): Promise<Persona | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(personas).where(eq(personas.id, id)).for('update');
+      const [target] = await tx
+        .select()
+        .from(personaVersions)
+        .where(and(eq(personaVersions.personaId, id), eq(personaVersions.version, version)));
+      if (!current || !target) return undefined;
+
+      return await this.saveVersion(tx, current, snapshotOf(target.snapshot), createdBy, version);
+    });
+  }
+
+  private async saveVersion(tx: Transaction, current: Persona, updates: Partial<typeof personas.$inferInsert>, createdBy?: string, rolledBackFrom?: number): Promise<Persona> {
+    // Personas created before versioning have no history; record their current state first
+    const [base] = await tx
+      .select({ id: personaVersions.id })
+      .from(personaVersions)
+      .where(and(eq(personaVersions.personaId, current.id), eq(personaVersions.version, current.version)));
+    if (!base) {
+      await tx.insert(personaVersions).values({
+        personaId: current.id,
+        version: current.version,
+        snapshot: snapshotOf(current),
+        createdAt: current.updatedAt,
+      });
+    }
+
+    const [updated] = await tx
+      .update(personas)
+      .set({ ...updates, version: current.version + 1, updatedAt: new Date() })
+      .where(eq(personas.id, current.id))
+      .returning();
+    await tx.insert(personaVersions).values({
+      personaId: updated.id,
+      version: updated.version,
+      snapshot: snapshotOf(updated),
+      createdBy,
+      rolledBackFrom,
+    });
+    return updated;
+  }
+
+  async getPersonaVersions(personaId: string): Promise<PersonaVersion[]> {
+    return await db
+      .select()
+      .from(personaVersions)
+      .where(eq(personaVersions.personaId, personaId))
+      .orderBy(desc(personaVersions.version));
+  }
+
+  async getPersonaVersion(personaId: string, version: number): Promise<PersonaVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(personaVersions)
+      .where(and(eq(personaVersions.personaId, personaId), eq(personaVersions.version, version)));
+    return row || undefined;
+  }
+
+  async setDefaultPersona(creatorId: string, personaId: string): Promise<Persona> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(personas)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(and(eq(personas.creatorId, creatorId), eq(personas.isDefault, true)));
+      const [updated] = await tx
+        .update(personas)
+        .set({ isDefault: true, updatedAt: new Date() })
+        .where(and(eq(personas.id, personaId), eq(personas.creatorId, creatorId)))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getPersonaMetrics(personaId: string): Promise<PersonaMetrics> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const [conversationStats] = await db
+      .select({
+        conversations: count(conversations.id),
+        activeConversations: sql<number>`COUNT(*) FILTER (WHERE ${conversations.isActive})::int`,
+      })
+      .from(conversations)
+      .where(eq(conversations.personaId, personaId));
+
+    const [messageStats] = await db
+      .select({ messagesSentToday: count(messages.id) })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.personaId, personaId),
+        sql`${messages.createdAt} >= ${today}`
+      ));
+
+    // Payments record the persona that offered them in their metadata
+    const [revenueStats] = await db
+      .select({
+        totalRevenue: sql<number>`COALESCE(SUM(${payments.amountCents} - ${payments.refundedCents}), 0)::int`,
+        paymentCount: count(payments.id)
+      })
+      .from(payments)
+      .where(and(
+        sql`${payments.metadata}->>'personaId' = ${personaId}`,
+        eq(payments.status, 'completed')
+      ));
+
+    return {
+      conversations: conversationStats?.conversations || 0,
+      activeConversations: conversationStats?.activeConversations || 0,
+      messagesSentToday: messageStats?.messagesSentToday || 0,
+      totalRevenue: (revenueStats?.totalRevenue || 0) / 100, // Convert cents to dollars
+      paymentCount: revenueStats?.paymentCount || 0,
+    };
+  }
+
+  async getPersonaRoutingRules(creatorId: string): Promise<PersonaRoutingRule[]> {
+    return await db
+      .select()
+      .from(personaRoutingRules)
+      .where(eq(personaRoutingRules.creatorId, creatorId))
+      .orderBy(asc(personaRoutingRules.priority), asc(personaRoutingRules.createdAt));
+  }
+
+  async getPersonaRoutingRule(id: string): Promise<PersonaRoutingRule | undefined> {
+    const [rule] = await db.select().from(personaRoutingRules).where(eq(personaRoutingRules.id, id));
+    return rule || undefined;
+  }
+
+  async createPersonaRoutingRule(rule: InsertPersonaRoutingRule): Promise<PersonaRoutingRule> {
+    const [created] = await db.insert(personaRoutingRules).values(rule).returning();
     return created;
   }
 
-  async updatePersona(id: string, updates: Partial<InsertPersona>): Promise<Persona> {
+  async updatePersonaRoutingRule(id: string, updates: Partial<InsertPersonaRoutingRule>): Promise<PersonaRoutingRule> {
     const [updated] = await db
-      .update(personas)
+      .update(personaRoutingRules)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(personas.id, id))
+      .where(eq(personaRoutingRules.id, id))
       .returning();
     return updated;
   }
 
+  async deletePersonaRoutingRule(id: string): Promise<void> {
+    await db.delete(personaRoutingRules).where(eq(personaRoutingRules.id, id));
+  }
+
   async getFan(id: string): Promise<Fan | undefined> {
     const [fan] = await db.select().from(fans).where(eq(fans.id, id));
     return fan || undefined;
@@ -159,6 +485,118 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(fans).where(eq(fans.spendTier, tier));
   }
 
+  /**
+   * Appends an opt-out or opt-in event and applies it to the fan. Opting in
+   * also clears the flags older code wrote into preferences and boundaries,
+   * leaving the rest of them untouched.
+   */
+  async recordOptOutEvent(event: InsertOptOutEvent): Promise<{ fan: Fan; event: OptOutEvent }> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(fans).where(eq(fans.id, event.fanId)).for('update');
+      const [created] = await tx.insert(optOutEvents).values(event).returning();
+
+      const updates: Partial<typeof fans.$inferInsert> = event.action === 'opt_out'
+        ? { optedOutAt: current.optedOutAt ?? created.createdAt }
+        : {
+          optedOutAt: null,
+          preferences: current.preferences && Object.fromEntries(
+            Object.entries(current.preferences).filter(([key]) => key !== 'opted_out')
+          ),
+          boundaries: current.boundaries && current.boundaries.filter(boundary => boundary !== 'stop_all_messages'),
+        };
+      const [fan] = await tx
+        .update(fans)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(fans.id, event.fanId))
+        .returning();
+      return { fan, event: created };
+    });
+  }
+
+  async getOptOutEvents(fanId: string): Promise<OptOutEvent[]> {
+    return await db
+      .select()
+      .from(optOutEvents)
+      .where(eq(optOutEvents.fanId, fanId))
+      .orderBy(desc(optOutEvents.createdAt));
+  }
+
+  async getFanMemories(fanId: string, creatorId: string): Promise<FanMemory[]> {
+    return await db
+      .select()
+      .from(fanMemories)
+      .where(and(eq(fanMemories.fanId, fanId), eq(fanMemories.creatorId, creatorId)))
+      .orderBy(desc(fanMemories.updatedAt));
+  }
+
+  async getFanMemory(id: string): Promise<FanMemory | undefined> {
+    const [memory] = await db.select().from(fanMemories).where(eq(fanMemories.id, id));
+    return memory || undefined;
+  }
+
+  async createFanMemory(memory: InsertFanMemory): Promise<FanMemory> {
+    const [created] = await db.insert(fanMemories).values(memory).returning();
+    return created;
+  }
+
+  async updateFanMemory(id: string, updates: Partial<InsertFanMemory>): Promise<FanMemory> {
+    const [updated] = await db
+      .update(fanMemories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(fanMemories.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteFanMemory(id: string): Promise<void> {
+    await db.delete(fanMemories).where(eq(fanMemories.id, id));
+  }
+
+  async getLatestConsentText(creatorId: string): Promise<ConsentText | undefined> {
+    const [text] = await db
+      .select()
+      .from(consentTexts)
+      .where(eq(consentTexts.creatorId, creatorId))
+      .orderBy(desc(consentTexts.version))
+      .limit(1);
+    return text || undefined;
+  }
+
+  // Versions are per creator; the unique constraint rejects a concurrent save of the same version
+  async createConsentText(text: Pick<ConsentText, 'creatorId' | 'prompt' | 'ageStatement' | 'romanticStatement'> & { createdBy?: string }): Promise<ConsentText> {
+    const [created] = await db
+      .insert(consentTexts)
+      .values({
+        ...text,
+        version: sql`(SELECT COALESCE(MAX(${consentTexts.version}), 0) + 1 FROM ${consentTexts} WHERE ${consentTexts.creatorId} = ${text.creatorId})`,
+      })
+      .returning();
+    return created;
+  }
+
+  async getConsentRecords(fanId: string, creatorId: string): Promise<ConsentRecord[]> {
+    return await db
+      .select()
+      .from(consentRecords)
+      .where(and(eq(consentRecords.fanId, fanId), eq(consentRecords.creatorId, creatorId)))
+      .orderBy(desc(consentRecords.createdAt));
+  }
+
+  async getLatestConsentRecord(fanId: string, creatorId: string): Promise<ConsentRecord | undefined> {
+    const [record] = await db
+      .select()
+      .from(consentRecords)
+      .where(and(eq(consentRecords.fanId, fanId), eq(consentRecords.creatorId, creatorId)))
+      .orderBy(desc(consentRecords.createdAt))
+      .limit(1);
+    return record || undefined;
+  }
+
+  async createConsentRecord(record: InsertConsentRecord): Promise<ConsentRecord> {
+    const [created] = await db.insert(consentRecords).values(record).returning();
+    return created;
+  }
+
   async getConversation(id: string): Promise<Conversation | undefined> {
     const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
     return conversation || undefined;
@@ -198,11 +636,100 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(conversations.lastMessageAt));
   }
 
+  // Active conversations across all of the creator's personas
+  async getActiveConversationsByCreator(creatorId: string): Promise<Conversation[]> {
+    const rows = await db
+      .select({ conversation: conversations })
+      .from(conversations)
+      .innerJoin(personas, eq(conversations.personaId, personas.id))
+      .where(and(eq(personas.creatorId, creatorId), eq(conversations.isActive, true)))
+      .orderBy(desc(conversations.lastMessageAt));
+    return rows.map(row => row.conversation);
+  }
+
+  // The fan's most recent active conversation with any of the creator's personas
+  async getLatestConversationForFan(fanId: string, creatorId: string): Promise<Conversation | undefined> {
+    const [row] = await db
+      .select({ conversation: conversations })
+      .from(conversations)
+      .innerJoin(personas, eq(conversations.personaId, personas.id))
+      .where(and(
+        eq(conversations.fanId, fanId),
+        eq(personas.creatorId, creatorId),
+        eq(conversations.isActive, true)
+      ))
+      .orderBy(desc(conversations.lastMessageAt))
+      .limit(1);
+    return row?.conversation;
+  }
+
+  // Fans are shared across creators; this is what links one to a creator, active or not
+  async hasConversationWithCreator(fanId: string, creatorId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .innerJoin(personas, eq(conversations.personaId, personas.id))
+      .where(and(eq(conversations.fanId, fanId), eq(personas.creatorId, creatorId)))
+      .limit(1);
+    return !!row;
+  }
+
+  // Puts an operator in charge; returns undefined if another operator holds it and force is off
+  async holdConversation(id: string, operatorId: string, force: boolean): Promise<Conversation | undefined> {
+    const now = new Date();
+    const [held] = await db
+      .update(conversations)
+      .set({
+        mode: 'human',
+        heldBy: operatorId,
+        heldAt: sql`CASE WHEN ${conversations.heldBy} = ${operatorId} THEN ${conversations.heldAt} ELSE ${now} END`,
+        humanActivityAt: now,
+        pausedAt: null,
+        pausedReason: null,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(conversations.id, id),
+        force ? undefined : or(isNull(conversations.heldBy), eq(conversations.heldBy, operatorId))
+      ))
+      .returning();
+    return held || undefined;
+  }
+
+  // Hands the conversation back to the AI, only if heldBy still holds it, so a release happens once
+  async releaseConversation(id: string, heldBy: string): Promise<Conversation | undefined> {
+    const [released] = await db
+      .update(conversations)
+      .set({ mode: 'ai', heldBy: null, heldAt: null, humanActivityAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(conversations.id, id),
+        eq(conversations.mode, 'human'),
+        eq(conversations.heldBy, heldBy)
+      ))
+      .returning();
+    return released || undefined;
+  }
+
+  async getIdleHeldConversations(idleSince: Date): Promise<Conversation[]> {
+    return await db
+      .select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.mode, 'human'),
+        lt(conversations.humanActivityAt, idleSince)
+      ));
+  }
+
   async getMessage(id: string): Promise<Message | undefined> {
     const [message] = await db.select().from(messages).where(eq(messages.id, id));
     return message || undefined;
   }
 
+  async getMessageByExternalId(externalId: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.externalId, externalId));
+    return message || undefined;
+  }
+
   async createMessage(message: InsertMessage): Promise<Message> {
     const [created] = await db.insert(messages).values(message).returning();
     return created;
@@ -217,17 +744,60 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // Oldest first
+  async getMessagesSince(conversationId: string, since: Date): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), gt(messages.createdAt, since)))
+      .orderBy(asc(messages.createdAt));
+  }
+
   async getScheduledMessages(): Promise<Message[]> {
     return await db
       .select()
       .from(messages)
       .where(and(
-        sql`${messages.scheduledAt} IS NOT NULL`,
+        eq(messages.dispatchStatus, 'scheduled'),
         sql`${messages.sentAt} IS NULL`,
-        sql`${messages.scheduledAt} <= NOW()`
+        sql`COALESCE(${messages.nextAttemptAt}, ${messages.scheduledAt}) <= NOW()`
       ));
   }
 
+  async getScheduledMessagesForConversation(conversationId: string): Promise<Message[]> {
+    return await db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        sql`${messages.dispatchStatus} IS NOT NULL`
+      ))
+      .orderBy(asc(messages.scheduledAt));
+  }
+
+  // Locks due messages for leaseSeconds. SKIP LOCKED keeps concurrent
+  // dispatchers on other instances from claiming the same rows.
+  async claimDueScheduledMessages(limit: number, leaseSeconds: number): Promise<Message[]> {
+    const due = db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(
+        eq(messages.dispatchStatus, 'scheduled'),
+        isNull(messages.sentAt),
+        sql`COALESCE(${messages.nextAttemptAt}, ${messages.scheduledAt}) <= NOW()`,
+        or(isNull(messages.dispatchLockedUntil), sql`${messages.dispatchLockedUntil} < NOW()`)
+      ))
+      .orderBy(asc(messages.scheduledAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(messages)
+      .set({ dispatchLockedUntil: sql`NOW() + make_interval(secs => ${leaseSeconds})` })
+      .where(inArray(messages.id, due))
+      .returning();
+  }
+
   async updateMessage(id: string, updates: Partial<InsertMessage>): Promise<Message> {
     const [updated] = await db
       .update(messages)
@@ -237,6 +807,43 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async countMessagesSince(conversationId: string, since: Date | null): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        since ? sql`${messages.createdAt} > ${since}` : undefined
+      ));
+    return result.count;
+  }
+
+  // A read also covers every earlier outbound message in the conversation; already-recorded receipts are kept
+  async recordMessageReceipt(externalId: string, status: 'delivered' | 'read', at: Date): Promise<Message[]> {
+    const message = await this.getMessageByExternalId(externalId);
+    if (!message) return [];
+
+    if (status === 'delivered') {
+      return await db
+        .update(messages)
+        .set({ deliveredAt: at })
+        .where(and(eq(messages.id, message.id), isNull(messages.deliveredAt)))
+        .returning();
+    }
+
+    return await db
+      .update(messages)
+      .set({ readAt: at, deliveredAt: sql`COALESCE(${messages.deliveredAt}, ${at})` })
+      .where(and(
+        eq(messages.conversationId, message.conversationId),
+        ne(messages.sender, 'fan'),
+        isNotNull(messages.externalId),
+        isNull(messages.readAt),
+        lte(messages.createdAt, message.createdAt)
+      ))
+      .returning();
+  }
+
   async getContentItem(id: string): Promise<ContentItem | undefined> {
     const [item] = await db.select().from(contentItems).where(eq(contentItems.id, id));
     return item || undefined;
@@ -273,6 +880,50 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async createMediaDelivery(delivery: InsertMediaDelivery): Promise<MediaDelivery> {
+    const [created] = await db.insert(mediaDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async getMediaDelivery(id: string): Promise<MediaDelivery | undefined> {
+    const [delivery] = await db.select().from(mediaDeliveries).where(eq(mediaDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async getMediaDeliveryByWatermarkCode(code: string): Promise<MediaDelivery | undefined> {
+    const [delivery] = await db.select().from(mediaDeliveries).where(eq(mediaDeliveries.watermarkCode, code));
+    return delivery || undefined;
+  }
+
+  async updateMediaDelivery(id: string, updates: Partial<InsertMediaDelivery>): Promise<MediaDelivery> {
+    const [updated] = await db
+      .update(mediaDeliveries)
+      .set(updates)
+      .where(eq(mediaDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async recordMediaAccess(id: string): Promise<void> {
+    await db
+      .update(mediaDeliveries)
+      .set({ accessCount: sql`${mediaDeliveries.accessCount} + 1`, lastAccessedAt: new Date() })
+      .where(eq(mediaDeliveries.id, id));
+  }
+
+  async hasCompletedPaymentForContent(fanId: string, contentId: string): Promise<boolean> {
+    const [payment] = await db
+      .select({ id: payments.id })
+      .from(payments)
+      .where(and(
+        eq(payments.fanId, fanId),
+        eq(payments.status, 'completed'),
+        sql`${payments.metadata}->>'contentId' = ${contentId}`
+      ))
+      .limit(1);
+    return !!payment;
+  }
+
   async getPayment(id: string): Promise<Payment | undefined> {
     const [payment] = await db.select().from(payments).where(eq(payments.id, id));
     return payment || undefined;
@@ -292,6 +943,69 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getPaymentByStripeIntentId(paymentIntentId: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.stripePaymentIntentId, paymentIntentId));
+    return payment || undefined;
+  }
+
+  // Only applies when the payment is still in fromStatus, so concurrent webhooks cannot both transition it
+  async transitionPaymentStatus(id: string, fromStatus: string, updates: Partial<InsertPayment> & { status: string }): Promise<Payment | undefined> {
+    const [updated] = await db
+      .update(payments)
+      .set(updates)
+      .where(and(eq(payments.id, id), eq(payments.status, fromStatus)))
+      .returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Records a refund in one transaction: raises the payment's refunded total,
+   * takes the refunded amount back off the content item it was credited to
+   * and refreshes the fan's spend tier. Returns undefined if the payment
+   * changed status or already counts this much refunded.
+   */
+  async refundPayment(refund: PaymentRefund): Promise<Payment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId)).for('update');
+      if (!current || current.status !== refund.fromStatus || current.refundedCents >= refund.refundedCents) {
+        return undefined;
+      }
+
+      const now = new Date();
+      const [updated] = await tx
+        .update(payments)
+        .set({ refundedCents: refund.refundedCents, ...(refund.status ? { status: refund.status } : {}) })
+        .where(eq(payments.id, current.id))
+        .returning();
+
+      // Content revenue is credited when the purchase is fulfilled, net of refunds up to then
+      const contentId = current.metadata?.contentId;
+      if (current.fulfilledAt && contentId) {
+        const refundedCents = refund.refundedCents - current.refundedCents;
+        await tx
+          .update(contentItems)
+          .set({
+            ...(refund.status ? { purchaseCount: sql`GREATEST(COALESCE(${contentItems.purchaseCount}, 0) - 1, 0)` } : {}),
+            revenue: sql`COALESCE(${contentItems.revenue}, 0) - ${(refundedCents / 100).toFixed(2)}`,
+            updatedAt: now,
+          })
+          .where(and(eq(contentItems.id, contentId), eq(contentItems.creatorId, current.creatorId)));
+      }
+
+      const [spend] = await tx
+        .select({ lifetimeCents: sql<number>`COALESCE(SUM(${payments.amountCents} - ${payments.refundedCents}), 0)::int` })
+        .from(payments)
+        .where(and(eq(payments.fanId, current.fanId), eq(payments.status, 'completed')));
+
+      await tx
+        .update(fans)
+        .set({ spendTier: refund.resolveSpendTier(spend?.lifetimeCents || 0), updatedAt: now })
+        .where(eq(fans.id, current.fanId));
+
+      return updated;
+    });
+  }
+
   async getPaymentsByFan(fanId: string): Promise<Payment[]> {
     return await db
       .select()
@@ -303,7 +1017,7 @@ export class DatabaseStorage implements IStorage {
   async getRevenueByCreator(creatorId: string): Promise<{ totalRevenue: number; paymentCount: number }> {
     const [result] = await db
       .select({
-        totalRevenue: sql<number>`COALESCE(SUM(${payments.amountCents}), 0)::int`,
+        totalRevenue: sql<number>`COALESCE(SUM(${payments.amountCents} - ${payments.refundedCents}), 0)::int`,
         paymentCount: count(payments.id)
       })
       .from(payments)
@@ -315,6 +1029,222 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  /**
+   * Records a completed purchase in one transaction: marks the payment
+   * fulfilled, appends the delivery messages, credits the content item and
+   * refreshes the fan's spend tier. Returns undefined if the payment was
+   * already fulfilled.
+   */
+  async fulfillPurchase(fulfillment: PurchaseFulfillment): Promise<FulfilledPurchase | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [claimed] = await tx
+        .update(payments)
+        .set({ fulfilledAt: now })
+        .where(and(eq(payments.id, fulfillment.paymentId), isNull(payments.fulfilledAt)))
+        .returning();
+      if (!claimed) return undefined;
+
+      const [mediaDelivery] = fulfillment.mediaDelivery
+        ? await tx.insert(mediaDeliveries).values(fulfillment.mediaDelivery).returning()
+        : [];
+
+      // now() is fixed for the transaction, so stagger createdAt to keep the messages ordered
+      const created = fulfillment.messages.length === 0 ? [] : await tx
+        .insert(messages)
+        .values(fulfillment.messages.map((message, index) => ({
+          ...message,
+          conversationId: fulfillment.conversationId,
+          sentAt: now,
+          createdAt: new Date(now.getTime() + index),
+        })))
+        .returning();
+
+      await tx
+        .update(conversations)
+        .set({ lastMessageAt: now, updatedAt: now })
+        .where(eq(conversations.id, fulfillment.conversationId));
+
+      if (fulfillment.contentItemId) {
+        await tx
+          .update(contentItems)
+          .set({
+            purchaseCount: sql`COALESCE(${contentItems.purchaseCount}, 0) + 1`,
+            // Net of any refund that arrived first
+            revenue: sql`COALESCE(${contentItems.revenue}, 0) + ${((claimed.amountCents - claimed.refundedCents) / 100).toFixed(2)}`,
+            updatedAt: now,
+          })
+          .where(eq(contentItems.id, fulfillment.contentItemId));
+      }
+
+      const [spend] = await tx
+        .select({ lifetimeCents: sql<number>`COALESCE(SUM(${payments.amountCents} - ${payments.refundedCents}), 0)::int` })
+        .from(payments)
+        .where(and(eq(payments.fanId, fulfillment.fanId), eq(payments.status, 'completed')));
+
+      await tx
+        .update(fans)
+        .set({
+          lastPurchaseAt: now,
+          spendTier: fulfillment.resolveSpendTier(spend?.lifetimeCents || 0),
+          updatedAt: now,
+        })
+        .where(eq(fans.id, fulfillment.fanId));
+
+      return { messages: created, mediaDelivery };
+    });
+  }
+
+  async createReplyDrafts(drafts: InsertReplyDraft[]): Promise<ReplyDraft[]> {
+    return await db.insert(replyDrafts).values(drafts).returning();
+  }
+
+  async getReplyDraft(id: string): Promise<ReplyDraft | undefined> {
+    const [draft] = await db.select().from(replyDrafts).where(eq(replyDrafts.id, id));
+    return draft || undefined;
+  }
+
+  // Oldest first; a null creatorId returns every creator's drafts
+  async getPendingReplyDrafts(creatorId: string | null): Promise<ReplyDraft[]> {
+    const rows = await db
+      .select({ draft: replyDrafts })
+      .from(replyDrafts)
+      .innerJoin(personas, eq(replyDrafts.personaId, personas.id))
+      .where(and(
+        eq(replyDrafts.status, 'pending'),
+        creatorId ? eq(personas.creatorId, creatorId) : undefined
+      ))
+      .orderBy(asc(replyDrafts.createdAt), asc(replyDrafts.candidateIndex));
+    return rows.map(row => row.draft);
+  }
+
+  // Approves one candidate and supersedes its siblings; undefined if any of them was already approved or this one reviewed
+  async approveReplyDraft(id: string, review: Pick<InsertReplyDraft, 'sentText' | 'editDistance' | 'reviewedBy'>): Promise<ReplyDraft | undefined> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx.select().from(replyDrafts).where(eq(replyDrafts.id, id));
+      if (!target) return undefined;
+
+      const group = await tx
+        .select()
+        .from(replyDrafts)
+        .where(eq(replyDrafts.inboundMessageId, target.inboundMessageId))
+        .for('update');
+      if (group.some(draft => draft.status === 'approved') || group.find(draft => draft.id === id)?.status !== 'pending') {
+        return undefined;
+      }
+
+      const reviewedAt = new Date();
+      await tx
+        .update(replyDrafts)
+        .set({ status: 'superseded', reviewedBy: review.reviewedBy, reviewedAt })
+        .where(and(
+          eq(replyDrafts.inboundMessageId, target.inboundMessageId),
+          eq(replyDrafts.status, 'pending'),
+          sql`${replyDrafts.id} <> ${id}`
+        ));
+      const [approved] = await tx
+        .update(replyDrafts)
+        .set({ ...review, status: 'approved', reviewedAt })
+        .where(eq(replyDrafts.id, id))
+        .returning();
+      return approved;
+    });
+  }
+
+  async rejectReplyDraft(id: string, review: Pick<InsertReplyDraft, 'reviewedBy' | 'reviewReason'>): Promise<ReplyDraft | undefined> {
+    const [rejected] = await db
+      .update(replyDrafts)
+      .set({ ...review, status: 'rejected', reviewedAt: new Date() })
+      .where(and(eq(replyDrafts.id, id), eq(replyDrafts.status, 'pending')))
+      .returning();
+    return rejected || undefined;
+  }
+
+  async updateReplyDraft(id: string, updates: Partial<InsertReplyDraft>): Promise<ReplyDraft> {
+    const [updated] = await db
+      .update(replyDrafts)
+      .set(updates)
+      .where(eq(replyDrafts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getChannelAccount(channel: string, externalAccountId: string): Promise<ChannelAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(channelAccounts)
+      .where(and(
+        eq(channelAccounts.channel, channel),
+        eq(channelAccounts.externalAccountId, externalAccountId)
+      ));
+    return account || undefined;
+  }
+
+  // The most recently connected active account, if a creator has several on one channel
+  async getChannelAccountForCreator(creatorId: string, channel: string): Promise<ChannelAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(channelAccounts)
+      .where(and(
+        eq(channelAccounts.creatorId, creatorId),
+        eq(channelAccounts.channel, channel),
+        eq(channelAccounts.isActive, true)
+      ))
+      .orderBy(desc(channelAccounts.createdAt))
+      .limit(1);
+    return account || undefined;
+  }
+
+  async getChannelAccountsByCreator(creatorId: string): Promise<ChannelAccount[]> {
+    return await db
+      .select()
+      .from(channelAccounts)
+      .where(eq(channelAccounts.creatorId, creatorId))
+      .orderBy(asc(channelAccounts.channel), desc(channelAccounts.createdAt));
+  }
+
+  // Returns undefined when another creator has already connected the account
+  async upsertChannelAccount(account: InsertChannelAccount): Promise<ChannelAccount | undefined> {
+    const { creatorId, channel, externalAccountId, ...updates } = account;
+    const [saved] = await db
+      .insert(channelAccounts)
+      .values(account)
+      .onConflictDoUpdate({
+        target: [channelAccounts.channel, channelAccounts.externalAccountId],
+        set: { ...updates, updatedAt: new Date() },
+        setWhere: eq(channelAccounts.creatorId, creatorId),
+      })
+      .returning();
+    return saved || undefined;
+  }
+
+  // Read-modify-write of one bucket under a row lock, so instances sharing the database agree
+  async updateRateLimitBucket<T>(key: string, update: (current: RateLimitBucket | undefined) => { bucket: Omit<RateLimitBucket, 'key'>; result: T }): Promise<T> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(rateLimitBuckets).where(eq(rateLimitBuckets.key, key)).for('update');
+      const { bucket, result } = update(current);
+      await tx
+        .insert(rateLimitBuckets)
+        .values({ key, ...bucket })
+        .onConflictDoUpdate({ target: rateLimitBuckets.key, set: bucket });
+      return result;
+    });
+  }
+
+  // Returns false when the event was already claimed
+  async claimStripeEvent(eventId: string, type: string): Promise<boolean> {
+    const claimed = await db
+      .insert(stripeEvents)
+      .values({ id: eventId, type })
+      .onConflictDoNothing()
+      .returning();
+    return claimed.length > 0;
+  }
+
+  async releaseStripeEvent(eventId: string): Promise<void> {
+    await db.delete(stripeEvents).where(eq(stripeEvents.id, eventId));
+  }
+
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const [created] = await db.insert(auditLogs).values(log).returning();
     return created;
@@ -337,14 +1267,20 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getModerationQueue(status?: string): Promise<ModerationQueue[]> {
-    let query = db.select().from(moderationQueue);
-    
-    if (status) {
-      query = query.where(eq(moderationQueue.status, status));
-    }
-    
-    return await query.orderBy(desc(moderationQueue.createdAt));
+  async getModerationQueueItem(id: string): Promise<ModerationQueue | undefined> {
+    const [item] = await db.select().from(moderationQueue).where(eq(moderationQueue.id, id));
+    return item || undefined;
+  }
+
+  async getModerationQueue(status?: string, creatorId?: string): Promise<ModerationQueue[]> {
+    return await db
+      .select()
+      .from(moderationQueue)
+      .where(and(
+        status ? eq(moderationQueue.status, status) : undefined,
+        creatorId ? eq(moderationQueue.creatorId, creatorId) : undefined
+      ))
+      .orderBy(desc(moderationQueue.createdAt));
   }
 
   async updateModerationQueue(id: string, updates: Partial<InsertModerationQueue>): Promise<ModerationQueue> {
@@ -356,6 +1292,51 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getModerationRule(id: string): Promise<ModerationRule | undefined> {
+    const [rule] = await db.select().from(moderationRules).where(eq(moderationRules.id, id));
+    return rule || undefined;
+  }
+
+  // Global rules plus, when given, the creator's own rules (all rules otherwise)
+  async getModerationRules(creatorId?: string): Promise<ModerationRule[]> {
+    return await db
+      .select()
+      .from(moderationRules)
+      .where(creatorId ? or(isNull(moderationRules.creatorId), eq(moderationRules.creatorId, creatorId)) : undefined)
+      .orderBy(desc(moderationRules.createdAt));
+  }
+
+  async getActiveModerationRules(creatorId?: string): Promise<ModerationRule[]> {
+    const scope = creatorId
+      ? or(isNull(moderationRules.creatorId), eq(moderationRules.creatorId, creatorId))
+      : isNull(moderationRules.creatorId);
+
+    return await db
+      .select()
+      .from(moderationRules)
+      .where(and(eq(moderationRules.isActive, true), scope));
+  }
+
+  async createModerationRule(rule: InsertModerationRule & { createdBy?: string }): Promise<ModerationRule> {
+    const [created] = await db.insert(moderationRules).values(rule).returning();
+    return created;
+  }
+
+  // Global rules whose name is already taken are left as they are
+  async seedModerationRules(rules: InsertModerationRule[]): Promise<void> {
+    await db.insert(moderationRules).values(rules).onConflictDoNothing();
+  }
+
+  // Every change bumps the rule version so moderation results can cite exactly what fired
+  async updateModerationRule(id: string, updates: Partial<InsertModerationRule>): Promise<ModerationRule> {
+    const [updated] = await db
+      .update(moderationRules)
+      .set({ ...updates, version: sql`${moderationRules.version} + 1`, updatedAt: new Date() })
+      .where(eq(moderationRules.id, id))
+      .returning();
+    return updated;
+  }
+
   async getDashboardMetrics(creatorId: string): Promise<{
     totalRevenue: number;
     activeConversations: number;
@@ -368,9 +1349,13 @@ export class DatabaseStorage implements IStorage {
     // Get revenue data
     const { totalRevenue } = await this.getRevenueByCreator(creatorId);
 
-    // Get active conversations count
-    const persona = await this.getPersonaByCreatorId(creatorId);
-    const activeConversations = persona ? (await this.getActiveConversations(persona.id)).length : 0;
+    // Active conversations across all of the creator's personas
+    const [conversationStats] = await db
+      .select({ activeConversations: count(conversations.id) })
+      .from(conversations)
+      .innerJoin(personas, eq(conversations.personaId, personas.id))
+      .where(and(eq(personas.creatorId, creatorId), eq(conversations.isActive, true)));
+    const activeConversations = conversationStats?.activeConversations || 0;
 
     // Get today's message stats
     const today = new Date();
@@ -394,7 +1379,10 @@ export class DatabaseStorage implements IStorage {
         blockedToday: sql<number>`SUM(CASE WHEN ${moderationQueue.status} = 'blocked' THEN 1 ELSE 0 END)::int`
       })
       .from(moderationQueue)
-      .where(sql`${moderationQueue.createdAt} >= ${today}`);
+      .where(and(
+        eq(moderationQueue.creatorId, creatorId),
+        sql`${moderationQueue.createdAt} >= ${today}`
+      ));
 
     return {
       totalRevenue: totalRevenue / 100, // Convert cents to dollars
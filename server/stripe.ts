@@ -0,0 +1,8 @@
+import Stripe from "stripe";
+
+// Initialize Stripe only if keys are available
+export const stripe: Stripe | null = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+    apiVersion: "2024-06-20",
+  })
+  : null;
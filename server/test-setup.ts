@@ -0,0 +1,3 @@
+// Loaded before every test file. The database module connects lazily, but refuses to load without a URL
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+process.env.MEDIA_SIGNING_SECRET ??= "test-secret";
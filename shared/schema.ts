@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, real, timestamp, boolean, jsonb, unique, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -9,6 +9,8 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email"),
+  role: text("role").notNull().default("creator"), // 'creator', 'operator', 'admin'
+  creatorId: varchar("creator_id").references((): AnyPgColumn => users.id), // operators act on behalf of a creator
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -24,6 +26,56 @@ export const personas = pgTable("personas", {
   dontSay: jsonb("dont_say").$type<string[]>(),
   offerMenu: jsonb("offer_menu").$type<Array<{sku: string, label: string, priceCents: number}>>(),
   disclosure: text("disclosure"),
+  llmConfig: jsonb("llm_config").$type<LLMConfig>(), // overrides the LLM_PROVIDER/LLM_MODEL/LLM_BASE_URL defaults
+  // Co-pilot mode: replies are drafted for approval instead of sent; spendTiers limits it to those fans
+  copilotConfig: jsonb("copilot_config").$type<CopilotConfig>(),
+  isActive: boolean("is_active").default(true),
+  // Answers new conversations that no routing rule matches
+  isDefault: boolean("is_default").notNull().default(false),
+  // Latest entry in persona_versions; bumped on every save that changes the persona
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// The persona fields captured by each version
+export const PERSONA_VERSIONED_FIELDS = [
+  'name', 'bio', 'voiceKeywords', 'doSay', 'dontSay', 'offerMenu', 'disclosure', 'llmConfig',
+] as const;
+
+export type PersonaSnapshot = Pick<typeof personas.$inferSelect, typeof PERSONA_VERSIONED_FIELDS[number]>;
+
+// Immutable history of persona saves; rollbacks add a new version rather than rewriting one
+export const personaVersions = pgTable("persona_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  personaId: varchar("persona_id").notNull().references(() => personas.id),
+  version: integer("version").notNull(),
+  snapshot: jsonb("snapshot").$type<PersonaSnapshot>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  // Set when this version restored an earlier one
+  rolledBackFrom: integer("rolled_back_from"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("persona_versions_persona_version_unique").on(table.personaId, table.version),
+]);
+
+export type PersonaRoutingConditions = {
+  channels?: string[];
+  languages?: string[]; // ISO 639-1 codes, matched against the fan's language
+  spendTiers?: string[];
+  // Local time window, e.g. 22:00-06:00; timezone defaults to the fan's, then UTC
+  hours?: { start: string; end: string; timezone?: string };
+};
+
+// Decides which of a creator's personas answers a new fan conversation.
+// Rules are checked in ascending priority; every condition set must match.
+export const personaRoutingRules = pgTable("persona_routing_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creatorId: varchar("creator_id").notNull().references(() => users.id),
+  personaId: varchar("persona_id").notNull().references(() => personas.id),
+  name: text("name").notNull(),
+  priority: integer("priority").notNull().default(100),
+  conditions: jsonb("conditions").$type<PersonaRoutingConditions>().notNull(),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -40,6 +92,8 @@ export const fans = pgTable("fans", {
   lastPurchaseAt: timestamp("last_purchase_at"),
   boundaries: jsonb("boundaries").$type<string[]>(),
   consentStatus: jsonb("consent_status").$type<{ageAffirmed: boolean, romanticContent: boolean, timestamp: string}>(),
+  // Set while the fan is opted out of all messages; only changed through opt_out_events
+  optedOutAt: timestamp("opted_out_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -52,6 +106,19 @@ export const conversations = pgTable("conversations", {
   sentiment: text("sentiment"),
   lastMessageAt: timestamp("last_message_at"),
   isActive: boolean("is_active").default(true),
+  // Who answers the fan: 'ai', 'human' (an operator has taken over) or 'paused'
+  mode: text("mode").notNull().default("ai"),
+  // Set when a moderator pauses AI replies, e.g. after an escalation
+  pausedAt: timestamp("paused_at"),
+  pausedReason: text("paused_reason"),
+  // Human mode only: the operator holding the conversation, since when, and their last activity
+  heldBy: varchar("held_by").references(() => users.id),
+  heldAt: timestamp("held_at"),
+  humanActivityAt: timestamp("human_activity_at"),
+  // Channel the fan writes in on, e.g. 'x_dm'; null when the conversation only goes through the API
+  channel: text("channel"),
+  // When threadSummary was last refreshed; later messages are not yet summarized
+  summaryUpdatedAt: timestamp("summary_updated_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -59,12 +126,27 @@ export const conversations = pgTable("conversations", {
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   conversationId: varchar("conversation_id").notNull().references(() => conversations.id),
-  type: text("type").notNull(), // 'text', 'media', 'payment_link'
+  type: text("type").notNull(), // 'text', 'media', 'payment_link', 'consent_prompt', 'opt_out_notice', 'purchase_thanks'
   content: text("content").notNull(),
-  sender: text("sender").notNull(), // 'ai', 'fan'
+  sender: text("sender").notNull(), // 'ai', 'fan', 'operator'
+  // Persona version whose prompt generated an AI message
+  personaVersion: integer("persona_version"),
   moderationStatus: text("moderation_status").default("approved"),
   scheduledAt: timestamp("scheduled_at"),
+  // Scheduled messages only: 'scheduled', 'sent', 'failed', 'cancelled' or 'skipped'
+  dispatchStatus: text("dispatch_status"),
+  dispatchAttempts: integer("dispatch_attempts").notNull().default(0),
+  // Set while a dispatcher instance is sending the message
+  dispatchLockedUntil: timestamp("dispatch_locked_until"),
+  // Retry time after a failed attempt; falls back to scheduledAt
+  nextAttemptAt: timestamp("next_attempt_at"),
+  dispatchError: text("dispatch_error"),
   sentAt: timestamp("sent_at"),
+  // The channel's ID for the message; inbound webhook retries are deduplicated on it
+  externalId: text("external_id").unique(),
+  // Channel receipts for outbound messages; X only reports reads
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -74,7 +156,16 @@ export const contentItems = pgTable("content_items", {
   type: text("type").notNull(), // 'image', 'video', 'audio'
   title: text("title").notNull(),
   url: text("url").notNull(),
+  // Key in the media storage backend; items without one are externally hosted at url
+  storageKey: text("storage_key"),
+  mimeType: text("mime_type"),
   thumbnailUrl: text("thumbnail_url"),
+  // Generated renditions by name: 'thumbnail', 'medium' (images) and 'preview' (blurred teaser)
+  variants: jsonb("variants").$type<Record<string, {key: string, width: number, height: number, mimeType: string, sizeBytes: number}>>(),
+  width: integer("width"),
+  height: integer("height"),
+  durationSeconds: real("duration_seconds"),
+  sizeBytes: integer("size_bytes"),
   captionTemplate: text("caption_template"),
   allowedContexts: jsonb("allowed_contexts").$type<string[]>(),
   priceCents: integer("price_cents").default(0),
@@ -89,13 +180,158 @@ export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   fanId: varchar("fan_id").notNull().references(() => fans.id),
   creatorId: varchar("creator_id").notNull().references(() => users.id),
-  stripePaymentIntentId: text("stripe_payment_intent_id").notNull(),
+  stripePaymentIntentId: text("stripe_payment_intent_id").notNull().unique(),
   amountCents: integer("amount_cents").notNull(),
-  status: text("status").notNull(), // 'pending', 'completed', 'failed'
+  refundedCents: integer("refunded_cents").notNull().default(0),
+  status: text("status").notNull(), // 'pending', 'completed', 'failed', 'refunded', 'disputed'
   productType: text("product_type").notNull(), // 'custom_video', 'chat_session', 'photo_set'
   metadata: jsonb("metadata").$type<Record<string, any>>(),
   completedAt: timestamp("completed_at"),
+  // Set once purchased content and the thank-you message were delivered
+  fulfilledAt: timestamp("fulfilled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Each issued media link; the id is the token's jti, so a link can be revoked or traced
+export const mediaDeliveries = pgTable("media_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contentId: varchar("content_id").notNull().references(() => contentItems.id),
+  fanId: varchar("fan_id").notNull().references(() => fans.id),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  // Per-delivery forensic code embedded in (or burned onto) the served file
+  watermarkCode: text("watermark_code").notNull().unique(),
+  // Storage key of the watermarked copy, rendered when the link is issued
+  watermarkedKey: text("watermarked_key"),
+  // 'original', or 'preview' for a teaser sent before purchase
+  variant: text("variant").notNull().default("original"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  accessCount: integer("access_count").notNull().default(0),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Long-term facts about a fan, scoped to one creator so memories never cross creators
+export const fanMemories = pgTable("fan_memories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fanId: varchar("fan_id").notNull().references(() => fans.id),
+  creatorId: varchar("creator_id").notNull().references(() => users.id),
+  category: text("category").notNull(), // 'name', 'interest', 'purchase', 'boundary', 'other'
+  fact: text("fact").notNull(),
+  // Provenance: 'conversation' (extracted by the LLM), 'purchase' or 'operator'
+  source: text("source").notNull(),
+  conversationId: varchar("conversation_id").references(() => conversations.id),
+  messageId: varchar("message_id").references(() => messages.id),
+  paymentId: varchar("payment_id").references(() => payments.id),
+  // Operator who added or last edited the memory
+  updatedBy: varchar("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Consent wording a creator asks fans to affirm; each edit is a new version
+export const consentTexts = pgTable("consent_texts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creatorId: varchar("creator_id").notNull().references(() => users.id),
+  version: integer("version").notNull(),
+  prompt: text("prompt").notNull(),
+  ageStatement: text("age_statement").notNull(),
+  romanticStatement: text("romantic_statement").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("consent_texts_creator_version_unique").on(table.creatorId, table.version),
+]);
+
+// Append-only ledger of consent given to and withdrawn from a creator; the latest record wins
+export const consentRecords = pgTable("consent_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fanId: varchar("fan_id").notNull().references(() => fans.id),
+  creatorId: varchar("creator_id").notNull().references(() => users.id),
+  personaId: varchar("persona_id").references(() => personas.id),
+  action: text("action").notNull(), // 'affirm', 'revoke'
+  ageAffirmed: boolean("age_affirmed").notNull().default(false),
+  romanticContent: boolean("romantic_content").notNull().default(false),
+  // consent_texts version the fan saw; 0 is the built-in default wording
+  consentTextVersion: integer("consent_text_version").notNull(),
+  // Persona disclosure shown alongside the consent prompt
+  disclosure: text("disclosure"),
+  channel: text("channel").notNull(), // 'in_app', 'x_dm', 'api', ...
+  sourceMessageId: varchar("source_message_id").references(() => messages.id),
+  reason: text("reason"),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every opt-out and opt-in, whether by keyword or recorded by an operator
+export const optOutEvents = pgTable("opt_out_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fanId: varchar("fan_id").notNull().references(() => fans.id),
+  action: text("action").notNull(), // 'opt_out', 'opt_in'
+  channel: text("channel").notNull(),
+  // The STOP/START keyword the fan sent, if any
+  keyword: text("keyword"),
+  // The creator whose persona received the keyword; opt-outs apply to every creator
+  creatorId: varchar("creator_id").references(() => users.id),
+  sourceMessageId: varchar("source_message_id").references(() => messages.id),
+  reason: text("reason"),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Stripe event IDs already handled, so webhook replays are no-ops
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+});
+
+// A creator's account on an external channel; inbound webhooks name it by externalAccountId
+export const channelAccounts = pgTable("channel_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creatorId: varchar("creator_id").notNull().references(() => users.id),
+  channel: text("channel").notNull(), // 'x_dm', 'mock'
+  externalAccountId: text("external_account_id").notNull(),
+  handle: text("handle"),
+  // User-context token used to send as the account; never returned by the API
+  accessToken: text("access_token"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("channel_accounts_channel_account_unique").on(table.channel, table.externalAccountId),
+]);
+
+// Co-pilot reply candidates awaiting approval; the candidates for one fan message share inboundMessageId
+export const replyDrafts = pgTable("reply_drafts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => conversations.id),
+  fanId: varchar("fan_id").notNull().references(() => fans.id),
+  personaId: varchar("persona_id").notNull().references(() => personas.id),
+  personaVersion: integer("persona_version").notNull(),
+  inboundMessageId: varchar("inbound_message_id").notNull().references(() => messages.id),
+  candidateIndex: integer("candidate_index").notNull().default(0),
+  content: text("content").notNull(),
+  // Unvalidated, as the model returned them; run only if the draft is approved
+  toolCalls: jsonb("tool_calls").$type<Array<{ id: string; name: string; arguments: string }>>(),
+  // Outbound moderation of the draft as generated, shown to the reviewer
+  moderation: jsonb("moderation").$type<{ action: string; reason?: string; violations: string[] }>(),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'superseded'
+  // Approved drafts only: the text actually sent and its edit distance from content
+  sentText: text("sent_text"),
+  editDistance: integer("edit_distance"),
+  messageId: varchar("message_id").references(() => messages.id),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewReason: text("review_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Token buckets for the Postgres rate limit store, keyed e.g. "fan:<id>" or "ip:<address>"
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: real("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
 });
 
 export const auditLogs = pgTable("audit_logs", {
@@ -114,15 +350,40 @@ export const auditLogs = pgTable("audit_logs", {
 export const moderationQueue = pgTable("moderation_queue", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   messageId: varchar("message_id").references(() => messages.id),
+  fanId: varchar("fan_id").references(() => fans.id),
+  conversationId: varchar("conversation_id").references(() => conversations.id),
+  creatorId: varchar("creator_id").references(() => users.id),
   content: text("content").notNull(),
   flagReason: text("flag_reason").notNull(),
   severity: text("severity").notNull(), // 'low', 'medium', 'high', 'critical'
-  status: text("status").default("pending"), // 'pending', 'approved', 'blocked'
+  status: text("status").default("pending"), // 'pending', 'approved', 'blocked', 'escalated'
+  decision: text("decision"), // 'approve', 'block', 'escalate'
+  decisionReason: text("decision_reason"),
   reviewedBy: varchar("reviewed_by").references(() => users.id),
   reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const moderationRules = pgTable("moderation_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creatorId: varchar("creator_id").references(() => users.id), // null for global rules
+  name: text("name").notNull(),
+  ruleType: text("rule_type").notNull(), // 'banned', 'suspicious', 'escalation'
+  matchType: text("match_type").notNull(), // 'regex', 'keywords'
+  pattern: text("pattern"),
+  keywords: jsonb("keywords").$type<string[]>(),
+  severity: text("severity").notNull(), // 'low', 'medium', 'high', 'critical'
+  action: text("action").notNull(), // 'review', 'block', 'escalate'
+  version: integer("version").notNull().default(1),
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // Lets every instance seed the default rules without duplicating them
+  uniqueIndex("moderation_rules_global_name_unique").on(table.name).where(sql`${table.creatorId} is null`),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   personas: many(personas),
@@ -136,11 +397,30 @@ export const personasRelations = relations(personas, ({ one, many }) => ({
     references: [users.id],
   }),
   conversations: many(conversations),
+  routingRules: many(personaRoutingRules),
+  versions: many(personaVersions),
+}));
+
+export const personaVersionsRelations = relations(personaVersions, ({ one }) => ({
+  persona: one(personas, {
+    fields: [personaVersions.personaId],
+    references: [personas.id],
+  }),
+}));
+
+export const personaRoutingRulesRelations = relations(personaRoutingRules, ({ one }) => ({
+  persona: one(personas, {
+    fields: [personaRoutingRules.personaId],
+    references: [personas.id],
+  }),
 }));
 
 export const fansRelations = relations(fans, ({ many }) => ({
   conversations: many(conversations),
   payments: many(payments),
+  memories: many(fanMemories),
+  consentRecords: many(consentRecords),
+  optOutEvents: many(optOutEvents),
 }));
 
 export const conversationsRelations = relations(conversations, ({ one, many }) => ({
@@ -152,6 +432,10 @@ export const conversationsRelations = relations(conversations, ({ one, many }) =
     fields: [conversations.personaId],
     references: [personas.id],
   }),
+  holder: one(users, {
+    fields: [conversations.heldBy],
+    references: [users.id],
+  }),
   messages: many(messages),
 }));
 
@@ -162,6 +446,13 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   }),
 }));
 
+export const channelAccountsRelations = relations(channelAccounts, ({ one }) => ({
+  creator: one(users, {
+    fields: [channelAccounts.creatorId],
+    references: [users.id],
+  }),
+}));
+
 export const contentItemsRelations = relations(contentItems, ({ one }) => ({
   creator: one(users, {
     fields: [contentItems.creatorId],
@@ -180,20 +471,93 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
   }),
 }));
 
+export const moderationQueueRelations = relations(moderationQueue, ({ one }) => ({
+  message: one(messages, {
+    fields: [moderationQueue.messageId],
+    references: [messages.id],
+  }),
+  fan: one(fans, {
+    fields: [moderationQueue.fanId],
+    references: [fans.id],
+  }),
+  conversation: one(conversations, {
+    fields: [moderationQueue.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
+export const replyDraftsRelations = relations(replyDrafts, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [replyDrafts.conversationId],
+    references: [conversations.id],
+  }),
+  inboundMessage: one(messages, {
+    fields: [replyDrafts.inboundMessageId],
+    references: [messages.id],
+  }),
+}));
+
+export const optOutEventsRelations = relations(optOutEvents, ({ one }) => ({
+  fan: one(fans, {
+    fields: [optOutEvents.fanId],
+    references: [fans.id],
+  }),
+}));
+
+export const consentRecordsRelations = relations(consentRecords, ({ one }) => ({
+  fan: one(fans, {
+    fields: [consentRecords.fanId],
+    references: [fans.id],
+  }),
+  sourceMessage: one(messages, {
+    fields: [consentRecords.sourceMessageId],
+    references: [messages.id],
+  }),
+}));
+
+export const fanMemoriesRelations = relations(fanMemories, ({ one }) => ({
+  fan: one(fans, {
+    fields: [fanMemories.fanId],
+    references: [fans.id],
+  }),
+  message: one(messages, {
+    fields: [fanMemories.messageId],
+    references: [messages.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 });
 
+export const copilotConfigSchema = z.object({
+  enabled: z.boolean(),
+  spendTiers: z.array(z.string().min(1)).optional(),
+  // Candidate replies drafted per fan message
+  candidates: z.number().int().min(1).max(3).optional(),
+});
+
+// The local provider's endpoint is server configuration (LLM_BASE_URL), never a persona setting
+export const llmConfigSchema = z.object({
+  provider: z.enum(['openai', 'local', 'fake']).optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+}).strict();
+
 export const insertPersonaSchema = createInsertSchema(personas).omit({
   id: true,
+  version: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  llmConfig: llmConfigSchema.nullable().optional(),
+  copilotConfig: copilotConfigSchema.nullable().optional(),
 });
 
 export const insertFanSchema = createInsertSchema(fans).omit({
   id: true,
+  optedOutAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -225,27 +589,241 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   createdAt: true,
 });
 
+export const insertMediaDeliverySchema = createInsertSchema(mediaDeliveries).omit({
+  id: true,
+  accessCount: true,
+  lastAccessedAt: true,
+  createdAt: true,
+});
+
 export const insertModerationQueueSchema = createInsertSchema(moderationQueue).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertModerationRuleSchema = createInsertSchema(moderationRules, {
+  ruleType: z.enum(['banned', 'suspicious', 'escalation']),
+  matchType: z.enum(['regex', 'keywords']),
+  pattern: z.string().max(500).nullish(),
+  keywords: z.array(z.string().min(1).max(100)).max(200).nullish(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  action: z.enum(['review', 'block', 'escalate']),
+}).omit({
+  id: true,
+  version: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const userRoles = ['creator', 'operator', 'admin'] as const;
+
+export const FAN_MEMORY_CATEGORIES = ['name', 'interest', 'purchase', 'boundary', 'other'] as const;
+
+export const insertFanMemorySchema = createInsertSchema(fanMemories, {
+  category: z.enum(FAN_MEMORY_CATEGORIES),
+  fact: z.string().trim().min(1).max(500),
+  source: z.enum(['conversation', 'purchase', 'operator']),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+export const personaRoutingConditionsSchema = z.object({
+  channels: z.array(z.string().min(1)).optional(),
+  languages: z.array(z.string().min(2).max(8)).optional(),
+  spendTiers: z.array(z.string().min(1)).optional(),
+  hours: z.object({
+    start: timeOfDay,
+    end: timeOfDay,
+    timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+  }).optional(),
+});
+
+export const insertPersonaRoutingRuleSchema = createInsertSchema(personaRoutingRules, {
+  name: z.string().trim().min(1).max(200),
+  priority: z.number().int().min(0).max(10000),
+  conditions: personaRoutingConditionsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const consentTextSchema = z.object({
+  prompt: z.string().trim().min(1).max(2000),
+  ageStatement: z.string().trim().min(1).max(200),
+  romanticStatement: z.string().trim().min(1).max(200),
+});
+
+// Scoped by personaId or creatorId; operators and creators default to their own creator
+const consentScope = {
+  fanId: z.string(),
+  personaId: z.string().optional(),
+  creatorId: z.string().optional(),
+  channel: z.string().min(1).max(50).default('api'),
+  sourceMessageId: z.string().optional(),
+};
+
+export const consentAffirmSchema = z.object({
+  ...consentScope,
+  ageAffirmed: z.boolean().optional(),
+  romanticContent: z.boolean().optional(),
+  // Older clients send the statements the fan ticked instead of booleans
+  affirmations: z.array(z.string()).optional(),
+  // The wording version the fan was shown; rejected if it is no longer current
+  consentTextVersion: z.number().int().min(0).optional(),
+});
+
+// Operators record opt-outs received outside the chat; only the fan can opt back in
+export const recordOptOutSchema = z.object({
+  channel: z.string().min(1).max(50).default('operator'),
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const channelAccountSchema = z.object({
+  externalAccountId: z.string().trim().min(1).max(100),
+  handle: z.string().trim().max(100).optional(),
+  accessToken: z.string().min(1).optional(),
+  isActive: z.boolean().default(true),
+});
+
+// Approving with content sends the edited text instead of the draft
+// A library item is always sold at its own price, so only custom requests name an amount
+export const createPaymentIntentSchema = z.object({
+  fanId: z.string().min(1),
+  creatorId: z.string().min(1),
+  contentId: z.string().min(1).optional(),
+  amountCents: z.number().int().min(100).max(100000).optional(),
+  productType: z.string().trim().min(1).max(50),
+  description: z.string().trim().max(200).optional(),
+}).refine(data => !data.contentId !== !data.amountCents, {
+  message: "Give either contentId or amountCents",
+});
+
+export const approveDraftSchema = z.object({
+  content: z.string().trim().min(1).max(4000).optional(),
+});
+
+export const rejectDraftSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Taking over a conversation another operator holds needs force
+export const conversationTakeoverSchema = z.object({
+  force: z.boolean().default(false),
+});
+
+export const pauseConversationSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const operatorMessageSchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+});
+
+export const consentRevokeSchema = z.object({
+  ...consentScope,
+  reason: z.string().max(500).optional(),
+});
+
+// Playground request: an unsaved draft over the stored persona, a made-up fan and a scripted history
+export const personaPreviewSchema = z.object({
+  draft: insertPersonaSchema.omit({ creatorId: true, isActive: true, isDefault: true }).partial().default({}),
+  fan: z.object({
+    handle: z.string().max(100).default('preview_fan'),
+    displayName: z.string().max(100).nullable().optional(),
+    timezone: z.string().nullable().optional(),
+    spendTier: z.string().default('free'),
+    preferences: z.record(z.any()).nullable().optional(),
+    boundaries: z.array(z.string()).nullable().optional(),
+    // Defaults to consented so previews reach the model; set false to try the consent gate
+    consented: z.boolean().default(true),
+  }).default({}),
+  history: z.array(z.object({
+    sender: z.enum(['fan', 'ai']),
+    content: z.string().min(1).max(4000),
+  })).max(20).default([]),
+  threadSummary: z.string().max(4000).optional(),
+  message: z.string().trim().min(1).max(4000),
+});
+
+export const scheduleMessageSchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+  scheduledAt: z.coerce.date(),
+});
+
+export const rescheduleMessageSchema = scheduleMessageSchema.partial();
+
+export const moderationReviewSchema = z.object({
+  decision: z.enum(['approve', 'block', 'escalate']),
+  reason: z.string().min(1).max(1000),
+  // Only applies to escalations; defaults to pausing the conversation
+  pauseConversation: z.boolean().optional(),
+});
+
 // Types
+export type UserRole = typeof userRoles[number];
+export type ModerationReview = z.infer<typeof moderationReviewSchema>;
+export type ScheduleMessage = z.infer<typeof scheduleMessageSchema>;
+export type PersonaPreviewRequest = z.infer<typeof personaPreviewSchema>;
+export type ConsentText = typeof consentTexts.$inferSelect;
+export type ConsentRecord = typeof consentRecords.$inferSelect;
+export type InsertConsentRecord = typeof consentRecords.$inferInsert;
+export type OptOutEvent = typeof optOutEvents.$inferSelect;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type LLMConfig = z.infer<typeof llmConfigSchema>;
+export type CopilotConfig = z.infer<typeof copilotConfigSchema>;
+export type ReplyDraft = typeof replyDrafts.$inferSelect;
+export type InsertReplyDraft = typeof replyDrafts.$inferInsert;
+export type ChannelAccount = typeof channelAccounts.$inferSelect;
+export type InsertChannelAccount = typeof channelAccounts.$inferInsert;
+export type InsertOptOutEvent = typeof optOutEvents.$inferInsert;
+export type FanMemory = typeof fanMemories.$inferSelect;
+export type FanMemoryCategory = typeof FAN_MEMORY_CATEGORIES[number];
+export type InsertFanMemory = z.infer<typeof insertFanMemorySchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Persona = typeof personas.$inferSelect;
 export type InsertPersona = z.infer<typeof insertPersonaSchema>;
+export type PersonaVersion = typeof personaVersions.$inferSelect;
+export type PersonaRoutingRule = typeof personaRoutingRules.$inferSelect;
+export type InsertPersonaRoutingRule = z.infer<typeof insertPersonaRoutingRuleSchema>;
 export type Fan = typeof fans.$inferSelect;
 export type InsertFan = z.infer<typeof insertFanSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type ConversationMode = 'ai' | 'human' | 'paused';
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type ContentItem = typeof contentItems.$inferSelect;
 export type InsertContentItem = z.infer<typeof insertContentItemSchema>;
+export type MediaVariant = NonNullable<ContentItem['variants']>[string];
 export type Payment = typeof payments.$inferSelect;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type MediaDelivery = typeof mediaDeliveries.$inferSelect;
+export type InsertMediaDelivery = z.infer<typeof insertMediaDeliverySchema>;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type ModerationQueue = typeof moderationQueue.$inferSelect;
-export type InsertModerationQueue = z.infer<typeof insertModerationQueueSchema>;
\ No newline at end of file
+export type InsertModerationQueue = z.infer<typeof insertModerationQueueSchema>;
+export type ModerationRule = typeof moderationRules.$inferSelect;
+export type InsertModerationRule = z.infer<typeof insertModerationRuleSchema>;
\ No newline at end of file